@@ -25,6 +25,7 @@ export default {
     'src/**/*.{ts,tsx}',
     '!src/**/*.d.ts',
     '!src/**/index.ts',
-    '!src/cli.tsx'
+    '!src/cli.tsx',
+    '!src/__tests__/helpers/**'
   ]
 };
\ No newline at end of file
@@ -4,19 +4,40 @@ import { ConversationList } from './components/ConversationList.js';
 import { ConversationPreview } from './components/ConversationPreview.js';
 import { ConversationPreviewFull } from './components/ConversationPreviewFull.js';
 import { CommandEditor } from './components/CommandEditor.js';
-import { getPaginatedConversations } from './utils/conversationReader.js';
+import { findConversationIndex, getAllConversations, getPaginatedConversations, loadConversationMessages, refreshConversations } from './utils/conversationReader.js';
+import { resolveSessionRoots } from './utils/sessionRoots.js';
+import { watchSessions } from './utils/sessionWatcher.js';
+import { tailRollout } from './utils/rolloutTail.js';
+import { isCompressedRollout, decompressRollout } from './utils/rolloutFiles.js';
+import { MAX_SEARCH_RESULTS, searchSessions, type SearchHit } from './utils/sessionSearch.js';
+import { formatSessionFilter, parseSessionFilter } from './utils/sessionFilter.js';
+import { rankConversations } from './utils/fuzzyFilter.js';
+import { describeDirectoryScope, resolveDirectoryScope, type DirectoryScope, type DirectoryScopeMode } from './utils/directoryScope.js';
+import { nextSortMode, SORT_MODE_LABELS, type SortMode } from './utils/sortModes.js';
+import { recordResume } from './utils/resumeHistory.js';
+import { writeExportFile, type ExportFormat } from './utils/exportCommand.js';
+import { flattenProjectTree, groupByProject, projectTreeRowConversation } from './utils/projectGroups.js';
+import { combineThreadTranscripts, flattenThreads, threadKey, updateThreads, type ThreadRow } from './utils/resumeChains.js';
 import { spawn, spawnSync } from 'child_process';
+import { basename } from 'path';
 import clipboardy from 'clipboardy';
 import type { Conversation } from './types.js';
-import { loadConfig } from './utils/configLoader.js';
+import { formatProjectPath } from './utils/conversationUtils.js';
+import { stripControlChars } from './utils/stringUtils.js';
+import { loadConfig, saveConfigSetting } from './utils/configLoader.js';
 import { matchesKeyBinding } from './utils/keyBindingHelper.js';
+import { formatKeys } from './utils/shortcutHelper.js';
 import type { Config } from './types/config.js';
 import { detectCodexSupport, type CodexSupport } from './utils/codexSupport.js';
 
 interface AppProps {
   codexArgs?: string[];
   currentDirOnly?: boolean;
+  // How `currentDirOnly` matches directories; `[list] directoryScope` from config when omitted
+  directoryScopeMode?: DirectoryScopeMode;
   hideOptions?: string[];
+  // Sessions roots to browse; resolved from CODEX_HOME and config when omitted
+  sessionRoots?: string[];
 }
 
 // Layout constants
@@ -32,6 +53,35 @@ const DEFAULT_TERMINAL_WIDTH = 80;
 const DEFAULT_TERMINAL_HEIGHT = 24;
 const EXECUTE_DELAY_MS = 500; // Delay before executing command to show status
 const STATUS_MESSAGE_DURATION_MS = 2000; // Duration to show status messages
+// Keys answering the export prompt
+const EXPORT_FORMAT_KEYS = new Map<string, ExportFormat>([['m', 'markdown'], ['h', 'html'], ['j', 'json']]);
+type LoadMode = 'initial' | 'paginate' | 'refresh';
+
+const LOADED_CONVERSATION_CACHE_SIZE = 10; // Recently opened transcripts kept in memory
+
+// Identifies one version of a rollout file; changes when the file is appended to
+const conversationKey = (conversation: Conversation): string =>
+  `${conversation.sourcePath || conversation.sessionId}:${conversation.endTime.getTime()}`;
+
+// Resume threads preview the combined transcript of all their sessions
+const previewKey = (conversation: Conversation): string =>
+  conversation.resumedFrom?.length
+    ? `thread:${[conversation, ...conversation.resumedFrom].map(conversationKey).join('|')}`
+    : conversationKey(conversation);
+
+const loadPreviewConversation = async (conversation: Conversation): Promise<Conversation> => {
+  if (!conversation.resumedFrom?.length) return loadConversationMessages(conversation);
+  const oldestFirst = [...conversation.resumedFrom].reverse().concat(conversation);
+  const loaded = await Promise.all(oldestFirst.map(loadConversationMessages));
+  return { ...combineThreadTranscripts(loaded), resumedFrom: conversation.resumedFrom };
+};
+
+// Row to select after the list changed: the same session, else the thread it was folded into
+const findRowIndex = (rows: ThreadRow[], key: string): number => {
+  const index = rows.findIndex(row => threadKey(row.conversation) === key);
+  if (index !== -1) return index;
+  return rows.findIndex(row => row.conversation.resumedFrom?.some(member => threadKey(member) === key));
+};
 
 const sanitizeResumeArgs = (args: string[]): string[] => {
   const sanitized: string[] = [];
@@ -53,7 +103,7 @@ const sanitizeResumeArgs = (args: string[]): string[] => {
   return sanitized;
 };
 
-const App: React.FC<AppProps> = ({ codexArgs = [], currentDirOnly = false, hideOptions = [] }) => {
+const App: React.FC<AppProps> = ({ codexArgs = [], currentDirOnly = false, directoryScopeMode, hideOptions = [], sessionRoots }) => {
   const { exit } = useApp();
   const { stdout } = useStdout();
   const { setRawMode } = useStdin();
@@ -64,6 +114,11 @@ const App: React.FC<AppProps> = ({ codexArgs = [], currentDirOnly = false, hideO
   const [dimensions, setDimensions] = useState({ width: DEFAULT_TERMINAL_WIDTH, height: DEFAULT_TERMINAL_HEIGHT });
   const [statusMessage, setStatusMessage] = useState<string | null>(null);
   const config = useMemo<Config>(() => loadConfig(), []);
+  const roots = useMemo(() => sessionRoots ?? resolveSessionRoots(config.sessions.roots), [sessionRoots, config]);
+  const directoryScope = useMemo(
+    () => (currentDirOnly ? resolveDirectoryScope(process.cwd(), directoryScopeMode ?? config.list.directoryScope) : undefined),
+    [currentDirOnly, directoryScopeMode, config]
+  );
   const [showCommandEditor, setShowCommandEditor] = useState(false);
   const [editedArgs, setEditedArgs] = useState<string[]>(codexArgs);
   const [showFullView, setShowFullView] = useState(false);
@@ -76,9 +131,69 @@ const App: React.FC<AppProps> = ({ codexArgs = [], currentDirOnly = false, hideO
   
   // Pagination state
   const [currentPage, setCurrentPage] = useState(0);
+  const [sortMode, setSortMode] = useState<SortMode>(config.list.sort);
   const [totalCount, setTotalCount] = useState(0);
   const [paginating, setPaginating] = useState(false);
 
+  // Full transcript of the selected conversation, loaded on demand
+  const [loadedConversation, setLoadedConversation] = useState<{ key: string; conversation: Conversation } | null>(null);
+  const loadedCacheRef = useRef<Map<string, Conversation>>(new Map());
+
+  // Live updates: latest loader and selection, read from the file watcher callback
+  const loadRequestRef = useRef(0);
+  const selectedKeyRef = useRef<string | null>(null);
+  // Session to select once the next load lands, e.g. after the sort order changed
+  const pendingSelectionRef = useRef<string | null>(null);
+  const loadConversationsRef = useRef<(mode?: LoadMode) => Promise<void>>(async () => {});
+  const conversationsRef = useRef(conversations);
+
+  // Follow mode: the selected rollout file is tailed and its latest parse shown in the preview
+  const [followMode, setFollowMode] = useState(false);
+  const [liveConversation, setLiveConversation] = useState<Conversation | null>(null);
+
+  // Resume threads whose earlier sessions are listed under the newest one
+  const [expandedThreads, setExpandedThreads] = useState<ReadonlySet<string>>(new Set());
+  const expandedThreadsRef = useRef(expandedThreads);
+
+  // Text typed into the header for a full-text search or the list filter, until submitted or cancelled
+  const [prompt, setPrompt] = useState<{ kind: 'search' | 'filter'; text: string } | null>(null);
+
+  // Full-text search results, listed in place of the sessions.
+  // Results keep their own selection so the list selection survives a search.
+  const [search, setSearch] = useState<{ query: string; hits: SearchHit[]; searching: boolean; selectedIndex: number } | null>(null);
+  const searchRequestRef = useRef(0);
+
+  // Structured list filter (see sessionFilter), applied while sessions are read so page counts match
+  const [filterQuery, setFilterQuery] = useState('');
+  // Fuzzy filter: the list narrows as the query is typed, over every session (read once when the
+  // filter opens), best matches first
+  const [fuzzy, setFuzzy] = useState<{ query: string; sessions: Conversation[] | null; selectedIndex: number } | null>(null);
+  const fuzzyRequestRef = useRef(0);
+
+  const sessionFilter = useMemo(() => (filterQuery ? parseSessionFilter(filterQuery).filter : undefined), [filterQuery]);
+
+  // Project view: every session grouped by project (read when the view opens and whenever the
+  // scope, filter or sort order changes), with its own selection and expanded projects
+  const [projectView, setProjectView] = useState<{ sessions: Conversation[] | null; expanded: ReadonlySet<string>; selectedIndex: number } | null>(null);
+  // Project opened from the project view: the list shows only its sessions until Esc goes back up
+  const [drilledProject, setDrilledProject] = useState<string | null>(null);
+  const listScope = useMemo<DirectoryScope | undefined>(
+    () => (drilledProject !== null ? { mode: 'exact', path: drilledProject } : directoryScope),
+    [drilledProject, directoryScope]
+  );
+
+  // Reasoning summaries start hidden with `--hide thinking` and can be toggled at runtime
+  const [showThinking, setShowThinking] = useState(!hideOptions.includes('thinking'));
+  const visibleHideOptions = useMemo(() => {
+    const others = hideOptions.filter(option => option !== 'thinking');
+    return showThinking ? others : [...others, 'thinking'];
+  }, [hideOptions, showThinking]);
+
+  // Compressed session waiting for the user to confirm decompression before resuming
+  const [pendingDecompress, setPendingDecompress] = useState<Conversation | null>(null);
+  // Session waiting for the user to pick an export format
+  const [pendingExport, setPendingExport] = useState<Conversation | null>(null);
+
   useEffect(() => {
     // Detect Codex feature support once at startup
     startTransition(() => {
@@ -199,48 +314,417 @@ const App: React.FC<AppProps> = ({ codexArgs = [], currentDirOnly = false, hideO
     }, EXECUTE_DELAY_MS);
   };
 
-  const loadConversations = useCallback(async (isPaginating = false) => {
+  const resumeConversation = (selectedConv: Conversation) => {
+    const resumeTargetPath = selectedConv.sourcePath;
+    const sessionId = selectedConv.sessionId;
+
+    let commandArgs: string[] = [];
+    let status: string = '';
+    let didResume = true;
+
+    // Prefer native resume/session flags when available
+    if (codexSupport.supportsResumeCommand) {
+      const sanitizedArgs = sanitizeResumeArgs(editedArgs);
+      commandArgs = ['resume', ...sanitizedArgs, sessionId];
+      status = `Resuming by session: ${sessionId}`;
+    } else if (codexSupport.supportsResumeFlag) {
+      commandArgs = [...editedArgs, '--resume', sessionId];
+      status = `Resuming by session: ${sessionId}`;
+    } else if (codexSupport.supportsSessionIdFlag) {
+      commandArgs = [...editedArgs, '--session-id', sessionId];
+      status = `Resuming conversation: ${sessionId}`;
+    } else if (resumeTargetPath) {
+      // Fallback: legacy experimental_resume path-based resume (for older Codex builds)
+      commandArgs = [...editedArgs, '-c', `experimental_resume=${resumeTargetPath}`];
+      status = `Resuming by log file: ${resumeTargetPath}`;
+    } else {
+      // Give up resuming; start new session and notify
+      commandArgs = [...editedArgs];
+      status = 'Resume not supported by this Codex build; starting a new session';
+      didResume = false;
+    }
+
+    if (didResume) void recordResume(sessionId);
+    const commandStr = `codex ${commandArgs.join(' ')}`;
+    executeCodexCommand(selectedConv, commandArgs, `Executing: ${commandStr}\n${status}`, didResume ? 'resume' : 'start');
+  };
+
+  const loadConversations = useCallback(async (mode: LoadMode = 'initial') => {
+    // Only the most recent request may update state (a refresh can overlap paging)
+    const requestId = ++loadRequestRef.current;
     try {
-      if (isPaginating) {
+      if (mode === 'paginate') {
+        // Keep the current page on screen until the next one is ready
         setPaginating(true);
-        setConversations([]); // Clear current conversations
-      } else {
+      } else if (mode === 'initial') {
         setLoading(true);
       }
       
-      const currentDir = currentDirOnly ? process.cwd() : undefined;
-      
       // Load paginated conversations
       const offset = currentPage * ITEMS_PER_PAGE;
       const { conversations: convs, total } = await getPaginatedConversations({
         limit: ITEMS_PER_PAGE,
         offset,
-        currentDirFilter: currentDir
+        directoryScope: listScope,
+        filter: sessionFilter,
+        sort: sortMode,
+        roots,
+        threads: true
       });
+      if (requestId !== loadRequestRef.current) return;
       setConversations(convs);
       setTotalCount(total);
+      // On refresh keep the same session selected even if entries moved
+      const newRows = flattenThreads(convs, expandedThreadsRef.current);
+      const selectedKey = pendingSelectionRef.current ?? (mode === 'refresh' ? selectedKeyRef.current : null);
+      pendingSelectionRef.current = null;
+      const movedTo = selectedKey ? findRowIndex(newRows, selectedKey) : -1;
+      setSelectedIndex(prev => movedTo !== -1 ? movedTo : Math.min(prev, Math.max(0, newRows.length - 1)));
       
       setLoading(false);
       setPaginating(false);
     } catch (err) {
+      if (requestId !== loadRequestRef.current) return;
+      // A failed background refresh keeps the list that is already shown
+      if (mode === 'refresh') return;
       setError(err instanceof Error ? err.message : 'Failed to load conversations');
       setLoading(false);
       setPaginating(false);
     }
-  }, [currentDirOnly, currentPage]);
+  }, [listScope, currentPage, sessionFilter, sortMode, roots]);
+
+  const rows = useMemo(() => flattenThreads(conversations, expandedThreads), [conversations, expandedThreads]);
+  const fuzzySessions = fuzzy?.sessions;
+  const fuzzyQuery = fuzzy?.query;
+  const fuzzyResults = useMemo(() => {
+    if (!fuzzySessions) return null;
+    const ranked = rankConversations(fuzzySessions, fuzzyQuery ?? '');
+    return {
+      conversations: ranked.map(result => result.conversation),
+      matches: new Map(ranked.map(result => [threadKey(result.conversation), { summary: result.summaryPositions, path: result.pathPositions }]))
+    };
+  }, [fuzzySessions, fuzzyQuery]);
+  const projectSessions = projectView?.sessions;
+  const projectGroups = useMemo(() => (projectSessions ? groupByProject(projectSessions) : null), [projectSessions]);
+  const projectExpanded = projectView?.expanded;
+  const projectRows = useMemo(
+    () => (projectGroups && projectExpanded ? flattenProjectTree(projectGroups, projectExpanded) : []),
+    [projectGroups, projectExpanded]
+  );
+  // Search and the fuzzy filter list sessions on top of the project view
+  const showProjectTree = projectView !== null && drilledProject === null && !search && !fuzzy;
+  const selectedProjectRow = showProjectTree ? projectRows[projectView.selectedIndex] ?? null : null;
+  const selectedHit = search ? search.hits[search.selectedIndex] ?? null : null;
+  const selectedSummary = fuzzy
+    ? fuzzyResults?.conversations[fuzzy.selectedIndex] ?? null
+    : search ? selectedHit?.conversation ?? null
+    : showProjectTree ? (selectedProjectRow && projectTreeRowConversation(selectedProjectRow))
+    : rows[selectedIndex]?.conversation ?? null;
+  const searchResults = useMemo(() => search ? {
+    conversations: search.hits.map(hit => hit.conversation),
+    snippets: new Map(search.hits.map(hit => [threadKey(hit.conversation), hit.snippet]))
+  } : null, [search]);
+
+  useEffect(() => {
+    selectedKeyRef.current = selectedSummary ? threadKey(selectedSummary) : null;
+  }, [selectedSummary]);
+
+  useEffect(() => {
+    expandedThreadsRef.current = expandedThreads;
+  }, [expandedThreads]);
+
+  const projectViewOpen = projectView !== null;
+
+  useEffect(() => {
+    if (!projectViewOpen) return undefined;
+    let cancelled = false;
+    void getAllConversations({ directoryScope, filter: sessionFilter, sort: sortMode, roots, threads: true }).then((sessions) => {
+      if (!cancelled) setProjectView(prev => prev && { ...prev, sessions });
+    }).catch((err) => {
+      if (cancelled) return;
+      setProjectView(null);
+      setStatusMessage(`✗ Failed to load sessions: ${err instanceof Error ? err.message : String(err)}`);
+      setTimeout(() => setStatusMessage(null), STATUS_MESSAGE_DURATION_MS);
+    });
+    return () => { cancelled = true; };
+  }, [projectViewOpen, directoryScope, sessionFilter, sortMode, roots]);
+
+  useEffect(() => {
+    loadConversationsRef.current = loadConversations;
+  }, [loadConversations]);
+
+  useEffect(() => {
+    conversationsRef.current = conversations;
+  }, [conversations]);
+
+  useEffect(() => {
+    // Pick up new sessions and new messages written by a running Codex. Sessions on the page are
+    // read again and updated in place; any other change may change what the page lists.
+    const onChange = (changedPaths: string[]) => {
+      const listed = new Set(conversationsRef.current.flatMap(c => [c, ...(c.resumedFrom ?? [])]).map(c => c.sourcePath));
+      if (changedPaths.length === 0 || !changedPaths.every(path => listed.has(path))) {
+        void loadConversationsRef.current('refresh');
+        return;
+      }
+      void refreshConversations(changedPaths)
+        .then(updated => setConversations(prev => updateThreads(prev, updated)))
+        .catch(() => { /* keep the list that is already shown */ });
+    };
+    const watchers = roots.map(root => watchSessions(root, onChange));
+    return () => watchers.forEach(watcher => watcher.close());
+  }, [roots]);
+
+  const selectedSourcePath = selectedSummary?.sourcePath;
+
+  useEffect(() => {
+    if (!followMode || !selectedSourcePath) return undefined;
+    const tail = tailRollout(selectedSourcePath, setLiveConversation);
+    return () => tail.close();
+  }, [followMode, selectedSourcePath]);
+
+  useEffect(() => {
+    // While paginating the selection index already refers to the page being loaded
+    if (!selectedSummary || paginating) return undefined;
+    const key = previewKey(selectedSummary);
+    const cache = loadedCacheRef.current;
+    const cached = cache.get(key);
+    if (cached) {
+      setLoadedConversation({ key, conversation: cached });
+      return undefined;
+    }
+    let cancelled = false;
+    void loadPreviewConversation(selectedSummary).then((conversation) => {
+      cache.set(key, conversation);
+      if (cache.size > LOADED_CONVERSATION_CACHE_SIZE) {
+        const oldest = cache.keys().next().value;
+        if (oldest !== undefined) cache.delete(oldest);
+      }
+      if (!cancelled) setLoadedConversation({ key, conversation });
+    }).catch(() => {
+      // Fall back to the list entry so the preview does not stay in loading state
+      if (!cancelled) setLoadedConversation({ key, conversation: selectedSummary });
+    });
+    return () => { cancelled = true; };
+  }, [selectedSummary, paginating]);
+
+  const runSearch = (query: string) => {
+    // Only the latest search may publish results; older ones stop at the next file
+    const requestId = ++searchRequestRef.current;
+    setSearch({ query, hits: [], searching: true, selectedIndex: 0 });
+    void searchSessions(query, {
+      roots,
+      directoryScope: listScope,
+      filter: sessionFilter,
+      isCancelled: () => requestId !== searchRequestRef.current
+    }).then((hits) => {
+      if (requestId === searchRequestRef.current) setSearch({ query, hits, searching: false, selectedIndex: 0 });
+    }).catch((err) => {
+      if (requestId !== searchRequestRef.current) return;
+      setSearch({ query, hits: [], searching: false, selectedIndex: 0 });
+      setStatusMessage(`✗ Search failed: ${err instanceof Error ? err.message : String(err)}`);
+      setTimeout(() => setStatusMessage(null), STATUS_MESSAGE_DURATION_MS);
+    });
+  };
+
+  const openFuzzyFilter = () => {
+    const requestId = ++fuzzyRequestRef.current;
+    setFuzzy({ query: '', sessions: null, selectedIndex: 0 });
+    void getAllConversations({ directoryScope: listScope, filter: sessionFilter, sort: sortMode, roots }).then((sessions) => {
+      if (requestId === fuzzyRequestRef.current) setFuzzy(prev => prev && { ...prev, sessions });
+    }).catch((err) => {
+      if (requestId !== fuzzyRequestRef.current) return;
+      setFuzzy(null);
+      setStatusMessage(`✗ Failed to load sessions: ${err instanceof Error ? err.message : String(err)}`);
+      setTimeout(() => setStatusMessage(null), STATUS_MESSAGE_DURATION_MS);
+    });
+  };
+
+  const closeFuzzyFilter = () => {
+    fuzzyRequestRef.current++;
+    setFuzzy(null);
+  };
+
+  const confirmSelection = (conversation: Conversation | null) => {
+    if (conversation?.sourcePath && isCompressedRollout(conversation.sourcePath)) {
+      // Codex cannot read gzipped rollouts; ask before decompressing in place
+      setPendingDecompress(conversation);
+    } else if (conversation) {
+      resumeConversation(conversation);
+    }
+  };
+
+  const clearSearch = () => {
+    searchRequestRef.current++;
+    setSearch(null);
+  };
+
+  const applyFilter = (query: string) => {
+    const { filter, problems } = parseSessionFilter(query);
+    setFilterQuery(formatSessionFilter(filter));
+    setCurrentPage(0);
+    setSelectedIndex(0);
+    if (problems.length > 0) {
+      setStatusMessage(`✗ Filter: ${problems.join('; ')}`);
+      setTimeout(() => setStatusMessage(null), STATUS_MESSAGE_DURATION_MS);
+    }
+  };
+
+  const closeProjectView = () => {
+    setProjectView(null);
+    if (drilledProject !== null) {
+      setDrilledProject(null);
+      setCurrentPage(0);
+      setSelectedIndex(0);
+    }
+  };
+
+  const drillIntoProject = (projectPath: string) => {
+    setDrilledProject(projectPath);
+    setCurrentPage(0);
+    setSelectedIndex(0);
+  };
+
+  const backToProjects = () => {
+    // The project view kept its selection and expanded projects while its sessions were listed
+    setDrilledProject(null);
+    setCurrentPage(0);
+    setSelectedIndex(0);
+  };
+
+  const cycleSortMode = () => {
+    const mode = nextSortMode(sortMode);
+    const selectedKey = selectedKeyRef.current;
+    try {
+      saveConfigSetting('list', 'sort', mode);
+      setStatusMessage(`Sorting by ${SORT_MODE_LABELS[mode]}`);
+    } catch (err) {
+      setStatusMessage(`Sorting by ${SORT_MODE_LABELS[mode]} (✗ not saved: ${err instanceof Error ? err.message : String(err)})`);
+    }
+    setTimeout(() => setStatusMessage(null), STATUS_MESSAGE_DURATION_MS);
+
+    // Open the page the selected session moves to, and keep it selected there
+    const findPage = selectedKey
+      ? findConversationIndex({ directoryScope: listScope, filter: sessionFilter, sort: mode, roots, threads: true }, selectedKey).then(index => Math.max(0, Math.floor(index / ITEMS_PER_PAGE)))
+      : Promise.resolve(0);
+    void findPage.catch(() => 0).then((page) => {
+      pendingSelectionRef.current = selectedKey;
+      setSortMode(mode);
+      setCurrentPage(page);
+    });
+  };
+
+  // Writes the transcript as shown (a thread's combined one, without hidden message types) to the working directory
+  const exportConversationFile = (conversation: Conversation, exportFormat: ExportFormat) => {
+    setStatusMessage('Exporting...');
+    void loadPreviewConversation(conversation)
+      .then(loaded => writeExportFile(loaded, exportFormat, visibleHideOptions))
+      .then(filePath => setStatusMessage(`✓ Exported to ${filePath}`))
+      .catch(err => setStatusMessage(`✗ Export failed: ${err instanceof Error ? err.message : String(err)}`))
+      .finally(() => setTimeout(() => setStatusMessage(null), STATUS_MESSAGE_DURATION_MS));
+  };
+
+  const loadedOnceRef = useRef(false);
 
-  const prevPageRef = useRef(0);
-  
   useEffect(() => {
-    const wasPage = prevPageRef.current;
-    const isPaginating = currentPage !== wasPage;
-    prevPageRef.current = currentPage;
-    void loadConversations(isPaginating);
-  }, [currentPage, loadConversations]);
+    // Later loads (another page, filter or sort order) keep the current list on screen until they land
+    void loadConversations(loadedOnceRef.current ? 'paginate' : 'initial');
+    loadedOnceRef.current = true;
+  }, [loadConversations]);
 
   useInput((input, key) => {
     // Don't process any input when command editor is shown
     if (showCommandEditor) return;
+
+    if (pendingDecompress) {
+      if (input === 'y' || input === 'Y') {
+        const conversation = pendingDecompress;
+        setPendingDecompress(null);
+        setStatusMessage('Decompressing session...');
+        void decompressRollout(conversation.sourcePath!).then((sourcePath) => {
+          resumeConversation({ ...conversation, sourcePath });
+        }).catch((err) => {
+          setStatusMessage(`✗ Failed to decompress: ${err instanceof Error ? err.message : String(err)}`);
+          setTimeout(() => setStatusMessage(null), STATUS_MESSAGE_DURATION_MS);
+        });
+      } else if (input === 'n' || input === 'N' || key.escape) {
+        setPendingDecompress(null);
+        setStatusMessage('Resume cancelled');
+        setTimeout(() => setStatusMessage(null), STATUS_MESSAGE_DURATION_MS);
+      }
+      return;
+    }
+
+    if (pendingExport) {
+      const exportFormat = EXPORT_FORMAT_KEYS.get(input);
+      if (exportFormat) {
+        setPendingExport(null);
+        exportConversationFile(pendingExport, exportFormat);
+      } else if (key.escape) {
+        setPendingExport(null);
+        setStatusMessage('Export cancelled');
+        setTimeout(() => setStatusMessage(null), STATUS_MESSAGE_DURATION_MS);
+      }
+      return;
+    }
+
+    // The prompt takes every key until it is submitted or cancelled
+    if (prompt !== null) {
+      if (key.escape) {
+        setPrompt(null);
+      } else if (key.return) {
+        const query = prompt.text.trim();
+        setPrompt(null);
+        if (prompt.kind === 'filter') applyFilter(query);
+        else if (query) runSearch(query);
+        else clearSearch();
+      } else if (key.backspace || key.delete) {
+        setPrompt({ ...prompt, text: prompt.text.slice(0, -1) });
+      } else if (input && !key.ctrl && !key.meta) {
+        setPrompt({ ...prompt, text: prompt.text + stripControlChars(input) });
+      }
+      return;
+    }
+
+    // The fuzzy filter takes typed characters; arrows move through the matches
+    if (fuzzy) {
+      const typed = input.length > 0 && !key.ctrl && !key.meta;
+      const maxIndex = (fuzzyResults?.conversations.length ?? 0) - 1;
+      if (key.escape) {
+        closeFuzzyFilter();
+      } else if ((key.return || !typed) && matchesKeyBinding(input, key, config.keybindings.confirm)) {
+        confirmSelection(selectedSummary);
+      } else if (!typed && matchesKeyBinding(input, key, config.keybindings.selectPrevious)) {
+        setFuzzy(prev => prev && { ...prev, selectedIndex: Math.max(0, prev.selectedIndex - 1) });
+      } else if (!typed && matchesKeyBinding(input, key, config.keybindings.selectNext)) {
+        setFuzzy(prev => prev && { ...prev, selectedIndex: Math.max(0, Math.min(maxIndex, prev.selectedIndex + 1)) });
+      } else if (key.backspace || key.delete) {
+        setFuzzy(prev => prev && { ...prev, query: prev.query.slice(0, -1), selectedIndex: 0 });
+      } else if (typed) {
+        const text = stripControlChars(input);
+        setFuzzy(prev => prev && { ...prev, query: prev.query + text, selectedIndex: 0 });
+      }
+      return;
+    }
+
+    if (search && key.escape && !showFullView) {
+      clearSearch();
+      return;
+    }
+
+    if (drilledProject !== null && key.escape && !showFullView) {
+      backToProjects();
+      return;
+    }
+
+    if (showProjectTree && key.escape && !showFullView) {
+      closeProjectView();
+      return;
+    }
+
+    if (filterQuery && key.escape && !showFullView) {
+      applyFilter('');
+      return;
+    }
     
     if (matchesKeyBinding(input, key, config.keybindings.quit)) {
       exit();
@@ -255,93 +739,155 @@ const App: React.FC<AppProps> = ({ codexArgs = [], currentDirOnly = false, hideO
       return;
     }
 
-    // In full view, disable all navigation keys except quit and toggle
+    if (matchesKeyBinding(input, key, config.keybindings.toggleLiveTail)) {
+      setFollowMode(prev => !prev);
+      setStatusMessage(followMode ? 'Stopped following session' : 'Following session live');
+      setTimeout(() => setStatusMessage(null), STATUS_MESSAGE_DURATION_MS);
+      return;
+    }
+
+    if (matchesKeyBinding(input, key, config.keybindings.toggleThinking)) {
+      setShowThinking(prev => !prev);
+      setStatusMessage(showThinking ? 'Hiding reasoning summaries' : 'Showing reasoning summaries');
+      setTimeout(() => setStatusMessage(null), STATUS_MESSAGE_DURATION_MS);
+      return;
+    }
+
+    if (matchesKeyBinding(input, key, config.keybindings.exportConversation) && selectedSummary) {
+      setPendingExport(selectedSummary);
+      return;
+    }
+
+    // In full view, disable all navigation keys except quit and toggles
     if (showFullView) {
       return;
     }
 
-    if (loading || conversations.length === 0) return;
+    if (matchesKeyBinding(input, key, config.keybindings.search)) {
+      setPrompt({ kind: 'search', text: search?.query ?? '' });
+      return;
+    }
 
-    // Calculate pagination values
-    const totalPages = Math.ceil(totalCount / ITEMS_PER_PAGE);
-    
-    if (matchesKeyBinding(input, key, config.keybindings.selectPrevious)) {
-      if (selectedIndex === 0 && currentPage > 0) {
-        // Auto-navigate to previous page when at first item
-        setCurrentPage(prev => prev - 1);
-        setSelectedIndex(ITEMS_PER_PAGE - 1); // Select last item of previous page
-      } else {
-        setSelectedIndex((prev) => Math.max(0, prev - 1));
-      }
+    if (!search && matchesKeyBinding(input, key, config.keybindings.fuzzyFilter)) {
+      openFuzzyFilter();
+      return;
     }
-    
-    if (matchesKeyBinding(input, key, config.keybindings.selectNext)) {
-      const maxIndex = conversations.length - 1;
-      const canGoNext = totalCount === -1 ? conversations.length === ITEMS_PER_PAGE : currentPage < totalPages - 1;
-      if (selectedIndex === maxIndex && canGoNext) {
-        // Auto-navigate to next page when at last item
-        setCurrentPage(prev => prev + 1);
-        setSelectedIndex(0); // Select first item of next page
-      } else {
-        setSelectedIndex((prev) => Math.min(maxIndex, prev + 1));
-      }
+
+    if (!search && matchesKeyBinding(input, key, config.keybindings.filter)) {
+      setPrompt({ kind: 'filter', text: filterQuery ? `${filterQuery} ` : '' });
+      return;
     }
-    
-    // Page navigation with arrow keys and n/p
-    if (matchesKeyBinding(input, key, config.keybindings.pageNext)) {
-      // For unknown total (-1), allow next if we got full page
-      if (totalCount === -1 ? conversations.length === ITEMS_PER_PAGE : currentPage < totalPages - 1) {
-        setCurrentPage(prev => prev + 1);
-        setSelectedIndex(0); // Reset selection to first item of new page
-      }
+
+    if (!search && matchesKeyBinding(input, key, config.keybindings.cycleSort)) {
+      cycleSortMode();
+      return;
     }
-    
-    if (matchesKeyBinding(input, key, config.keybindings.pagePrevious) && currentPage > 0) {
-      setCurrentPage(prev => prev - 1);
-      setSelectedIndex(0); // Reset selection to first item of new page
+
+    if (!search && matchesKeyBinding(input, key, config.keybindings.toggleProjectView)) {
+      if (projectView) closeProjectView();
+      else setProjectView({ sessions: null, expanded: new Set(), selectedIndex: 0 });
+      return;
     }
-    
 
-    if (matchesKeyBinding(input, key, config.keybindings.confirm)) {
-      const selectedConv = conversations[selectedIndex];
-      if (selectedConv) {
-        const resumeTargetPath = selectedConv.sourcePath;
-        const sessionId = selectedConv.sessionId;
-
-        let commandArgs: string[] = [];
-        let status: string = '';
-        let didResume = true;
-
-        // Prefer native resume/session flags when available
-        if (codexSupport.supportsResumeCommand) {
-          const sanitizedArgs = sanitizeResumeArgs(editedArgs);
-          commandArgs = ['resume', ...sanitizedArgs, sessionId];
-          status = `Resuming by session: ${sessionId}`;
-        } else if (codexSupport.supportsResumeFlag) {
-          commandArgs = [...editedArgs, '--resume', sessionId];
-          status = `Resuming by session: ${sessionId}`;
-        } else if (codexSupport.supportsSessionIdFlag) {
-          commandArgs = [...editedArgs, '--session-id', sessionId];
-          status = `Resuming conversation: ${sessionId}`;
-        } else if (resumeTargetPath) {
-          // Fallback: legacy experimental_resume path-based resume (for older Codex builds)
-          commandArgs = [...editedArgs, '-c', `experimental_resume=${resumeTargetPath}`];
-          status = `Resuming by log file: ${resumeTargetPath}`;
+    if (search) {
+      // Search results are one flat list: no pages and no threads
+      const maxIndex = search.hits.length - 1;
+      if (matchesKeyBinding(input, key, config.keybindings.selectPrevious)) {
+        setSearch(prev => prev && { ...prev, selectedIndex: Math.max(0, prev.selectedIndex - 1) });
+      }
+      if (matchesKeyBinding(input, key, config.keybindings.selectNext)) {
+        setSearch(prev => prev && { ...prev, selectedIndex: Math.max(0, Math.min(maxIndex, prev.selectedIndex + 1)) });
+      }
+    } else if (showProjectTree) {
+      const maxIndex = projectRows.length - 1;
+      if (matchesKeyBinding(input, key, config.keybindings.selectPrevious)) {
+        setProjectView(prev => prev && { ...prev, selectedIndex: Math.max(0, prev.selectedIndex - 1) });
+      }
+      if (matchesKeyBinding(input, key, config.keybindings.selectNext)) {
+        setProjectView(prev => prev && { ...prev, selectedIndex: Math.max(0, Math.min(maxIndex, prev.selectedIndex + 1)) });
+      }
+      if (matchesKeyBinding(input, key, config.keybindings.toggleThread) && selectedProjectRow) {
+        // Sessions sit right below their project; collapsing from one selects the project
+        const projectPath = selectedProjectRow.group.projectPath;
+        const projectIndex = projectRows.findIndex(row => row.kind === 'project' && row.group.projectPath === projectPath);
+        setProjectView(prev => {
+          if (!prev) return prev;
+          const expanded = new Set(prev.expanded);
+          if (!expanded.delete(projectPath)) expanded.add(projectPath);
+          return { ...prev, expanded, selectedIndex: projectIndex };
+        });
+      }
+      if (selectedProjectRow?.kind === 'project' && matchesKeyBinding(input, key, config.keybindings.confirm)) {
+        drillIntoProject(selectedProjectRow.group.projectPath);
+        return;
+      }
+    } else {
+      if (loading || paginating || conversations.length === 0) return;
+
+      // Calculate pagination values
+      const totalPages = Math.ceil(totalCount / ITEMS_PER_PAGE);
+
+      if (matchesKeyBinding(input, key, config.keybindings.selectPrevious)) {
+        if (selectedIndex === 0 && currentPage > 0) {
+          // Auto-navigate to previous page when at first item
+          setCurrentPage(prev => prev - 1);
+          setSelectedIndex(ITEMS_PER_PAGE - 1); // Select last item of previous page
         } else {
-          // Give up resuming; start new session and notify
-          commandArgs = [...editedArgs];
-          status = 'Resume not supported by this Codex build; starting a new session';
-          didResume = false;
+          setSelectedIndex((prev) => Math.max(0, prev - 1));
+        }
+      }
+
+      if (matchesKeyBinding(input, key, config.keybindings.selectNext)) {
+        const maxIndex = rows.length - 1;
+        const canGoNext = totalCount === -1 ? conversations.length === ITEMS_PER_PAGE : currentPage < totalPages - 1;
+        if (selectedIndex === maxIndex && canGoNext) {
+          // Auto-navigate to next page when at last item
+          setCurrentPage(prev => prev + 1);
+          setSelectedIndex(0); // Select first item of next page
+        } else {
+          setSelectedIndex((prev) => Math.min(maxIndex, prev + 1));
+        }
+      }
+
+      // Page navigation with arrow keys and n/p
+      if (matchesKeyBinding(input, key, config.keybindings.pageNext)) {
+        // For unknown total (-1), allow next if we got full page
+        if (totalCount === -1 ? conversations.length === ITEMS_PER_PAGE : currentPage < totalPages - 1) {
+          setCurrentPage(prev => prev + 1);
+          setSelectedIndex(0); // Reset selection to first item of new page
         }
+      }
 
-        const commandStr = `codex ${commandArgs.join(' ')}`;
-        executeCodexCommand(selectedConv, commandArgs, `Executing: ${commandStr}\n${status}`, didResume ? 'resume' : 'start');
+      if (matchesKeyBinding(input, key, config.keybindings.pagePrevious) && currentPage > 0) {
+        setCurrentPage(prev => prev - 1);
+        setSelectedIndex(0); // Reset selection to first item of new page
       }
+
+
+      if (matchesKeyBinding(input, key, config.keybindings.toggleThread)) {
+        const row = rows[selectedIndex];
+        if (row && row.threadSize > 1) {
+          // Earlier sessions sit right below their head; collapsing from one selects the head
+          let headIndex = selectedIndex;
+          while (headIndex > 0 && rows[headIndex].depth > 0) headIndex--;
+          const head = threadKey(rows[headIndex].conversation);
+          setExpandedThreads(prev => {
+            const next = new Set(prev);
+            if (!next.delete(head)) next.add(head);
+            return next;
+          });
+          setSelectedIndex(headIndex);
+        }
+      }
+    }
+
+    if (matchesKeyBinding(input, key, config.keybindings.confirm)) {
+      confirmSelection(selectedSummary);
     }
 
     if (matchesKeyBinding(input, key, config.keybindings.copySessionId)) {
       // Copy resume target (JSONL path) to clipboard
-      const selectedConv = conversations[selectedIndex];
+      const selectedConv = selectedSummary;
       if (selectedConv) {
         try {
           const resumeTarget = selectedConv.sourcePath || selectedConv.sessionId;
@@ -358,7 +904,7 @@ const App: React.FC<AppProps> = ({ codexArgs = [], currentDirOnly = false, hideO
 
     if (matchesKeyBinding(input, key, config.keybindings.startNewSession)) {
       // Start new session without resuming
-      const selectedConv = conversations[selectedIndex];
+      const selectedConv = selectedSummary;
       if (selectedConv) {
         const commandArgs = [...editedArgs];
         executeCodexCommand(
@@ -392,18 +938,35 @@ const App: React.FC<AppProps> = ({ codexArgs = [], currentDirOnly = false, hideO
     );
   }
 
-  // Get the selected conversation
-  const selectedConversation = conversations[selectedIndex] || null;
+  // Get the selected conversation; show the list entry until its messages are loaded.
+  // When the selected file changed on disk, keep showing the previous transcript while it reloads.
+  const previewLoaded = !!selectedSummary && loadedConversation?.key === previewKey(selectedSummary);
+  const previewReloading = !!selectedSummary && !previewLoaded && !!selectedSummary.sourcePath
+    && loadedConversation?.conversation.sourcePath === selectedSummary.sourcePath;
+  // In follow mode the tailed file wins over the on-demand load once its first parse is in
+  const isLive = followMode && !!selectedSourcePath;
+  const liveSelected = isLive && liveConversation?.sourcePath === selectedSourcePath
+    ? { ...liveConversation, sessionRoot: selectedSummary?.sessionRoot }
+    : null;
+  const selectedConversation = liveSelected ?? (previewLoaded || previewReloading ? loadedConversation!.conversation : selectedSummary);
+  const footerMessage = pendingDecompress?.sourcePath
+    ? `${basename(pendingDecompress.sourcePath)} is compressed and Codex cannot read it. Decompress it in place and resume? (y/n)`
+    : pendingExport
+      ? `Export ${pendingExport.sessionId.slice(0, 8)} as (m)arkdown, (h)tml or (j)son? (Esc to cancel)`
+      : statusMessage;
+  const previewLoading = !liveSelected && !!selectedSummary && !previewLoaded && !previewReloading;
   
   const totalPages = Math.ceil(totalCount / ITEMS_PER_PAGE);
   
   // Calculate heights for fixed layout
   const headerHeight = HEADER_HEIGHT;
   const listMaxHeight = LIST_MAX_HEIGHT;
-  const visibleConversations = Math.min(MAX_VISIBLE_CONVERSATIONS, conversations.length);
+  const listConversations = fuzzy ? fuzzyResults?.conversations ?? [] : searchResults ? searchResults.conversations : conversations;
+  const listRowCount = fuzzy || searchResults ? listConversations.length : showProjectTree ? projectRows.length : rows.length;
+  const visibleConversations = Math.min(MAX_VISIBLE_CONVERSATIONS, listRowCount);
   // List height calculation: 
   // LIST_BASE_HEIGHT includes borders (2) + title (1)
-  const needsMoreIndicator = conversations.length > visibleConversations ? 1 : 0;
+  const needsMoreIndicator = listRowCount > visibleConversations ? 1 : 0;
   const listHeight = Math.min(listMaxHeight, LIST_BASE_HEIGHT + visibleConversations + needsMoreIndicator);
   
   // Add safety margin to prevent exceeding terminal height
@@ -426,44 +989,106 @@ const App: React.FC<AppProps> = ({ codexArgs = [], currentDirOnly = false, hideO
   }
 
   if (showFullView) {
-    return <ConversationPreviewFull conversation={selectedConversation} statusMessage={statusMessage} hideOptions={hideOptions} />;
+    return <ConversationPreviewFull conversation={selectedConversation} statusMessage={footerMessage} hideOptions={visibleHideOptions} isLoading={previewLoading} isLive={isLive} highlight={search?.query} focusMessageId={selectedHit?.messageId} />;
   }
 
   return (
     <Box flexDirection="column" width={dimensions.width} paddingX={1} paddingY={0}>
       <Box height={headerHeight} flexDirection="column">
         <Text bold color="cyan">cdxresume - Codex CLI Conversation Browser</Text>
-        <Box>
-          <Text dimColor>
-            {(() => {
-              const prevKeys = config.keybindings.pagePrevious.map(k => k === 'left' ? '←' : k).join('/') || '←';
-              const nextKeys = config.keybindings.pageNext.map(k => k === 'right' ? '→' : k).join('/') || '→';
-              const pageHelp = `Press ${prevKeys}/${nextKeys} for pages`;
+        {prompt !== null ? (
+          <Box>
+            <Text color="yellow" bold>{prompt.kind === 'search' ? 'Search: ' : 'Filter: '}</Text>
+            <Text>{prompt.text}</Text>
+            <Text inverse> </Text>
+            <Text dimColor>{prompt.kind === 'search' ? ' Enter to search | Esc to cancel' : ' Enter to apply | Esc to cancel'}</Text>
+          </Box>
+        ) : fuzzy ? (
+          <Box>
+            <Text color="yellow" bold>{'> '}</Text>
+            <Text>{fuzzy.query}</Text>
+            <Text inverse> </Text>
+            <Text dimColor>
+              {fuzzySessions
+                ? ` ${listConversations.length}/${fuzzySessions.length} | ${formatKeys(config.keybindings.selectPrevious)}/${formatKeys(config.keybindings.selectNext)} select | ${formatKeys(config.keybindings.confirm)} resume | Esc clear`
+                : ' Loading all sessions...'}
+            </Text>
+          </Box>
+        ) : search ? (
+          <Box>
+            <Text dimColor>
+              {search.searching
+                ? `Searching all sessions for "${search.query}"...`
+                : `${search.hits.length}${search.hits.length >= MAX_SEARCH_RESULTS ? '+' : ''} ${search.hits.length === 1 ? 'session matches' : 'sessions match'} "${search.query}"${filterQuery ? ` within filter ${filterQuery}` : ''} | Esc: all sessions | /: new search`}
+            </Text>
+          </Box>
+        ) : showProjectTree ? (
+          <Box>
+            {directoryScope && (
+              <Text color="green">Scope: {describeDirectoryScope(directoryScope)} | </Text>
+            )}
+            {filterQuery && (
+              <Text color="yellow">Filter: {filterQuery} | </Text>
+            )}
+            {sortMode !== 'lastActivity' && (
+              <Text color="cyan">Sort: {SORT_MODE_LABELS[sortMode]} | </Text>
+            )}
+            <Text dimColor>
+              {projectGroups
+                ? `${projectGroups.length} ${projectGroups.length === 1 ? 'project' : 'projects'} | ${formatKeys(config.keybindings.confirm)}: open | ${formatKeys(config.keybindings.toggleThread)}: expand | Esc/${formatKeys(config.keybindings.toggleProjectView)}: session list`
+                : 'Loading all sessions...'}
+            </Text>
+          </Box>
+        ) : (
+          <Box>
+            {drilledProject !== null ? (
+              <Text color="green">Project: {formatProjectPath(drilledProject)} (Esc: projects) | </Text>
+            ) : directoryScope && (
+              <Text color="green">Scope: {describeDirectoryScope(directoryScope)} | </Text>
+            )}
+            {filterQuery && (
+              <Text color="yellow">Filter: {filterQuery} | </Text>
+            )}
+            {sortMode !== 'lastActivity' && (
+              <Text color="cyan">Sort: {SORT_MODE_LABELS[sortMode]} | </Text>
+            )}
+            <Text dimColor>
+              {(() => {
+                const prevKeys = config.keybindings.pagePrevious.map(k => k === 'left' ? '←' : k).join('/') || '←';
+                const nextKeys = config.keybindings.pageNext.map(k => k === 'right' ? '→' : k).join('/') || '→';
+                const pageHelp = `Press ${prevKeys}/${nextKeys} for pages`;
               
-              return totalCount === -1 ? (
-                <>Page {currentPage + 1} | {pageHelp}</>
-              ) : (
-                <>{totalCount} total | Page {currentPage + 1}/{totalPages || 1} | {pageHelp}</>
-              );
-            })()}
-          </Text>
-          {editedArgs.length > 0 && (
-            <Text color="yellow"> | Options: {editedArgs.join(' ')}</Text>
-          )}
-        </Box>
+                return totalCount === -1 ? (
+                  <>Page {currentPage + 1} | {pageHelp}</>
+                ) : (
+                  <>{totalCount} total | Page {currentPage + 1}/{totalPages || 1} | {pageHelp}</>
+                );
+              })()}
+            </Text>
+            {editedArgs.length > 0 && (
+              <Text color="yellow"> | Options: {editedArgs.join(' ')}</Text>
+            )}
+          </Box>
+        )}
       </Box>
       
       <Box height={listHeight}>
         <ConversationList 
-          conversations={conversations} 
-          selectedIndex={selectedIndex}
+          conversations={listConversations} 
+          selectedIndex={fuzzy ? fuzzy.selectedIndex : search ? search.selectedIndex : showProjectTree ? projectView.selectedIndex : selectedIndex}
+          expandedThreads={fuzzy || search ? undefined : expandedThreads}
+          snippets={searchResults?.snippets}
+          highlight={search?.query}
+          fuzzyMatches={fuzzyResults?.matches}
+          projectGroups={showProjectTree ? projectGroups ?? [] : undefined}
+          expandedProjects={projectView?.expanded}
           maxVisible={visibleConversations}
-          isLoading={paginating}
+          isLoading={fuzzy ? !fuzzySessions : showProjectTree ? !projectGroups : paginating && !search}
         />
       </Box>
       
       <Box height={previewHeight}>
-        <ConversationPreview conversation={selectedConversation} statusMessage={statusMessage} hideOptions={hideOptions} viewportHeight={previewHeight} />
+        <ConversationPreview conversation={selectedConversation} statusMessage={footerMessage} hideOptions={visibleHideOptions} viewportHeight={previewHeight} isLoading={previewLoading} isLive={isLive} highlight={search?.query} focusMessageId={selectedHit?.messageId} keyboardEnabled={prompt === null && !fuzzy} />
       </Box>
       
       {/* Bottom margin to absorb any overflow */}
@@ -2,6 +2,7 @@ import React from 'react';
 import { render } from 'ink-testing-library';
 import { ConversationList } from '../components/ConversationList.js';
 import type { Conversation } from '../types.js';
+import { groupByProject } from '../utils/projectGroups.js';
 
 describe('ConversationList', () => {
   const mockConversation: Conversation = {
@@ -49,6 +50,15 @@ describe('ConversationList', () => {
     expect(lastFrame()).toContain('Test message'); // Summary
   });
 
+  it('summarizes list entries without loaded messages from the first message', () => {
+    const listEntry = { ...mockConversation, messages: [], firstMessage: 'Fix the\nflaky test', messageCount: 4 };
+    const { lastFrame } = render(
+      <ConversationList conversations={[listEntry]} selectedIndex={0} />
+    );
+
+    expect(lastFrame()).toContain('Fix the flaky test');
+  });
+
   it('shows selected conversation with indicator', () => {
     const conversations = [
       mockConversation,
@@ -83,4 +93,67 @@ describe('ConversationList', () => {
     
     expect(lastFrame()).toContain('↓ 7 more on this page...');
   });
-});
\ No newline at end of file
+
+  it('shows resume threads collapsed by default and lists earlier sessions when expanded', () => {
+    const earlier = { ...mockConversation, sourcePath: '/s/a.jsonl', firstMessage: 'First attempt', messages: [], endTime: new Date('2024-01-01T10:00:00Z') };
+    const head = { ...mockConversation, sourcePath: '/s/b.jsonl', firstMessage: 'Second attempt', messages: [], resumedFrom: [earlier] };
+
+    const collapsed = render(<ConversationList conversations={[head]} selectedIndex={0} />).lastFrame();
+    expect(collapsed).toContain('▸2 ');
+    expect(collapsed).not.toContain('First attempt');
+
+    const expanded = render(
+      <ConversationList conversations={[head]} selectedIndex={1} expandedThreads={new Set(['/s/b.jsonl'])} />
+    ).lastFrame();
+    expect(expanded).toContain('▾2 ');
+    expect(expanded).toMatch(/▶ {3}↳ .*First attempt/);
+  });
+
+  it('lists search hits with their snippet instead of the summary', () => {
+    const hit = { ...mockConversation, sourcePath: '/s/a.jsonl', messages: [] };
+    const { lastFrame } = render(
+      <ConversationList
+        conversations={[hit]}
+        selectedIndex={0}
+        snippets={new Map([['/s/a.jsonl', '…the flaky websocket reconnect']])}
+        highlight="websocket"
+      />
+    );
+
+    expect(lastFrame()).toContain('Sessions matching "websocket" (1):');
+    expect(lastFrame()).toContain('…the flaky websocket reconnect');
+    expect(lastFrame()).not.toContain('Test message');
+  });
+
+  it('keeps rows intact when marking fuzzy matches', () => {
+    const entry = { ...mockConversation, sourcePath: '/s/a.jsonl', projectPath: '/work/api', messages: [] };
+    const { lastFrame } = render(
+      <ConversationList
+        conversations={[entry]}
+        selectedIndex={0}
+        fuzzyMatches={new Map([['/s/a.jsonl', { summary: [0, 1], path: [6, 7, 8] }]])}
+      />
+    );
+
+    expect(lastFrame()).toContain('| /work/api | Test message');
+  });
+
+  it('lists projects with their session count and the sessions of expanded ones', () => {
+    const api = { ...mockConversation, projectPath: '/work/api', projectName: 'acme/api', sourcePath: '/s/a.jsonl', firstMessage: 'Fix the pool', messages: [] };
+    const web = { ...mockConversation, projectPath: '/work/web', projectName: '-', sourcePath: '/s/b.jsonl', firstMessage: 'Restyle', messages: [] };
+    const groups = groupByProject([api, web, { ...api, sourcePath: '/s/c.jsonl', firstMessage: 'Bump deps' }]);
+
+    const collapsed = render(<ConversationList conversations={[]} projectGroups={groups} selectedIndex={0} />).lastFrame();
+    expect(collapsed).toContain('Projects (2):');
+    expect(collapsed).toContain('▶ ▸ /work/api (acme/api) | 2 sessions | Jan 01');
+    expect(collapsed).toContain('▸ /work/web | 1 session |');
+    expect(collapsed).not.toContain('Fix the pool');
+
+    const expanded = render(
+      <ConversationList conversations={[]} projectGroups={groups} expandedProjects={new Set(['/work/api'])} selectedIndex={2} maxVisible={5} />
+    ).lastFrame();
+    expect(expanded).toContain('▾ /work/api');
+    expect(expanded).toContain('↳ Jan 01 12:30 | Fix the pool');
+    expect(expanded).toMatch(/▶ {3}↳ .*Bump deps/);
+  });
+});
@@ -78,6 +78,39 @@ describe('ConversationPreview', () => {
     expect(lastFrame()).toContain('This is a response');
   });
 
+  it('shows a loading state while messages are read', () => {
+    const listEntry = { ...mockConversation, messages: [], messageCount: 2 };
+    const { lastFrame } = render(
+      <ConversationPreview conversation={listEntry} isLoading />
+    );
+
+    expect(lastFrame()).toContain('loading messages');
+    expect(lastFrame()).toContain('Loading messages...');
+    expect(lastFrame()).toContain('12345678-1234-1234-1234-123456789012');
+  });
+
+  it('shows the sessions root the conversation came from', () => {
+    const { lastFrame } = render(
+      <ConversationPreview conversation={{ ...mockConversation, sessionRoot: '/mnt/archive/sessions' }} />
+    );
+    expect(lastFrame()).toContain('Root: /mnt/archive/sessions');
+  });
+
+  it('shows the models and policies the session ran with', () => {
+    const { lastFrame } = render(
+      <ConversationPreview conversation={{ ...mockConversation, models: ['gpt-5', 'gpt-5-codex'], approvalPolicy: 'never', sandboxPolicy: 'danger-full-access' }} />
+    );
+    expect(lastFrame()).toContain('Model: gpt-5, gpt-5-codex · approval never · sandbox danger-full-access');
+    expect(render(<ConversationPreview conversation={mockConversation} />).lastFrame()).not.toContain('Model:');
+  });
+
+  it('marks a followed session as live', () => {
+    const { lastFrame } = render(
+      <ConversationPreview conversation={mockConversation} isLive />
+    );
+    expect(lastFrame()).toContain('● LIVE');
+  });
+
   it('renders scroll help text', () => {
     const { lastFrame } = render(
       <ConversationPreview conversation={mockConversation} />
@@ -335,6 +368,35 @@ describe('ConversationPreview', () => {
       expect(lastFrame()).toBeDefined();
     });
 
+    it('follows appended messages while at the bottom', async () => {
+      const longConv = createLongConversation();
+      const { rerender, lastFrame } = render(
+        <ConversationPreview conversation={longConv} isLive />
+      );
+      await new Promise(resolve => setTimeout(resolve, 50));
+      const appended = createLongConversation();
+      appended.messages.push({ ...appended.messages[0], message: { role: 'user', content: 'Message 30' } } as typeof appended.messages[number]);
+      rerender(<ConversationPreview conversation={appended} isLive />);
+
+      expect(lastFrame()).toContain('Message 30');
+    });
+
+    it('stays put when scrolled up and messages are appended', async () => {
+      const longConv = createLongConversation();
+      const { stdin, rerender, lastFrame } = render(
+        <ConversationPreview conversation={longConv} isLive />
+      );
+      // Let the initial scroll-to-bottom and input handler settle
+      await new Promise(resolve => setTimeout(resolve, 50));
+      stdin.write('k');
+      const appended = createLongConversation();
+      appended.messages.push({ ...appended.messages[0], message: { role: 'user', content: 'Message 30' } } as typeof appended.messages[number]);
+      rerender(<ConversationPreview conversation={appended} isLive />);
+
+      expect(lastFrame()).toContain('Message 16');
+      expect(lastFrame()).not.toContain('Message 30');
+    });
+
     it('does not scroll when conversation is null', () => {
       const { stdin, lastFrame } = render(
         <ConversationPreview conversation={null} />
@@ -424,6 +486,85 @@ describe('ConversationPreview', () => {
       expect(lastFrame()).not.toContain('Error message here');
     });
 
+    it('shows commands that exited non-zero and error events', () => {
+      const failedConv = {
+        ...mockConversation,
+        tokenUsage: { inputTokens: 12000, cachedInputTokens: 0, outputTokens: 345, reasoningOutputTokens: 0, totalTokens: 12345 },
+        messages: [
+          ...mockConversation.messages,
+          {
+            type: 'assistant' as const,
+            message: { role: 'assistant' as const, content: [{ type: 'tool_result' as const }] },
+            toolUseResult: { content: 'tool call finished', exitCode: 2, durationMs: 1500, stderr: '\nnpm ERR! missing script: tset\n' },
+            timestamp: '2024-01-01T12:02:00Z',
+            sessionId: mockConversation.sessionId,
+            cwd: mockConversation.projectPath
+          },
+          {
+            type: 'assistant' as const,
+            message: { role: 'assistant' as const, content: [{ type: 'error' as const, text: 'stream disconnected' }] },
+            timestamp: '2024-01-01T12:03:00Z',
+            sessionId: mockConversation.sessionId,
+            cwd: mockConversation.projectPath
+          }
+        ]
+      };
+
+      const { lastFrame } = render(
+        <ConversationPreview conversation={failedConv} />
+      );
+
+      expect(lastFrame()).toContain('12.3k tokens');
+      expect(lastFrame()).toContain('[Command failed] exit 2 after 1.5s: npm ERR! missing script: tset');
+      expect(lastFrame()).toContain('[Error] stream disconnected');
+    });
+
+    it('marks tool calls with the outcome of their paired output', () => {
+      const toolCall = (callId: string, command: string, tool: object) => ({
+        type: 'assistant' as const,
+        message: { role: 'assistant' as const, content: [{ type: 'tool_use' as const, name: 'shell', input: { command }, tool_use_id: callId }] },
+        tool: { callId, name: 'shell', input: { command }, ...tool },
+        timestamp: '2024-01-01T12:02:00Z',
+        sessionId: mockConversation.sessionId,
+        cwd: mockConversation.projectPath
+      });
+      const toolConv = {
+        ...mockConversation,
+        messages: [
+          toolCall('c1', 'npm test', { exitCode: 0, success: true }),
+          toolCall('c2', 'npm run lint', { exitCode: 1, success: false }),
+          toolCall('c3', 'npm run build', {})
+        ]
+      };
+
+      const { lastFrame } = render(
+        <ConversationPreview conversation={toolConv} />
+      );
+
+      expect(lastFrame()).toContain('✓ [Tool: shell] npm test');
+      expect(lastFrame()).toContain('✗ exit 1 [Tool: shell] npm run lint');
+      expect(lastFrame()).toContain('… [Tool: shell] npm run build');
+    });
+
+    it('shows reasoning summaries unless thinking is hidden', () => {
+      const thinkingConv = {
+        ...mockConversation,
+        messages: [
+          ...mockConversation.messages,
+          {
+            type: 'assistant' as const,
+            message: { role: 'assistant' as const, content: [{ type: 'thinking' as const, thinking: 'Compare both parsers first\nthen decide' }] },
+            timestamp: '2024-01-01T12:02:00Z',
+            sessionId: mockConversation.sessionId,
+            cwd: mockConversation.projectPath
+          }
+        ]
+      };
+
+      expect(render(<ConversationPreview conversation={thinkingConv} />).lastFrame()).toContain('[Thinking] Compare both parsers first');
+      expect(render(<ConversationPreview conversation={thinkingConv} hideOptions={['thinking']} />).lastFrame()).not.toContain('Compare both parsers');
+    });
+
     it('handles file list results', () => {
       const fileListConv = {
         ...mockConversation,
@@ -594,5 +735,24 @@ describe('ConversationPreview', () => {
       // Should be at bottom of new conversation
       expect(lastFrame()).toContain('Different');
     });
+
+    it('scrolls to the focused search hit and highlights the query', async () => {
+      const conversation = createLongConversation();
+      conversation.messages = conversation.messages.map((message, i) => ({
+        ...message,
+        id: `rollout:${i + 2}`,
+        message: { ...message.message!, content: i === 3 ? 'Message 3\nthe websocket reconnect loop' : message.message!.content }
+      }));
+
+      const { lastFrame } = render(
+        <ConversationPreview conversation={conversation} viewportHeight={16} highlight="WebSocket" focusMessageId="rollout:5" />
+      );
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      const frame = lastFrame() ?? '';
+      expect(frame).toContain('Message 2');
+      expect(frame).toContain('the websocket reconnect loop');
+      expect(frame).not.toContain('Message 29');
+    });
   });
 });
@@ -1,7 +1,16 @@
 import React from 'react';
 import { render } from 'ink-testing-library';
-import { ConversationPreviewFull } from '../components/ConversationPreviewFull.js';
+import { jest } from '@jest/globals';
 import type { Conversation } from '../types.js';
+import { defaultConfig } from '../types/config.js';
+
+// Rebound keys, so the footer can be checked against the configuration
+const config = { ...defaultConfig, keybindings: { ...defaultConfig.keybindings, toggleFullView: ['v'], toggleLiveTail: ['ctrl+f'], toggleThinking: ['R'], quit: ['x'] } };
+jest.unstable_mockModule('../utils/configLoader.js', () => ({
+  loadConfig: () => config
+}));
+
+const { ConversationPreviewFull } = await import('../components/ConversationPreviewFull.js');
 
 describe('ConversationPreviewFull', () => {
   const mockConversation: Conversation = {
@@ -57,6 +66,14 @@ describe('ConversationPreviewFull', () => {
     expect(output).toContain('Hi there!');
   });
 
+  it('should show the configured keys in the footer', () => {
+    const { lastFrame } = render(
+      <ConversationPreviewFull conversation={mockConversation} />
+    );
+
+    expect(lastFrame()).toContain('Toggle: v | Follow: Ctrl+F | Reasoning: R | Quit: x');
+  });
+
   it('should show status message when provided', () => {
     const { lastFrame } = render(
       <ConversationPreviewFull 
@@ -164,6 +181,70 @@ describe('ConversationPreviewFull', () => {
     expect(output).not.toContain('[Tool: Read]');
   });
 
+  it('should show failed commands and per-turn token usage', () => {
+    const conversation: Conversation = {
+      ...mockConversation,
+      messages: [
+        {
+          ...mockConversation.messages[1],
+          tokenUsage: { inputTokens: 1500, cachedInputTokens: 0, outputTokens: 42, reasoningOutputTokens: 0, totalTokens: 1542 }
+        },
+        {
+          sessionId: 'test-session-123',
+          timestamp: '2024-01-01T12:02:00Z',
+          type: 'assistant',
+          message: { role: 'assistant', content: [{ type: 'tool_result' }] },
+          cwd: '/test/project',
+          toolUseResult: { content: 'tool call finished', exitCode: 1, stderr: 'boom' }
+        },
+        {
+          sessionId: 'test-session-123',
+          timestamp: '2024-01-01T12:03:00Z',
+          type: 'assistant',
+          message: { role: 'assistant', content: [{ type: 'tool_result' }] },
+          cwd: '/test/project',
+          toolUseResult: { content: 'tool call finished', exitCode: 0, stdout: 'fine' }
+        }
+      ]
+    };
+
+    const { lastFrame } = render(<ConversationPreviewFull conversation={conversation} />);
+    const output = lastFrame();
+
+    expect(output).toContain('1.5k in / 42 out');
+    expect(output).toContain('[Command failed] exit 1: boom');
+    expect(output).not.toContain('fine');
+    expect(render(<ConversationPreviewFull conversation={conversation} hideOptions={['tool']} />).lastFrame()).not.toContain('[Command failed]');
+  });
+
+  it('should render tool calls with their paired outcome', () => {
+    const toolCall = (callId: string, command: string[], tool: object): Conversation['messages'][number] => ({
+      sessionId: 'test-session-123',
+      timestamp: '2024-01-01T12:02:00Z',
+      type: 'assistant',
+      message: { role: 'assistant', content: [{ type: 'tool_use', name: 'shell', input: { command }, tool_use_id: callId }] },
+      cwd: '/test/project',
+      tool: { callId, name: 'shell', input: { command }, ...tool }
+    });
+    const conversation: Conversation = {
+      ...mockConversation,
+      messages: [
+        toolCall('c1', ['ls'], { exitCode: 0, durationMs: 1200, stdout: 'README.md', success: true }),
+        toolCall('c2', ['npm', 'test'], { exitCode: 1, stderr: 'line 1\nline 2\nline 3\nline 4\nline 5\nline 6', success: false })
+      ]
+    };
+
+    const { lastFrame } = render(<ConversationPreviewFull conversation={conversation} />);
+    const output = lastFrame();
+
+    expect(output).toContain('[Tool: shell] ls');
+    expect(output).toContain('[Result] exit 0 after 1.2s');
+    expect(output).not.toContain('README.md');
+    expect(output).toContain('[Command failed] exit 1: line 1');
+    expect(output).toContain('line 6');
+    expect(output).not.toMatch(/^\s+line 1$/m);
+  });
+
   it('should display thinking messages correctly', () => {
     const conversationWithThinking: Conversation = {
       ...mockConversation,
@@ -4,11 +4,15 @@ import { beforeEach, describe, expect, it } from '@jest/globals';
 // Manual mocks
 const mockExistsSync = jest.fn();
 const mockReadFileSync = jest.fn();
+const mockWriteFileSync = jest.fn();
+const mockMkdirSync = jest.fn();
 const mockHomedir = jest.fn();
 
 jest.unstable_mockModule('fs', () => ({
   existsSync: mockExistsSync,
   readFileSync: mockReadFileSync,
+  writeFileSync: mockWriteFileSync,
+  mkdirSync: mockMkdirSync,
 }));
 
 jest.unstable_mockModule('os', () => ({
@@ -16,7 +20,7 @@ jest.unstable_mockModule('os', () => ({
 }));
 
 // Dynamic imports after mocking
-const { getConfigPath, loadConfig } = await import('../utils/configLoader.js');
+const { getConfigPath, loadConfig, saveConfigSetting } = await import('../utils/configLoader.js');
 const { defaultConfig } = await import('../types/config.js');
 
 describe('configLoader', () => {
@@ -68,6 +72,67 @@ selectNext = ["down"]
       expect(config.keybindings.confirm).toEqual(defaultConfig.keybindings.confirm);
     });
 
+    // Actions added after the first release, with the default key a config from before them may already use
+    it.each([
+      ['startNewSession', 'n'],
+      ['toggleLiveTail', 't'],
+      ['toggleThinking', 'r'],
+      ['toggleThread', 'space'],
+      ['search', '/'],
+      ['filter', 'F'],
+      ['fuzzyFilter', 's'],
+      ['cycleSort', 'o'],
+      ['toggleProjectView', 'P'],
+      ['exportConversation', 'e'],
+    ])('should leave %s unbound when an existing config uses its key %s', (action, key) => {
+      mockHomedir.mockReturnValue('/home/user');
+      mockExistsSync.mockReturnValue(true);
+      mockReadFileSync.mockReturnValue(`[keybindings]\ncopySessionId = ["${key}"]\n`);
+
+      const config = loadConfig();
+      expect(config.keybindings[action as keyof typeof config.keybindings]).toEqual([]);
+      expect(config.keybindings.copySessionId).toEqual([key]);
+    });
+
+    it('should read extra sessions roots', () => {
+      mockHomedir.mockReturnValue('/home/user');
+      mockExistsSync.mockReturnValue(true);
+      mockReadFileSync.mockReturnValue(`
+[sessions]
+roots = ["/mnt/archive/codex", "~/old-sessions"]
+      `);
+      
+      const config = loadConfig();
+      expect(config.sessions.roots).toEqual(['/mnt/archive/codex', '~/old-sessions']);
+      expect(config.keybindings).toEqual(defaultConfig.keybindings);
+    });
+
+    it('should read the directory scope and ignore unknown values', () => {
+      mockHomedir.mockReturnValue('/home/user');
+      mockExistsSync.mockReturnValue(true);
+      mockReadFileSync.mockReturnValue(`
+[list]
+directoryScope = "repo"
+      `);
+      expect(loadConfig().list.directoryScope).toBe('repo');
+
+      mockReadFileSync.mockReturnValue(`
+[list]
+directoryScope = "parent"
+      `);
+      expect(loadConfig().list.directoryScope).toBe('exact');
+    });
+
+    it('should read the sort order and ignore unknown values', () => {
+      mockHomedir.mockReturnValue('/home/user');
+      mockExistsSync.mockReturnValue(true);
+      mockReadFileSync.mockReturnValue('[list]\nsort = "mostResumed"\n');
+      expect(loadConfig().list.sort).toBe('mostResumed');
+
+      mockReadFileSync.mockReturnValue('[list]\nsort = "alphabetical"\n');
+      expect(loadConfig().list.sort).toBe('lastActivity');
+    });
+
     it('should merge partial config with defaults', () => {
       mockHomedir.mockReturnValue('/home/user');
       mockExistsSync.mockReturnValue(true);
@@ -117,4 +182,42 @@ quit = ["esc"]
       consoleErrorSpy.mockRestore();
     });
   });
+
+  describe('saveConfigSetting', () => {
+    const written = () => mockWriteFileSync.mock.calls[0][1];
+
+    it('should replace the value in place and keep comments', () => {
+      mockExistsSync.mockReturnValue(true);
+      mockReadFileSync.mockReturnValue('# mine\n[list]\n# order\nsort = "project"\ndirectoryScope = "repo"\n\n[sessions]\nroots = []\n');
+      saveConfigSetting('list', 'sort', 'duration', '/cfg/config.toml');
+      expect(written()).toBe('# mine\n[list]\n# order\nsort = "duration"\ndirectoryScope = "repo"\n\n[sessions]\nroots = []\n');
+    });
+
+    it('should add the key to an existing section', () => {
+      mockExistsSync.mockReturnValue(true);
+      mockReadFileSync.mockReturnValue('[list]\ndirectoryScope = "repo"\n\n[sessions]\nroots = []\n');
+      saveConfigSetting('list', 'sort', 'project', '/cfg/config.toml');
+      expect(written()).toBe('[list]\ndirectoryScope = "repo"\nsort = "project"\n\n[sessions]\nroots = []\n');
+    });
+
+    it('should find a section header with inner spaces or a trailing comment', () => {
+      mockExistsSync.mockReturnValue(true);
+      mockReadFileSync.mockReturnValue('[ list ]  # ordering\ndirectoryScope = "repo"\n');
+      saveConfigSetting('list', 'sort', 'project', '/cfg/config.toml');
+      expect(written()).toBe('[ list ]  # ordering\ndirectoryScope = "repo"\nsort = "project"\n');
+    });
+
+    it('should append the section, or create the file', () => {
+      mockExistsSync.mockReturnValue(true);
+      mockReadFileSync.mockReturnValue('[keybindings]\nquit = ["q"]\n');
+      saveConfigSetting('list', 'sort', 'project', '/cfg/config.toml');
+      expect(written()).toBe('[keybindings]\nquit = ["q"]\n\n[list]\nsort = "project"\n');
+
+      mockWriteFileSync.mockClear();
+      mockExistsSync.mockReturnValue(false);
+      saveConfigSetting('list', 'sort', 'project', '/cfg/config.toml');
+      expect(mockMkdirSync).toHaveBeenCalledWith('/cfg', { recursive: true });
+      expect(written()).toBe('[list]\nsort = "project"\n');
+    });
+  });
 });
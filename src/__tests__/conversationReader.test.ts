@@ -0,0 +1,232 @@
+import { afterAll, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import * as realOs from 'os';
+import { appendFileSync, mkdtempSync, mkdirSync, rmSync, writeFileSync, utimesSync, readFileSync, unlinkSync } from 'fs';
+import { join } from 'path';
+import { gzipSync } from 'zlib';
+import { say, writeRollout } from './helpers/rollouts.js';
+
+const home = mkdtempSync(join(realOs.tmpdir(), 'cdxresume-home-'));
+const sessionsDir = join(home, '.codex', 'sessions');
+
+jest.unstable_mockModule('os', () => ({
+  ...realOs,
+  homedir: () => home
+}));
+
+const { getPaginatedConversations, getAllConversations, findConversationIndex, loadConversationMessages, refreshConversations } = await import('../utils/conversationReader.js');
+
+function writeSession(day: string, id: string, cwd: string, prompt: string, mtime: string, root: string = sessionsDir): string {
+  const git = { branch: 'main', repository_url: 'https://github.com/acme/api.git' };
+  const items = [say('user', `<environment_context><cwd>${cwd}</cwd></environment_context>`), say('user', prompt), say('assistant', `Done: ${prompt}`)];
+  return writeRollout(root, { id, day, cwd, git, items, mtime });
+}
+
+describe('conversationReader', () => {
+  beforeEach(() => {
+    rmSync(join(home, '.codex'), { recursive: true, force: true });
+    rmSync(join(home, '.cache'), { recursive: true, force: true });
+    rmSync(join(home, 'archive'), { recursive: true, force: true });
+    process.env.XDG_CACHE_HOME = join(home, '.cache');
+    writeSession('2025-09-01', 'aaaa', '/work/api', 'oldest', '2025-09-01T09:00:00Z');
+    writeSession('2025-09-02', 'bbbb', '/work/web', 'middle', '2025-09-02T09:00:00Z');
+    writeSession('2025-09-03', 'cccc', '/work/api', 'newest', '2025-09-03T09:00:00Z');
+    writeSession('2025-09-03', 'dddd', '/work/api', 'newest but idle', '2025-09-03T08:30:00Z');
+  });
+
+  afterAll(() => {
+    delete process.env.XDG_CACHE_HOME;
+    rmSync(home, { recursive: true, force: true });
+  });
+
+  it('returns list entries newest-first without messages', async () => {
+    const { conversations, total } = await getPaginatedConversations({ limit: 10, offset: 0 });
+    expect(total).toBe(4);
+    expect(conversations.map(c => c.sessionId)).toEqual(['cccc', 'dddd', 'bbbb', 'aaaa']);
+    expect(conversations[0].messages).toEqual([]);
+    expect(conversations[0].messageCount).toBe(2);
+    expect(conversations[0].firstMessage).toBe('newest');
+  });
+
+  it('lists a long-running session by its last activity, not its start day', async () => {
+    writeSession('2025-08-25', 'eeee', '/work/api', 'started last week', '2025-09-03T10:00:00Z');
+    const { conversations, total } = await getPaginatedConversations({ limit: 2, offset: 0 });
+    expect(conversations.map(c => c.sessionId)).toEqual(['eeee', 'cccc']);
+    expect(total).toBe(-1);
+  });
+
+  it('reads threads by last activity only as far as the page and a short look-back need', async () => {
+    const lastMonth = writeSession('2025-08-01', 'ffff', '/work/api', 'last month', '2025-08-01T09:00:00Z');
+    const { conversations, total } = await getPaginatedConversations({ limit: 1, offset: 0, threads: true });
+    expect(conversations.map(c => c.sessionId)).toEqual(['cccc']);
+    expect(total).toBe(-1);
+
+    const index = JSON.parse(readFileSync(join(home, '.cache', 'cdxresume', 'session-index.json'), 'utf-8'));
+    expect(Object.keys(index.entries)).toHaveLength(4);
+    expect(index.entries).not.toHaveProperty([lastMonth]);
+  });
+
+  it('stops walking by start time once the page is filled and reports an unknown total', async () => {
+    const { conversations, total } = await getPaginatedConversations({ limit: 1, offset: 0, sort: 'startTime' });
+    expect(conversations.map(c => c.sessionId)).toEqual(['cccc']);
+    expect(total).toBe(-1);
+  });
+
+  it('reports the exact total once the last page is reached', async () => {
+    const { conversations, total } = await getPaginatedConversations({ limit: 2, offset: 2, sort: 'startTime' });
+    expect(conversations.map(c => c.sessionId)).toEqual(['bbbb', 'aaaa']);
+    expect(total).toBe(4);
+  });
+
+  it('applies the current directory filter while walking', async () => {
+    const { conversations } = await getPaginatedConversations({ limit: 10, offset: 0, directoryScope: { mode: 'exact', path: '/work/web' } });
+    expect(conversations.map(c => c.sessionId)).toEqual(['bbbb']);
+  });
+
+  it('includes sessions below the directory in descendants scope', async () => {
+    writeSession('2025-09-02', 'eeee', '/work/web/packages/ui', 'nested', '2025-09-02T10:00:00Z');
+    writeSession('2025-09-02', 'ffff', '/work/webapp', 'sibling', '2025-09-02T11:00:00Z');
+    const exact = await getAllConversations({ directoryScope: { mode: 'exact', path: '/work/web' } });
+    const below = await getAllConversations({ directoryScope: { mode: 'descendants', path: '/work/web' } });
+    expect(exact.map(c => c.sessionId)).toEqual(['bbbb']);
+    expect(below.map(c => c.sessionId)).toEqual(['eeee', 'bbbb']);
+  });
+
+  it('applies the structured filter while walking, so the total counts matches only', async () => {
+    const { parseSessionFilter } = await import('../utils/sessionFilter.js');
+    const { filter } = parseSessionFilter('repo:acme/api after:2025-09-02 newest');
+    const { conversations, total } = await getPaginatedConversations({ limit: 1, offset: 0, filter, sort: 'startTime' });
+    expect(conversations.map(c => c.sessionId)).toEqual(['cccc']);
+    expect(total).toBe(-1);
+
+    const all = await getPaginatedConversations({ limit: 10, offset: 0, filter });
+    expect(all.conversations.map(c => c.sessionId)).toEqual(['cccc', 'dddd']);
+    expect(all.total).toBe(2);
+  });
+
+  it('sorts by project across all partitions, most recent first within a project', async () => {
+    writeSession('2025-09-02', 'eeee', '/work/admin', 'admin', '2025-09-02T10:00:00Z');
+    const { conversations, total } = await getPaginatedConversations({ limit: 2, offset: 0, sort: 'project' });
+    expect(conversations.map(c => c.sessionId)).toEqual(['eeee', 'cccc']);
+    expect(total).toBe(5);
+  });
+
+  it('sorts by how often a session was resumed', async () => {
+    const { recordResume } = await import('../utils/resumeHistory.js');
+    process.env.XDG_STATE_HOME = join(home, '.state');
+    try {
+      await recordResume('aaaa');
+      await recordResume('aaaa');
+      await recordResume('bbbb');
+      const all = await getAllConversations({ sort: 'mostResumed' });
+      expect(all.map(c => c.sessionId)).toEqual(['aaaa', 'bbbb', 'cccc', 'dddd']);
+    } finally {
+      delete process.env.XDG_STATE_HOME;
+      rmSync(join(home, '.state'), { recursive: true, force: true });
+    }
+  });
+
+  it('finds where a session lands in another sort order', async () => {
+    const all = await getAllConversations({ sort: 'startTime' });
+    const newest = all.find(c => c.sessionId === 'cccc');
+    const oldest = all.find(c => c.sessionId === 'aaaa');
+    expect(await findConversationIndex({ sort: 'startTime' }, newest?.sourcePath ?? '')).toBe(0);
+    expect(await findConversationIndex({ sort: 'startTime' }, oldest?.sourcePath ?? '')).toBe(3);
+    expect(await findConversationIndex({ sort: 'startTime' }, 'missing')).toBe(-1);
+  });
+
+  it('links resumed sessions into threads before paging', async () => {
+    const earlier = writeSession('2025-09-01', 'aaaa', '/work/api', 'oldest', '2025-09-01T09:00:00Z');
+    const resumed = writeSession('2025-09-04', 'aaaa', '/work/api', 'resumed', '2025-09-04T09:00:00Z');
+    const { conversations, total } = await getPaginatedConversations({ limit: 2, offset: 0, threads: true });
+    expect(total).toBe(4);
+    expect(conversations.map(c => c.sourcePath)).toEqual([resumed, expect.stringContaining('cccc')]);
+    expect(conversations[0].resumedFrom?.map(c => c.sourcePath)).toEqual([earlier]);
+    expect(await findConversationIndex({ sort: 'startTime', threads: true }, earlier)).toBe(0);
+    expect(await findConversationIndex({ sort: 'startTime' }, earlier)).toBe(4);
+  });
+
+  it('serves unchanged files from the session index', async () => {
+    await getAllConversations();
+    const again = await getAllConversations();
+    expect(again.map(c => c.sessionId)).toEqual(['cccc', 'dddd', 'bbbb', 'aaaa']);
+    expect(again.every(c => c.messages.length === 0)).toBe(true);
+  });
+
+  it('merges sessions from several roots newest-first and records each root', async () => {
+    const archive = join(home, 'archive');
+    writeSession('2025-09-02', 'eeee', '/work/old', 'archived same day', '2025-09-02T10:00:00Z', archive);
+    writeSession('2025-08-15', 'ffff', '/work/old', 'archived', '2025-08-15T09:00:00Z', archive);
+
+    const { conversations, total } = await getPaginatedConversations({ limit: 10, offset: 0, roots: [sessionsDir, archive, join(home, 'missing')] });
+    expect(total).toBe(6);
+    expect(conversations.map(c => c.sessionId)).toEqual(['cccc', 'dddd', 'eeee', 'bbbb', 'aaaa', 'ffff']);
+    expect(conversations.find(c => c.sessionId === 'eeee')?.sessionRoot).toBe(archive);
+    expect(conversations.find(c => c.sessionId === 'bbbb')?.sessionRoot).toBe(sessionsDir);
+  });
+
+  it('lists and reads gzipped rollout files', async () => {
+    const plain = writeSession('2025-09-04', 'gggg', '/work/api', 'archived gzip', '2025-09-04T09:00:00Z');
+    const gz = `${plain}.gz`;
+    writeFileSync(gz, gzipSync(readFileSync(plain)));
+    unlinkSync(plain);
+
+    const { conversations } = await getPaginatedConversations({ limit: 1, offset: 0 });
+    expect(conversations[0].sessionId).toBe('gggg');
+    expect(conversations[0].sourcePath).toBe(gz);
+    const full = await loadConversationMessages(conversations[0]);
+    expect(full.messages.map(m => m.type)).toEqual(['user', 'assistant']);
+  });
+
+  it('lists legacy and rollout-v1 sessions side by side', async () => {
+    const dayDir = join(sessionsDir, '2025', '08', '01');
+    mkdirSync(dayDir, { recursive: true });
+    const legacyFile = join(dayDir, 'rollout-2025-08-01-legacy.jsonl');
+    writeFileSync(legacyFile, [
+      { id: 'legacy-1', timestamp: '2025-08-01T08:00:00.000Z', git: { branch: 'dev', repository_url: 'https://github.com/acme/old.git' } },
+      { type: 'message', role: 'user', content: [{ type: 'input_text', text: 'from the old format' }] },
+      { record_type: 'state' }
+    ].map(l => JSON.stringify(l)).join('\n') + '\n');
+    utimesSync(legacyFile, new Date('2025-08-01T09:00:00Z'), new Date('2025-08-01T09:00:00Z'));
+
+    const all = await getAllConversations();
+    expect(all.map(c => c.sessionId)).toEqual(['cccc', 'dddd', 'bbbb', 'aaaa', 'legacy-1']);
+    const legacy = all.find(c => c.sessionId === 'legacy-1')!;
+    expect(legacy.projectName).toBe('acme/old');
+    expect(legacy.firstMessage).toBe('from the old format');
+  });
+
+  it('still lists a legacy session whose first line is corrupt', async () => {
+    const dayDir = join(sessionsDir, '2025', '08', '01');
+    mkdirSync(dayDir, { recursive: true });
+    const legacyFile = join(dayDir, 'rollout-2025-08-01-garbled.jsonl');
+    writeFileSync(legacyFile, [
+      '{"id":"legacy-1","timestamp":"2025-08-01T08:0',
+      JSON.stringify({ type: 'message', role: 'user', content: [{ type: 'input_text', text: 'after a broken header' }] })
+    ].join('\n') + '\n');
+
+    const all = await getAllConversations();
+    const legacy = all.find(c => c.sourcePath === legacyFile);
+    expect(legacy?.sessionId).toBe('rollout-2025-08-01-garbled');
+    expect(legacy?.firstMessage).toBe('after a broken header');
+  });
+
+  it('reads a changed session again from where the previous read stopped', async () => {
+    const file = writeSession('2025-09-04', 'eeee', '/work/api', 'growing', '2025-09-04T09:00:00Z');
+    expect((await refreshConversations([file])).get(file)?.messageCount).toBe(2);
+
+    // Rewrite the first prompt in place: only the appended line may be read again
+    writeFileSync(file, readFileSync(file, 'utf-8').replace('growing', 'GROWING'));
+    appendFileSync(file, `${JSON.stringify({ timestamp: '2025-09-04T08:01:00.000Z', type: 'response_item', payload: say('user', 'and more') })}\n`);
+    const refreshed = (await refreshConversations([file])).get(file);
+    expect(refreshed?.messageCount).toBe(3);
+    expect(refreshed?.firstMessage).toBe('growing');
+    expect(refreshed?.lastMessage).toBe('and more');
+  });
+
+  it('loads messages on demand', async () => {
+    const { conversations } = await getPaginatedConversations({ limit: 1, offset: 0 });
+    const full = await loadConversationMessages(conversations[0]);
+    expect(full.messages.map(m => m.type)).toEqual(['user', 'assistant']);
+    expect(full.sessionRoot).toBe(sessionsDir);
+  });
+});
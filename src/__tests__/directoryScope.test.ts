@@ -0,0 +1,48 @@
+import { afterAll, describe, expect, it } from '@jest/globals';
+import { mkdtempSync, mkdirSync, realpathSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { findGitRoot, matchesDirectoryScope, resolveDirectoryScope } from '../utils/directoryScope.js';
+
+const base = realpathSync(mkdtempSync(join(tmpdir(), 'cdxresume-scope-')));
+const repo = join(base, 'repo');
+const api = join(repo, 'packages', 'api');
+mkdirSync(join(repo, '.git'), { recursive: true });
+mkdirSync(api, { recursive: true });
+// A worktree or submodule has a .git file instead of a directory
+const worktree = join(base, 'worktree');
+mkdirSync(join(worktree, 'src'), { recursive: true });
+writeFileSync(join(worktree, '.git'), 'gitdir: /elsewhere/.git/worktrees/wt\n');
+const outside = join(base, 'plain');
+mkdirSync(outside);
+
+describe('directoryScope', () => {
+  afterAll(() => {
+    rmSync(base, { recursive: true, force: true });
+  });
+
+  it('finds the enclosing git repository', () => {
+    expect(findGitRoot(api)).toBe(repo);
+    expect(findGitRoot(repo)).toBe(repo);
+    expect(findGitRoot(join(worktree, 'src'))).toBe(worktree);
+  });
+
+  it('resolves repo scope to the repository root, or to descendants outside a repository', () => {
+    expect(resolveDirectoryScope(api, 'repo')).toEqual({ mode: 'repo', path: repo });
+    expect(resolveDirectoryScope(api, 'exact')).toEqual({ mode: 'exact', path: api });
+    // tmpdir() itself may sit inside a repository on some machines
+    if (findGitRoot(outside) === null) {
+      expect(resolveDirectoryScope(outside, 'repo')).toEqual({ mode: 'descendants', path: outside });
+    }
+  });
+
+  it('matches project paths by mode', () => {
+    const exact = { mode: 'exact' as const, path: '/work/repo' };
+    const below = { mode: 'descendants' as const, path: '/work/repo' };
+    expect(matchesDirectoryScope('/work/repo', exact)).toBe(true);
+    expect(matchesDirectoryScope('/work/repo/packages/api', exact)).toBe(false);
+    expect(matchesDirectoryScope('/work/repo/packages/api', below)).toBe(true);
+    expect(matchesDirectoryScope('/work/repository', below)).toBe(false);
+    expect(matchesDirectoryScope('', below)).toBe(false);
+  });
+});
@@ -0,0 +1,60 @@
+import { afterAll, describe, expect, it, jest } from '@jest/globals';
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+jest.unstable_mockModule('../utils/codexSupport.js', () => ({
+  detectCodexVersion: () => '0.36.0',
+  detectCodexSupport: () => ({ supportsResumeCommand: true, supportsResumeFlag: false, supportsContinueFlag: false, supportsSessionIdFlag: false })
+}));
+
+const { collectDoctorReport, formatDoctorReport } = await import('../utils/doctor.js');
+
+const base = mkdtempSync(join(tmpdir(), 'cdxresume-doctor-'));
+const root = join(base, 'sessions');
+const dayDir = join(root, '2025', '09', '20');
+
+const meta = JSON.stringify({ timestamp: '2025-09-20T08:00:00.000Z', type: 'session_meta', payload: { id: 'v1', timestamp: '2025-09-20T08:00:00.000Z', cwd: '/work/api' } });
+const userMessage = JSON.stringify({ timestamp: '2025-09-20T08:00:01.000Z', type: 'response_item', payload: { type: 'message', role: 'user', content: [{ type: 'input_text', text: 'Fix it' }] } });
+
+describe('doctor', () => {
+  afterAll(() => {
+    delete process.env.XDG_CONFIG_HOME;
+    rmSync(base, { recursive: true, force: true });
+  });
+
+  it('reports formats, files with problems, hidden sessions and config problems', async () => {
+    mkdirSync(dayDir, { recursive: true });
+    writeFileSync(join(dayDir, 'rollout-2025-09-20T08-00-00-good.jsonl'), `${meta}\n${userMessage}\n`);
+    writeFileSync(join(dayDir, 'rollout-2025-09-20T09-00-00-bad.jsonl'), `${meta}\n{broken\n${userMessage}\n{"type":"resp`);
+    writeFileSync(join(dayDir, 'rollout-2025-09-20T10-00-00-empty.jsonl'), `${meta}\n`);
+    writeFileSync(join(dayDir, 'rollout-2025-09-20T11-00-00-junk.jsonl'), 'hello\n');
+    mkdirSync(join(base, 'config', 'cdxresume'), { recursive: true });
+    writeFileSync(join(base, 'config', 'cdxresume', 'config.toml'), '[keybindings]\nquit = ["q"]\nfoo = ["x"]\n');
+    process.env.XDG_CONFIG_HOME = join(base, 'config');
+
+    const report = await collectDoctorReport({ roots: [root, join(base, 'missing')], cdxresumeVersion: '1.2.3' });
+
+    expect(report.roots).toEqual([
+      { path: root, exists: true, files: 4 },
+      { path: join(base, 'missing'), exists: false, files: 0 }
+    ]);
+    expect(report.formats).toEqual({ 'rollout-v1': 3, legacy: 0, unrecognized: 1 });
+    expect(report.problemFiles).toEqual([
+      { filePath: join(dayDir, 'rollout-2025-09-20T11-00-00-junk.jsonl'), format: null, problems: [expect.stringContaining('unrecognized format')] },
+      {
+        filePath: join(dayDir, 'rollout-2025-09-20T09-00-00-bad.jsonl'),
+        format: 'rollout-v1',
+        problems: ['1 malformed line skipped: 2', 'last line is incomplete (Codex may still be writing it)']
+      }
+    ]);
+    expect(report.hiddenSessions).toEqual([join(dayDir, 'rollout-2025-09-20T10-00-00-empty.jsonl')]);
+    expect(report.config.problems).toEqual(["Unknown key binding action 'foo'"]);
+
+    const text = formatDoctorReport(report);
+    expect(text).toContain('cdxresume 1.2.3');
+    expect(text).toContain('Codex 0.36.0 | resume command: yes, --resume: no');
+    expect(text).toContain(`${join(base, 'missing')}  missing`);
+    expect(text).toContain('Sessions hidden because they have no messages: 1');
+  });
+});
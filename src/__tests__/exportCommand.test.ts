@@ -0,0 +1,93 @@
+import { afterAll, describe, expect, it } from '@jest/globals';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { Conversation } from '../types.js';
+import { readConversationFile } from '../utils/conversationReader.js';
+import { exportConversation, parseExportArgs, toExportDocument, writeExportFile } from '../utils/exportCommand.js';
+import { say, writeRollout } from './helpers/rollouts.js';
+
+const dir = mkdtempSync(join(tmpdir(), 'cdxresume-export-'));
+const patch = '*** Begin Patch\n*** Update File: src/a.ts\n@@\n-const a = ```old```;\n+const a = 1;\n*** End Patch';
+
+async function loadSession(): Promise<Conversation> {
+  const filePath = writeRollout(dir, { id: 'abcd1234-5678', git: { branch: 'main', repository_url: 'https://github.com/acme/api.git' }, items: [
+    say('user', 'Fix the <flaky> test & ship'),
+    { type: 'reasoning', summary: [{ type: 'summary_text', text: 'Run the tests first' }] },
+    { type: 'function_call', name: 'shell', arguments: JSON.stringify({ command: ['bash', '-lc', 'npm test'] }), call_id: 'c1' },
+    { type: 'function_call_output', call_id: 'c1', output: JSON.stringify({ output: 'FAIL src/a.test.ts', metadata: { exit_code: 1, duration_seconds: 2 } }) },
+    { type: 'function_call', name: 'shell', arguments: JSON.stringify({ command: ['apply_patch', patch] }), call_id: 'c2' },
+    { type: 'function_call_output', call_id: 'c2', output: JSON.stringify({ output: 'Done', metadata: { exit_code: 0, duration_seconds: 0.1 } }) },
+    say('assistant', 'Fixed **it**.')
+  ] });
+  const conversation = await readConversationFile(filePath);
+  if (!conversation) throw new Error('fixture did not parse');
+  return conversation;
+}
+
+describe('exportCommand', () => {
+  afterAll(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('parses the format from flags or the output extension', () => {
+    expect(parseExportArgs(['abcd'])).toEqual({ options: { target: 'abcd', format: 'markdown', output: undefined }, problems: [] });
+    expect(parseExportArgs(['abcd', '-o', 'out.HTML']).options).toMatchObject({ format: 'html', output: 'out.HTML' });
+    expect(parseExportArgs(['--format=json', 'abcd', '--output', 'notes.md']).options).toMatchObject({ format: 'json', output: 'notes.md' });
+    expect(parseExportArgs(['abcd', '--html', '-o', '-']).options).toMatchObject({ format: 'html', output: undefined });
+
+    expect(parseExportArgs(['--format', 'pdf', '--verbose']).problems).toEqual([
+      "--format expects one of markdown, html, json, got 'pdf'",
+      "Unknown option '--verbose'",
+      'export expects one session id, id prefix or rollout file path'
+    ]);
+  });
+
+  it('builds the versioned JSON document from the session', async () => {
+    const document = toExportDocument(await loadSession(), [], new Date('2025-10-01T00:00:00Z'));
+    expect(document).toMatchObject({
+      schema: 'cdxresume.conversation',
+      version: 1,
+      exportedAt: '2025-10-01T00:00:00.000Z',
+      session: { sessionId: 'abcd1234-5678', projectPath: '/work/api', repository: 'acme/api', branch: 'main', startTime: '2025-09-20T08:00:00.000Z', models: [], tokenUsage: null }
+    });
+    expect(document.messages.map(m => [m.role, m.text, m.thinking, m.tool?.name ?? null])).toEqual([
+      ['user', 'Fix the <flaky> test & ship', null, null],
+      ['assistant', '', 'Run the tests first', null],
+      ['assistant', '', null, 'shell'],
+      ['assistant', '', null, 'apply_patch'],
+      ['assistant', 'Fixed **it**.', null, null]
+    ]);
+    expect(document.messages[2].tool).toMatchObject({ callId: 'c1', command: 'npm test', patch: null, status: 'failed', exitCode: 1, durationMs: 2000, stdout: 'FAIL src/a.test.ts' });
+    expect(document.messages[3].tool).toMatchObject({ command: null, patch, status: 'ok', exitCode: 0 });
+
+    const hidden = toExportDocument(await loadSession(), ['tool', 'thinking']);
+    expect(hidden.messages.map(m => m.text)).toEqual(['Fix the <flaky> test & ship', 'Fixed **it**.']);
+  });
+
+  it('renders Markdown turns with fenced commands and patches', async () => {
+    const markdown = exportConversation(await loadSession(), 'markdown', []);
+    expect(markdown).toMatch(/^# Codex session abcd1234\n\n- \*\*Project:\*\* `\/work\/api` \(acme\/api\)\n- \*\*Branch:\*\* main\n/);
+    expect(markdown.match(/^## (User|Assistant)/gm)).toEqual(['## User', '## Assistant']);
+    expect(markdown).toContain('> _Reasoning:_ Run the tests first');
+    expect(markdown).toContain('**shell** · failed: exit 1 after 2.0s\n\n```sh\nnpm test\n```\n\n```text\nFAIL src/a.test.ts\n```');
+    // The patch contains a triple backtick, so its fence is longer
+    expect(markdown).toContain(`**apply_patch** · exit 0 after 100ms\n\n\`\`\`\`diff\n${patch}\n\`\`\`\`\n\nFixed **it**.\n`);
+  });
+
+  it('renders a self-contained HTML page with collapsible tool calls', async () => {
+    const html = exportConversation(await loadSession(), 'html', []);
+    expect(html).toMatch(/^<!DOCTYPE html>/);
+    expect(html).not.toMatch(/<(script|link)\b/);
+    expect(html).toContain('<div class="text">Fix the &lt;flaky&gt; test &amp; ship</div>');
+    expect(html).toContain('<details class="tool failed" open><summary><code>shell</code> npm test <span class="outcome">failed: exit 1 after 2.0s</span></summary>');
+    expect(html).toContain('<details class="tool ok"><summary><code>apply_patch</code>');
+    expect(html).toContain('<span class="add">+const a = 1;</span>');
+  });
+
+  it('writes the export into the given directory', async () => {
+    const filePath = await writeExportFile(await loadSession(), 'json', [], dir);
+    expect(filePath).toBe(join(dir, 'codex-abcd1234-5678.json'));
+    expect(JSON.parse(readFileSync(filePath, 'utf-8')).session.sessionId).toBe('abcd1234-5678');
+  });
+});
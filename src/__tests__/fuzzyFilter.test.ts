@@ -0,0 +1,71 @@
+import { describe, expect, it } from '@jest/globals';
+import type { Conversation } from '../types.js';
+import { fuzzyMatch, positionSegments, rankConversations } from '../utils/fuzzyFilter.js';
+
+const session = (sessionId: string, projectPath: string, firstMessage: string, gitBranch = 'main'): Conversation => ({
+  sessionId,
+  projectPath,
+  projectName: '-',
+  gitBranch,
+  messages: [],
+  firstMessage,
+  lastMessage: firstMessage,
+  startTime: new Date('2025-09-20T08:00:00Z'),
+  endTime: new Date('2025-09-20T09:00:00Z')
+});
+
+describe('fuzzyFilter', () => {
+  describe('fuzzyMatch', () => {
+    it('matches subsequences and reports the matched characters of the shortest window', () => {
+      expect(fuzzyMatch('dbp', 'fix the db pool')?.positions).toEqual([8, 9, 11]);
+      expect(fuzzyMatch('abc', 'a-a-b-c')?.positions).toEqual([2, 4, 6]);
+      expect(fuzzyMatch('xyz', 'fix the db pool')).toBeNull();
+    });
+
+    it('is case-insensitive unless the pattern has uppercase letters', () => {
+      expect(fuzzyMatch('readme', 'Update README')).not.toBeNull();
+      expect(fuzzyMatch('README', 'update readme')).toBeNull();
+    });
+
+    it('prefers consecutive characters and word starts', () => {
+      const score = (pattern: string, text: string) => fuzzyMatch(pattern, text)?.score ?? -Infinity;
+      expect(score('pool', 'db pool')).toBeGreaterThan(score('pool', 'p-o-o-l'));
+      expect(score('api', 'work/api')).toBeGreaterThan(score('api', 'rapid'));
+    });
+  });
+
+  describe('rankConversations', () => {
+    const sessions = [
+      session('9f1c2d', '/work/web', 'Style the login button'),
+      session('4ab7e0', '/work/api', 'Fix the flaky db pool test', 'fix/pool'),
+      session('77aa00', '/work/api', 'Add a pool size setting')
+    ];
+
+    it('keeps sessions matching every term, best first', () => {
+      const ranked = rankConversations(sessions, 'api pool');
+      expect(ranked.map(r => r.conversation.sessionId)).toEqual(['4ab7e0', '77aa00']);
+      expect(ranked[0].pathPositions).toEqual([6, 7, 8]);
+    });
+
+    it('matches the branch and session id prefixes without marking the list row', () => {
+      expect(rankConversations(sessions, 'fix/p').map(r => r.conversation.sessionId)).toEqual(['4ab7e0']);
+      const byId = rankConversations(sessions, '9f1');
+      expect(byId.map(r => r.conversation.sessionId)).toEqual(['9f1c2d']);
+      expect(byId[0].summaryPositions).toEqual([]);
+      expect(rankConversations(sessions, 'f1c')).toEqual([]);
+    });
+
+    it('keeps the original order for an empty query', () => {
+      expect(rankConversations(sessions, '  ').map(r => r.conversation.sessionId)).toEqual(['9f1c2d', '4ab7e0', '77aa00']);
+    });
+  });
+
+  it('splits text into marked and unmarked runs by position', () => {
+    expect(positionSegments('db pool', new Set([3, 4, 6]))).toEqual([
+      { text: 'db ', match: false },
+      { text: 'po', match: true },
+      { text: 'o', match: false },
+      { text: 'l', match: true }
+    ]);
+  });
+});
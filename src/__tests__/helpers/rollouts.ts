@@ -0,0 +1,36 @@
+import { mkdirSync, utimesSync, writeFileSync } from 'fs';
+import { join } from 'path';
+
+export interface RolloutFixture {
+  id: string;
+  /** Start day as YYYY-MM-DD; the file goes under root/YYYY/MM/DD */
+  day?: string;
+  cwd?: string;
+  git?: { branch?: string; repository_url?: string };
+  /** response_item payloads, recorded one second apart after the session_meta line */
+  items?: object[];
+  /** File modification time, which the reader treats as last activity */
+  mtime?: string;
+}
+
+/** Writes a rollout file as Codex records it, starting at 08:00:00 UTC, and returns its path. */
+export function writeRollout(root: string, { id, day = '2025-09-20', cwd = '/work/api', git, items = [], mtime }: RolloutFixture): string {
+  const dayDir = join(root, ...day.split('-'));
+  mkdirSync(dayDir, { recursive: true });
+  const start = Date.parse(`${day}T08:00:00.000Z`);
+  const at = (second: number) => new Date(start + second * 1000).toISOString();
+  const lines = [
+    { timestamp: at(0), type: 'session_meta', payload: { id, timestamp: at(0), cwd, ...(git && { git }) } },
+    ...items.map((payload, i) => ({ timestamp: at(i + 1), type: 'response_item', payload }))
+  ];
+  const filePath = join(dayDir, `rollout-${day}T08-00-00-${id}.jsonl`);
+  writeFileSync(filePath, lines.map(line => JSON.stringify(line)).join('\n') + '\n');
+  if (mtime) utimesSync(filePath, new Date(mtime), new Date(mtime));
+  return filePath;
+}
+
+export const say = (role: 'user' | 'assistant', text: string) => ({
+  type: 'message',
+  role,
+  content: [{ type: role === 'user' ? 'input_text' : 'output_text', text }]
+});
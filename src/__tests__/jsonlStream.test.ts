@@ -0,0 +1,76 @@
+import { afterEach, beforeEach, describe, expect, it, jest } from '@jest/globals';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { gzipSync } from 'zlib';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { readJsonlLines, type JsonlLine } from '../utils/jsonlStream.js';
+
+async function collect(filePath: string, options?: Parameters<typeof readJsonlLines>[1]): Promise<JsonlLine[]> {
+  const lines: JsonlLine[] = [];
+  for await (const line of readJsonlLines(filePath, options)) lines.push(line);
+  return lines;
+}
+
+describe('jsonlStream', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'cdxresume-jsonl-'));
+    file = join(dir, 'rollout.jsonl');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('yields non-blank lines with physical line numbers', async () => {
+    writeFileSync(file, '{"a":1}\n\n{"b":2}\r\n');
+    const lines = await collect(file);
+    expect(lines).toEqual([
+      { text: '{"a":1}', lineNumber: 1, complete: true, endOffset: 8 },
+      { text: '{"b":2}', lineNumber: 3, complete: true, endOffset: 18 }
+    ]);
+  });
+
+  it('marks a trailing line without newline as incomplete', async () => {
+    writeFileSync(file, '{"a":1}\n{"b":');
+    const lines = await collect(file);
+    expect(lines[1]).toEqual({ text: '{"b":', lineNumber: 2, complete: false, endOffset: 13 });
+  });
+
+  it('resumes from a byte offset with continued line numbers', async () => {
+    writeFileSync(file, '{"a":1}\n{"b":2}\n{"c":3}\n');
+    const lines = await collect(file, { start: 8, startLineNumber: 2 });
+    expect(lines.map(l => [l.text, l.lineNumber, l.endOffset])).toEqual([
+      ['{"b":2}', 2, 16],
+      ['{"c":3}', 3, 24]
+    ]);
+  });
+
+  it('reassembles lines that span several read chunks', async () => {
+    const long = JSON.stringify({ output: 'x'.repeat(200 * 1024) });
+    writeFileSync(file, `${long}\n{"after":true}\n`);
+    const lines = await collect(file);
+    expect(lines.map(l => l.text)).toEqual([long, '{"after":true}']);
+  });
+
+  it('skips lines longer than the limit and reports them', async () => {
+    const onOversizedLine = jest.fn();
+    writeFileSync(file, `{"small":1}\n${'y'.repeat(100 * 1024)}\n{"small":2}\n${'z'.repeat(100 * 1024)}`);
+    const lines = await collect(file, { maxLineBytes: 1024, onOversizedLine });
+    expect(lines.map(l => l.text)).toEqual(['{"small":1}', '{"small":2}']);
+    expect(onOversizedLine.mock.calls).toEqual([[2], [4]]);
+  });
+
+  it('decompresses .gz files on the fly, resuming at decompressed offsets', async () => {
+    const gz = join(dir, 'rollout.jsonl.gz');
+    writeFileSync(gz, gzipSync('{"a":1}\n{"b":2}\n'));
+    expect((await collect(gz)).map(l => [l.text, l.endOffset])).toEqual([['{"a":1}', 8], ['{"b":2}', 16]]);
+    expect((await collect(gz, { start: 8, startLineNumber: 2 })).map(l => [l.text, l.lineNumber])).toEqual([['{"b":2}', 2]]);
+  });
+
+  it('fails instead of hanging on a missing .gz file', async () => {
+    await expect(collect(join(dir, 'missing.jsonl.gz'))).rejects.toThrow();
+  });
+});
@@ -187,6 +187,28 @@ describe('keyBindingHelper', () => {
       expect(matchesKeyBinding('', escapeKey, ['esc'])).toBe(true);
     });
 
+    it('should match the space bar', () => {
+      const plainKey: Key = {
+        upArrow: false,
+        downArrow: false,
+        leftArrow: false,
+        rightArrow: false,
+        pageDown: false,
+        pageUp: false,
+        return: false,
+        escape: false,
+        ctrl: false,
+        shift: false,
+        tab: false,
+        backspace: false,
+        delete: false,
+        meta: false,
+      };
+
+      expect(matchesKeyBinding(' ', plainKey, ['space'])).toBe(true);
+      expect(matchesKeyBinding('s', plainKey, ['space'])).toBe(false);
+    });
+
     it('should match meta/cmd key combinations', () => {
       const metaQ: Key = {
         upArrow: false,
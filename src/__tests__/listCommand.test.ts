@@ -0,0 +1,77 @@
+import { afterAll, describe, expect, it } from '@jest/globals';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { collectListEntries, formatListEntries, parseListArgs, type ListEntry } from '../utils/listCommand.js';
+import { say, writeRollout } from './helpers/rollouts.js';
+
+const base = mkdtempSync(join(tmpdir(), 'cdxresume-list-'));
+const root = join(base, 'sessions');
+
+function writeSession(day: string, id: string, cwd: string, branch: string, prompt: string) {
+  const git = { branch, repository_url: 'https://github.com/acme/api.git' };
+  writeRollout(root, { id, day, cwd, git, items: [say('user', prompt)], mtime: `${day}T09:00:00Z` });
+}
+
+const entry: ListEntry = {
+  sessionId: 'aaaa1111-2222',
+  sourcePath: '/s/rollout-aaaa.jsonl',
+  projectPath: '/work/api',
+  branch: null,
+  startTime: '2025-09-01T08:00:00.000Z',
+  endTime: '2025-09-01T09:00:00.000Z',
+  messageCount: 3,
+  firstPrompt: 'Fix the\tflaky\ntest'
+};
+
+describe('listCommand', () => {
+  afterAll(() => {
+    delete process.env.XDG_CACHE_HOME;
+    rmSync(base, { recursive: true, force: true });
+  });
+
+  it('turns filter flags into the TUI filter and reports bad values', () => {
+    const { options, problems } = parseListArgs(['--tsv', '--repo', 'acme/api', '--branch=main', '--after', '2025-09-01', '--filter', 'has:error', '--limit', '5']);
+    expect(problems).toEqual([]);
+    expect(options).toMatchObject({ format: 'tsv', sort: 'lastActivity', limit: 5 });
+    expect(options.filter).toMatchObject({ repos: ['acme/api'], branches: ['main'], after: new Date(2025, 8, 1), hasError: true });
+
+    expect(parseListArgs(['--limit', '0', '--sort', 'size', '--before', 'soon', '--verbose']).problems).toEqual([
+      "--limit expects a positive number, got '0'",
+      "--sort expects one of lastActivity, startTime, project, messageCount, duration, mostResumed, got 'size'",
+      "Unknown option '--verbose'",
+      'before: expects a date like 2025-09-01, got "soon"'
+    ]);
+  });
+
+  it('lists sessions matching the filters, up to the limit', async () => {
+    process.env.XDG_CACHE_HOME = join(base, 'cache');
+    writeSession('2025-09-01', 'old', '/work/api', 'main', 'Old work');
+    writeSession('2025-09-02', 'feature', '/work/api', 'feature', 'Feature work');
+    writeSession('2025-09-03', 'new', '/work/api', 'main', 'New work');
+
+    const { options } = parseListArgs(['--branch', 'main']);
+    const entries = await collectListEntries(options, { roots: [root] });
+    expect(entries.map(e => e.sessionId)).toEqual(['new', 'old']);
+    expect(entries[0]).toMatchObject({ projectPath: '/work/api', branch: 'main', startTime: '2025-09-03T08:00:00.000Z', messageCount: 1, firstPrompt: 'New work' });
+
+    const limited = await collectListEntries(parseListArgs(['--limit', '1']).options, { roots: [root] });
+    expect(limited.map(e => e.sessionId)).toEqual(['new']);
+  });
+
+  it('escapes TSV values so each session stays on one line', () => {
+    const [header, row] = formatListEntries([entry], 'tsv').split('\n');
+    expect(header).toBe('sessionId\tsourcePath\tprojectPath\tbranch\tstartTime\tendTime\tmessageCount\tfirstPrompt');
+    expect(row.split('\t')).toEqual(['aaaa1111-2222', '/s/rollout-aaaa.jsonl', '/work/api', '', '2025-09-01T08:00:00.000Z', '2025-09-01T09:00:00.000Z', '3', 'Fix the\\tflaky\\ntest']);
+    expect(JSON.parse(formatListEntries([entry], 'json'))).toEqual([entry]);
+  });
+
+  it('prints an aligned table with the prompt cut to the width', () => {
+    const lines = formatListEntries([entry, { ...entry, sessionId: 'bbbb', branch: 'feature/long', firstPrompt: 'x'.repeat(200) }], 'table', 100).split('\n');
+    expect(lines[0]).toMatch(/^ID {8}LAST ACTIVITY {5}MSGS {2}BRANCH {8}PROJECT {4}FIRST PROMPT$/);
+    expect(lines[1]).toContain('aaaa1111  ');
+    expect(lines[1]).toContain('Fix the flaky test');
+    expect(lines[2].length).toBeLessThanOrEqual(100);
+    expect(formatListEntries([], 'table')).toBe('No sessions found');
+  });
+});
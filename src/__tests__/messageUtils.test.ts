@@ -1,4 +1,4 @@
-import { extractMessageText } from '../utils/messageUtils.js';
+import { extractMessageText, formatCommandFailure, formatDuration, formatTokenCount, formatToolOutcome, formatToolStatus, isFailedToolResult } from '../utils/messageUtils.js';
 
 describe('messageUtils', () => {
   describe('extractMessageText', () => {
@@ -167,4 +167,47 @@ describe('messageUtils', () => {
       expect(extractMessageText(content)).toBe('  Indented text  \n\n\nDouble newlines\n\n');
     });
   });
-});
\ No newline at end of file
+
+  describe('command outcomes', () => {
+    it('treats only non-zero exit codes as failures', () => {
+      expect(isFailedToolResult({ exitCode: 1 })).toBe(true);
+      expect(isFailedToolResult({ exitCode: 0 })).toBe(false);
+      expect(isFailedToolResult({ stdout: 'ok' })).toBe(false);
+      expect(isFailedToolResult(undefined)).toBe(false);
+    });
+
+    it('summarizes a failure with its duration and first output line', () => {
+      expect(formatCommandFailure({ exitCode: 127, durationMs: 40, stderr: 'sh: foo: not found\nmore' })).toBe('[Command failed] exit 127 after 40ms: sh: foo: not found');
+      expect(formatCommandFailure({ exitCode: 1, stdout: 'FAIL src/a.test.ts' })).toBe('[Command failed] exit 1: FAIL src/a.test.ts');
+      expect(formatCommandFailure({ exitCode: 1 })).toBe('[Command failed] exit 1');
+    });
+
+    it('describes paired tool invocations', () => {
+      expect(formatToolOutcome({ name: 'shell', exitCode: 0, durationMs: 65_000, success: true })).toBe('[Result] exit 0 after 1m5s');
+      expect(formatToolOutcome({ name: 'custom:apply_patch', success: true })).toBe('[Result] ok');
+      expect(formatToolOutcome({ name: 'shell', exitCode: 2, stderr: 'bad flag', success: false })).toBe('[Command failed] exit 2: bad flag');
+      expect(formatToolOutcome({ name: 'shell' })).toBe('[Pending] no output recorded');
+      expect(formatToolStatus({ name: 'shell', exitCode: 2, success: false })).toBe('✗ exit 2');
+      expect(formatToolStatus({ name: 'shell', success: true })).toBe('✓');
+    });
+
+    it('renders error parts', () => {
+      expect(extractMessageText([{ type: 'error', text: 'rate limited' }])).toBe('[Error] rate limited');
+    });
+
+    it('rounds durations before splitting them into minutes and seconds', () => {
+      expect(formatDuration(850)).toBe('850ms');
+      expect(formatDuration(2_340)).toBe('2.3s');
+      expect(formatDuration(59_940)).toBe('59.9s');
+      expect(formatDuration(59_990)).toBe('1m0s');
+      expect(formatDuration(119_600)).toBe('2m0s');
+      expect(formatDuration(65_000)).toBe('1m5s');
+    });
+
+    it('abbreviates token counts', () => {
+      expect(formatTokenCount(950)).toBe('950');
+      expect(formatTokenCount(12_345)).toBe('12.3k');
+      expect(formatTokenCount(2_500_000)).toBe('2.5M');
+    });
+  });
+});
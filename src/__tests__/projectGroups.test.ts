@@ -0,0 +1,46 @@
+import { describe, expect, it } from '@jest/globals';
+import type { Conversation } from '../types.js';
+import { flattenProjectTree, groupByProject, projectTreeRowConversation } from '../utils/projectGroups.js';
+
+function session(id: string, projectPath: string, endTime: string, projectName = '-'): Conversation {
+  return {
+    sessionId: id,
+    projectPath,
+    projectName,
+    messages: [],
+    firstMessage: id,
+    lastMessage: id,
+    startTime: new Date('2025-09-01T08:00:00Z'),
+    endTime: new Date(endTime)
+  };
+}
+
+describe('projectGroups', () => {
+  const sessions = [
+    session('b', '/work/web', '2025-09-02T09:00:00Z'),
+    session('a', '/work/api', '2025-09-01T09:00:00Z'),
+    session('c', '/work/web', '2025-09-03T09:00:00Z', 'acme/web'),
+    session('d', '/work/api', '2025-09-04T09:00:00Z')
+  ];
+
+  it('groups in list order and tracks count, last activity and repository', () => {
+    const groups = groupByProject(sessions);
+    expect(groups.map(group => group.projectPath)).toEqual(['/work/web', '/work/api']);
+    expect(groups[0].conversations.map(c => c.sessionId)).toEqual(['b', 'c']);
+    expect(groups[0].lastActivity).toEqual(new Date('2025-09-03T09:00:00Z'));
+    expect(groups[0].projectName).toBe('acme/web');
+    expect(groups[1].lastActivity).toEqual(new Date('2025-09-04T09:00:00Z'));
+    expect(groups[1].projectName).toBe('-');
+  });
+
+  it('lists the sessions of expanded projects below them', () => {
+    const groups = groupByProject(sessions);
+    expect(flattenProjectTree(groups, new Set()).map(row => row.kind)).toEqual(['project', 'project']);
+
+    const rows = flattenProjectTree(groups, new Set(['/work/api']));
+    expect(rows.map(row => (row.kind === 'project' ? row.group.projectPath : row.conversation.sessionId))).toEqual(['/work/web', '/work/api', 'a', 'd']);
+    expect(rows[1]).toMatchObject({ kind: 'project', expanded: true });
+    expect(projectTreeRowConversation(rows[0]).sessionId).toBe('b');
+    expect(projectTreeRowConversation(rows[3]).sessionId).toBe('d');
+  });
+});
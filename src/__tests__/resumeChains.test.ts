@@ -0,0 +1,126 @@
+import { describe, expect, it } from '@jest/globals';
+import type { Conversation, Message } from '../types.js';
+import { combineThreadTranscripts, createThreadLinker, flattenThreads, linkResumeChains, updateThreads } from '../utils/resumeChains.js';
+
+const message = (type: Message['type'], text: string): Message => ({
+  sessionId: 's',
+  timestamp: '2025-09-20T08:00:00.000Z',
+  type,
+  message: { role: type, content: [{ type: type === 'user' ? 'input_text' : 'output_text', text }] },
+  cwd: '/work/api'
+});
+
+function session(file: string, startHour: number, overrides: Partial<Conversation> = {}): Conversation {
+  return {
+    sessionId: file,
+    sourcePath: `/sessions/${file}.jsonl`,
+    projectPath: '/work/api',
+    projectName: 'api',
+    messages: [],
+    firstMessage: '',
+    lastMessage: '',
+    startTime: new Date(Date.UTC(2025, 8, 20, startHour)),
+    endTime: new Date(Date.UTC(2025, 8, 20, startHour, 30)),
+    ...overrides
+  };
+}
+
+describe('resumeChains', () => {
+  describe('linkResumeChains', () => {
+    it('links sessions whose transcript extends an earlier one, newest first', () => {
+      const first = session('a', 8, { transcriptDigests: ['d1', 'd2'] });
+      const second = session('b', 9, { transcriptDigests: ['d1', 'd2', 'd3', 'd4'] });
+      const third = session('c', 10, { transcriptDigests: ['d1', 'd2', 'd3', 'd4', 'd5'] });
+      const other = session('x', 11, { transcriptDigests: ['e1', 'e2'] });
+
+      const threads = linkResumeChains([other, third, second, first]);
+
+      expect(threads.map(c => c.sessionId)).toEqual(['x', 'c']);
+      expect(threads[1].resumedFrom?.map(c => c.sessionId)).toEqual(['b', 'a']);
+      expect(threads[0].resumedFrom).toBeUndefined();
+    });
+
+    it('links rollout files that share a session id', () => {
+      const threads = linkResumeChains([
+        session('b', 9, { sessionId: 'shared' }),
+        session('a', 8, { sessionId: 'shared' })
+      ]);
+      expect(threads).toHaveLength(1);
+      expect(threads[0].sourcePath).toBe('/sessions/b.jsonl');
+    });
+
+    it('does not link short or diverging transcripts, or other projects', () => {
+      const threads = linkResumeChains([
+        session('d', 11, { transcriptDigests: ['d1', 'x2'] }),
+        session('c', 10, { transcriptDigests: ['d1', 'd2', 'd3'], projectPath: '/work/web' }),
+        session('b', 9, { transcriptDigests: ['h1', 'h2'] }),
+        session('a', 8, { transcriptDigests: ['d1', 'd2'] }),
+        session('z', 7, { transcriptDigests: ['h1'] })
+      ]);
+      expect(threads.map(c => c.sessionId)).toEqual(['d', 'c', 'b', 'a', 'z']);
+    });
+
+    it('links a session resumed twice into the thread of its earliest resume', () => {
+      const threads = linkResumeChains([
+        session('a', 8, { transcriptDigests: ['d1', 'd2'] }),
+        session('c', 10, { transcriptDigests: ['d1', 'd2', 'y3', 'y4'] }),
+        session('b', 9, { transcriptDigests: ['d1', 'd2', 'x3', 'x4'] })
+      ]);
+      expect(threads.map(c => c.sessionId)).toEqual(['c', 'b']);
+      expect(threads[1].resumedFrom?.map(c => c.sessionId)).toEqual(['a']);
+    });
+  });
+
+  describe('createThreadLinker', () => {
+    it('links each session added after its continuations, one lookup at a time', () => {
+      const linker = createThreadLinker();
+      const head = session('c', 10, { sessionId: 'shared', transcriptDigests: ['d1', 'd2', 'd3', 'd4'] });
+      expect(linker.add(head)).toBeNull();
+      expect(linker.add(session('x', 9, { transcriptDigests: ['e1', 'e2'] }))).toBeNull();
+      expect(linker.add(session('b', 9, { sessionId: 'shared' }))).toBe(head);
+      expect(linker.add(session('a', 8, { transcriptDigests: ['d1', 'd2'] }))).toBe(head);
+      expect(linker.earlierSessions(head).map(c => c.sessionId)).toEqual(['shared', 'a']);
+    });
+  });
+
+  it('swaps updated sessions into threads in place, keeping their root', () => {
+    const head = session('b', 9, { sessionRoot: '/sessions', resumedFrom: [session('a', 8)] });
+    const updated = new Map([
+      ['/sessions/a.jsonl', session('a', 8, { messageCount: 5 })],
+      ['/sessions/x.jsonl', session('x', 7, { messageCount: 3 })]
+    ]);
+    const threads = updateThreads([head, session('x', 7, { sessionRoot: '/archive' })], updated);
+    expect(threads[0]).toMatchObject({ sessionId: 'b', sessionRoot: '/sessions' });
+    expect(threads[0].resumedFrom?.[0].messageCount).toBe(5);
+    expect(threads[1]).toMatchObject({ sessionId: 'x', messageCount: 3, sessionRoot: '/archive' });
+  });
+
+  it('flattens threads, listing earlier sessions only for expanded ones', () => {
+    const head = session('b', 9, { resumedFrom: [session('a', 8)] });
+    const single = session('x', 7);
+
+    expect(flattenThreads([head, single], new Set()).map(r => [r.conversation.sessionId, r.depth, r.threadSize])).toEqual([
+      ['b', 0, 2],
+      ['x', 0, 1]
+    ]);
+    expect(flattenThreads([head, single], new Set(['/sessions/b.jsonl'])).map(r => [r.conversation.sessionId, r.depth])).toEqual([
+      ['b', 0],
+      ['a', 1],
+      ['x', 0]
+    ]);
+  });
+
+  it('combines transcripts without repeating the replayed history', () => {
+    const first = session('a', 8, { firstMessage: 'Fix it', messages: [message('user', 'Fix it'), message('assistant', 'Done')] });
+    const second = session('b', 9, {
+      messages: [message('user', 'Fix it'), message('assistant', 'Done'), message('user', 'Now add tests'), message('assistant', 'Added')]
+    });
+
+    const combined = combineThreadTranscripts([first, second]);
+
+    expect(combined.messages.map(m => m.message?.content)).toEqual(second.messages.map(m => m.message?.content));
+    expect(combined.messageCount).toBe(4);
+    expect(combined.startTime).toEqual(first.startTime);
+    expect(combined.sourcePath).toBe('/sessions/b.jsonl');
+  });
+});
@@ -0,0 +1,38 @@
+import { afterAll, beforeEach, describe, expect, it } from '@jest/globals';
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { getResumeHistoryPath, loadResumeCounts, recordResume } from '../utils/resumeHistory.js';
+
+const stateHome = mkdtempSync(join(tmpdir(), 'cdxresume-state-'));
+
+describe('resumeHistory', () => {
+  beforeEach(() => {
+    rmSync(join(stateHome, 'cdxresume'), { recursive: true, force: true });
+    process.env.XDG_STATE_HOME = stateHome;
+  });
+
+  afterAll(() => {
+    delete process.env.XDG_STATE_HOME;
+    rmSync(stateHome, { recursive: true, force: true });
+  });
+
+  it('counts resumes per session across loads', async () => {
+    expect(await loadResumeCounts()).toEqual(new Map());
+    await recordResume('aaaa');
+    await recordResume('bbbb');
+    await recordResume('aaaa');
+    expect(await loadResumeCounts()).toEqual(new Map([['aaaa', 2], ['bbbb', 1]]));
+    expect(getResumeHistoryPath()).toBe(join(stateHome, 'cdxresume', 'resume-history.json'));
+  });
+
+  it('starts over from a corrupt or outdated file', async () => {
+    mkdirSync(join(stateHome, 'cdxresume'), { recursive: true });
+    writeFileSync(getResumeHistoryPath(), '{"version": 1, "counts": ');
+    expect(await loadResumeCounts()).toEqual(new Map());
+    writeFileSync(getResumeHistoryPath(), JSON.stringify({ version: 0, counts: { aaaa: 5 } }));
+    expect(await loadResumeCounts()).toEqual(new Map());
+    await recordResume('aaaa');
+    expect(await loadResumeCounts()).toEqual(new Map([['aaaa', 1]]));
+  });
+});
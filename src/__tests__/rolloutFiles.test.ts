@@ -0,0 +1,57 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { existsSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { gzipSync } from 'zlib';
+import { decompressRollout, isCompressedRollout, isRolloutFile, rolloutBaseName } from '../utils/rolloutFiles.js';
+
+describe('rolloutFiles', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'cdxresume-gz-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('recognizes plain and gzipped rollout files', () => {
+    expect(isRolloutFile('rollout-a.jsonl')).toBe(true);
+    expect(isRolloutFile('rollout-a.jsonl.gz')).toBe(true);
+    expect(isRolloutFile('notes.txt.gz')).toBe(false);
+    expect(isCompressedRollout('/s/rollout-a.jsonl.gz')).toBe(true);
+    expect(isCompressedRollout('/s/rollout-a.jsonl')).toBe(false);
+    expect(rolloutBaseName('/s/rollout-a.jsonl.gz')).toBe('rollout-a');
+    expect(rolloutBaseName('/s/rollout-a.jsonl')).toBe('rollout-a');
+  });
+
+  it('decompresses a rollout back into place', async () => {
+    const gz = join(dir, 'rollout-a.jsonl.gz');
+    writeFileSync(gz, gzipSync('{"type":"session_meta"}\n'));
+
+    const target = await decompressRollout(gz);
+    expect(target).toBe(join(dir, 'rollout-a.jsonl'));
+    expect(readFileSync(target, 'utf-8')).toBe('{"type":"session_meta"}\n');
+    expect(existsSync(gz)).toBe(false);
+  });
+
+  it('keeps both files when the plain rollout already exists', async () => {
+    const gz = join(dir, 'rollout-a.jsonl.gz');
+    writeFileSync(gz, gzipSync('{"from":"gz"}\n'));
+    writeFileSync(join(dir, 'rollout-a.jsonl'), '{"from":"plain"}\n');
+
+    await expect(decompressRollout(gz)).rejects.toThrow();
+    expect(existsSync(gz)).toBe(true);
+    expect(readFileSync(join(dir, 'rollout-a.jsonl'), 'utf-8')).toBe('{"from":"plain"}\n');
+  });
+
+  it('removes a partial file when the archive is corrupt', async () => {
+    const gz = join(dir, 'rollout-a.jsonl.gz');
+    writeFileSync(gz, 'not gzip');
+
+    await expect(decompressRollout(gz)).rejects.toThrow();
+    expect(existsSync(join(dir, 'rollout-a.jsonl'))).toBe(false);
+    expect(existsSync(gz)).toBe(true);
+  });
+});
@@ -0,0 +1,276 @@
+import { describe, expect, it } from '@jest/globals';
+import { parseEventMsg } from '../utils/rolloutFormats/events.js';
+import { createMessageCollector, createToolTracker } from '../utils/rolloutFormats/shared.js';
+import { detectRolloutFormat, getRolloutFormat, legacyFormat, rolloutV1Format, sniffRolloutFormat, type RolloutFormatAdapter } from '../utils/rolloutFormats/index.js';
+
+const json = (record: object) => JSON.stringify(record);
+
+function parse(format: RolloutFormatAdapter, records: object[]) {
+  const parser = format.createParser('/sessions/2025/09/01/rollout-fallback-id.jsonl');
+  for (const [index, record] of records.entries()) {
+    if (!parser.feed(json(record), index + 1)) return null;
+  }
+  return parser.build(new Date('2025-09-01T09:00:00Z'));
+}
+
+describe('rolloutFormats', () => {
+  const legacyMeta = { id: 'legacy-1', timestamp: '2025-09-01T08:00:00.000Z', git: { branch: 'main', repository_url: 'https://github.com/acme/api.git' } };
+  const v1Meta = { timestamp: '2025-09-20T08:00:00.000Z', type: 'session_meta', payload: { id: 'v1-1', timestamp: '2025-09-20T08:00:00.000Z', cwd: '/work/api', git: { branch: 'feature' } } };
+
+  describe('detection', () => {
+    it('picks the adapter that recognizes the first line', () => {
+      expect(detectRolloutFormat(json(v1Meta))?.id).toBe('rollout-v1');
+      expect(detectRolloutFormat(json(legacyMeta))?.id).toBe('legacy');
+    });
+
+    it('lets each adapter reject the other format', () => {
+      expect(legacyFormat.detect(json(v1Meta))).toBe(false);
+      expect(rolloutV1Format.detect(json(legacyMeta))).toBe(false);
+    });
+
+    it('recognizes nothing for lines that are not JSON objects', () => {
+      expect(detectRolloutFormat('not json')).toBeNull();
+      expect(detectRolloutFormat('[1,2]')).toBeNull();
+    });
+
+    it('passes over unparseable leading lines, up to a limit', () => {
+      const garbled = '{"id":"legacy-1","times';
+      expect(sniffRolloutFormat([garbled])).toBeUndefined();
+      expect(sniffRolloutFormat([garbled, json({ type: 'message', role: 'user', content: 'hi' })])).toBe(legacyFormat);
+      expect(sniffRolloutFormat([garbled, json(v1Meta)])).toBe(rolloutV1Format);
+      expect(sniffRolloutFormat(Array(5).fill('hello'))).toBeNull();
+    });
+
+    it('looks adapters up by id', () => {
+      expect(getRolloutFormat('legacy')).toBe(legacyFormat);
+      expect(getRolloutFormat('rollout-v1')).toBe(rolloutV1Format);
+    });
+  });
+
+  describe('legacy', () => {
+    it('parses messages and tool calls paired with their output, hiding environment context', () => {
+      const conversation = parse(legacyFormat, [
+        legacyMeta,
+        { type: 'message', role: 'user', content: [{ type: 'input_text', text: '<environment_context><cwd>/work/api</cwd></environment_context>' }] },
+        { type: 'message', role: 'user', content: [{ type: 'input_text', text: 'Run the tests' }] },
+        { type: 'function_call', name: 'shell', arguments: '{"command":["npm","test"]}', call_id: 'c1' },
+        { type: 'function_call_output', call_id: 'c1', output: '{"output":"ok"}' },
+        { record_type: 'state' }
+      ]);
+      expect(conversation?.sessionId).toBe('legacy-1');
+      expect(conversation?.projectPath).toBe('/work/api');
+      expect(conversation?.projectName).toBe('acme/api');
+      expect(conversation?.messages.map(m => m.type)).toEqual(['user', 'assistant']);
+      expect(conversation?.messages[1].tool).toEqual(expect.objectContaining({
+        callId: 'c1', name: 'shell', input: { command: ['npm', 'test'] }, stdout: 'ok', success: true
+      }));
+    });
+
+    it('uses record timestamps where present and ids from the line number', () => {
+      const conversation = parse(legacyFormat, [
+        legacyMeta,
+        { type: 'message', role: 'user', content: [{ type: 'input_text', text: 'First' }], timestamp: '2025-09-01T08:05:00.000Z' },
+        { type: 'message', role: 'assistant', content: [{ type: 'output_text', text: 'No timestamp' }] },
+        { type: 'message', role: 'user', content: [{ type: 'input_text', text: 'Bad timestamp' }], timestamp: 'yesterday' }
+      ]);
+      expect(conversation?.messages.map(m => [m.id, m.timestamp])).toEqual([
+        ['rollout-fallback-id:2', '2025-09-01T08:05:00.000Z'],
+        ['rollout-fallback-id:3', '2025-09-01T08:05:00.000Z'],
+        ['rollout-fallback-id:4', '2025-09-01T08:05:00.000Z']
+      ]);
+    });
+
+    it('keeps an identical reply that follows a tool call', () => {
+      const at = (second: number) => `2025-09-20T08:00:0${second}.000Z`;
+      const reply = { type: 'message', role: 'assistant', content: [{ type: 'output_text', text: 'Done.' }] };
+      const conversation = parse(rolloutV1Format, [
+        v1Meta,
+        { timestamp: at(1), type: 'response_item', payload: reply },
+        { timestamp: at(1), type: 'event_msg', payload: { type: 'agent_message', message: 'Done.' } },
+        { timestamp: at(2), type: 'response_item', payload: { type: 'function_call', name: 'shell', arguments: '{"command":["ls"]}', call_id: 'c1' } },
+        { timestamp: at(3), type: 'event_msg', payload: { type: 'agent_message', message: 'Done.' } },
+        { timestamp: at(3), type: 'response_item', payload: reply }
+      ]);
+      expect(conversation?.messages.map(m => m.timestamp)).toEqual([at(1), at(2), at(3)]);
+      expect(conversation?.messages.map(m => m.tool?.name ?? m.message?.content)).toEqual([reply.content, 'shell', reply.content]);
+    });
+
+    it('maps reasoning summaries to thinking parts', () => {
+      const conversation = parse(legacyFormat, [
+        legacyMeta,
+        { type: 'reasoning', summary: [{ type: 'summary_text', text: 'Check the config' }, { type: 'summary_text', text: 'then run tests' }], encrypted_content: 'xyz' },
+        { type: 'reasoning', summary: [], encrypted_content: 'xyz' }
+      ]);
+      expect(conversation?.messages.map(m => m.message?.content)).toEqual([[{ type: 'thinking', thinking: 'Check the config\n\nthen run tests' }]]);
+    });
+
+    it('keeps an output without a matching call as its own message', () => {
+      const conversation = parse(legacyFormat, [
+        legacyMeta,
+        { type: 'function_call_output', call_id: 'missing', output: '{"output":"boom","metadata":{"exit_code":1}}' }
+      ]);
+      expect(conversation?.messages[0].toolUseResult).toEqual(expect.objectContaining({ stdout: 'boom', exitCode: 1 }));
+      expect(conversation?.errorCount).toBe(1);
+    });
+  });
+
+  describe('rollout-v1', () => {
+    it('parses response items and falls back to the file name for a missing id', () => {
+      const conversation = parse(rolloutV1Format, [
+        { ...v1Meta, payload: { ...v1Meta.payload, id: undefined } },
+        { timestamp: '2025-09-20T08:00:01.000Z', type: 'response_item', payload: { type: 'message', role: 'user', content: [{ type: 'input_text', text: 'Fix it' }] } },
+        { timestamp: '2025-09-20T08:00:02.000Z', type: 'response_item', payload: { type: 'function_call', name: 'shell', arguments: '{"command":["ls"]}', call_id: 'c1' } }
+      ]);
+      expect(conversation?.sessionId).toBe('rollout-fallback-id');
+      expect(conversation?.gitBranch).toBe('feature');
+      expect(conversation?.firstMessage).toBe('Fix it');
+      expect(conversation?.messages[0].timestamp).toBe('2025-09-20T08:00:01.000Z');
+      expect(conversation?.messages.map(m => m.id)).toEqual(['rollout-fallback-id:2', 'rollout-fallback-id:3']);
+    });
+
+    it('pairs calls with exec_command_end and output records, in either order', () => {
+      const event = (timestamp: string, payload: object) => ({ timestamp, type: 'event_msg', payload });
+      const item = (timestamp: string, payload: object) => ({ timestamp, type: 'response_item', payload });
+      const conversation = parse(rolloutV1Format, [
+        v1Meta,
+        item('2025-09-20T08:00:01.000Z', { type: 'function_call', name: 'shell', arguments: '{"command":["npm","tset"]}', call_id: 'c1' }),
+        event('2025-09-20T08:00:01.100Z', { type: 'exec_command_begin', call_id: 'c1', command: ['npm', 'tset'], cwd: '/work/api' }),
+        event('2025-09-20T08:00:01.900Z', { type: 'exec_command_end', call_id: 'c1', exit_code: 1, stdout: '', stderr: 'missing script: tset' }),
+        item('2025-09-20T08:00:02.000Z', { type: 'function_call_output', call_id: 'c1', output: '{"output":"missing script: tset","metadata":{"exit_code":1,"duration_seconds":0.8}}' }),
+        item('2025-09-20T08:00:03.000Z', { type: 'function_call', name: 'shell', arguments: '{"command":["ls"]}', call_id: 'c2' }),
+        item('2025-09-20T08:00:04.000Z', { type: 'function_call_output', call_id: 'c2', output: 'plain text' }),
+        event('2025-09-20T08:00:04.100Z', { type: 'exec_command_end', call_id: 'c2', exit_code: 0, duration: { secs: 0, nanos: 250_000_000 } })
+      ]);
+      expect(conversation?.messages).toHaveLength(2);
+      expect(conversation?.messages.map(m => m.tool)).toEqual([
+        expect.objectContaining({ callId: 'c1', name: 'shell', input: { command: ['npm', 'tset'] }, exitCode: 1, durationMs: 800, stderr: 'missing script: tset', stdout: 'missing script: tset', success: false }),
+        expect.objectContaining({ callId: 'c2', exitCode: 0, durationMs: 250, stdout: 'plain text', success: true })
+      ]);
+      expect(conversation?.errorCount).toBe(1);
+    });
+
+    it('records token usage, error events and agent messages without duplicating response items', () => {
+      const event = (payload: object) => ({ timestamp: '2025-09-20T08:00:05.000Z', type: 'event_msg', payload });
+      const usage = (input: number, output: number) => ({ input_tokens: input, cached_input_tokens: 0, output_tokens: output, reasoning_output_tokens: 0, total_tokens: input + output });
+      const conversation = parse(rolloutV1Format, [
+        v1Meta,
+        { timestamp: '2025-09-20T08:00:01.000Z', type: 'response_item', payload: { type: 'message', role: 'user', content: [{ type: 'input_text', text: 'Hi' }] } },
+        { timestamp: '2025-09-20T08:00:02.000Z', type: 'response_item', payload: { type: 'message', role: 'assistant', content: [{ type: 'output_text', text: 'Hello' }] } },
+        event({ type: 'agent_message', message: 'Hello' }),
+        event({ type: 'token_count', info: { last_token_usage: usage(100, 20), total_token_usage: usage(100, 20) } }),
+        event({ type: 'agent_message', message: 'Only in events' }),
+        event({ type: 'token_count', info: { last_token_usage: usage(200, 30), total_token_usage: usage(300, 50) } }),
+        event({ type: 'error', message: 'stream disconnected' }),
+        event({ type: 'task_started' })
+      ]);
+      expect(conversation?.messages.map(m => m.message?.content)).toEqual([
+        [{ type: 'input_text', text: 'Hi' }],
+        [{ type: 'output_text', text: 'Hello' }],
+        [{ type: 'output_text', text: 'Only in events' }],
+        [{ type: 'error', text: 'stream disconnected' }]
+      ]);
+      expect(conversation?.messages[1].tokenUsage?.totalTokens).toBe(120);
+      expect(conversation?.messages[2].tokenUsage?.totalTokens).toBe(230);
+      expect(conversation?.tokenUsage).toEqual({ inputTokens: 300, cachedInputTokens: 0, outputTokens: 50, reasoningOutputTokens: 0, totalTokens: 350 });
+      expect(conversation?.errorCount).toBe(1);
+    });
+
+    it('maps reasoning summaries to thinking parts', () => {
+      const conversation = parse(rolloutV1Format, [
+        v1Meta,
+        { timestamp: '2025-09-20T08:00:01.000Z', type: 'response_item', payload: { type: 'reasoning', summary: [{ type: 'summary_text', text: '**Planning** the fix' }], content: null, encrypted_content: 'xyz' } },
+        { timestamp: '2025-09-20T08:00:02.000Z', type: 'response_item', payload: { type: 'reasoning', summary: [], encrypted_content: 'xyz' } }
+      ]);
+      expect(conversation?.messages).toHaveLength(1);
+      expect(conversation?.messages[0]).toEqual(expect.objectContaining({
+        type: 'assistant',
+        timestamp: '2025-09-20T08:00:01.000Z',
+        message: { role: 'assistant', content: [{ type: 'thinking', thinking: '**Planning** the fix' }] }
+      }));
+    });
+
+    it('collects models and the last turn\'s approval and sandbox policies from turn_context', () => {
+      const context = (payload: object) => ({ timestamp: '2025-09-20T08:00:01.000Z', type: 'turn_context', payload });
+      const conversation = parse(rolloutV1Format, [
+        { ...v1Meta, payload: { ...v1Meta.payload, cwd: undefined } },
+        context({ cwd: '/work/api', model: 'gpt-5', approval_policy: 'on-request', sandbox_policy: { mode: 'workspace-write', network_access: false } }),
+        { timestamp: '2025-09-20T08:00:02.000Z', type: 'response_item', payload: { type: 'message', role: 'user', content: [{ type: 'input_text', text: 'Go' }] } },
+        context({ cwd: '/work/api', model: 'gpt-5-codex', approval_policy: 'never', sandbox_policy: 'danger-full-access' }),
+        context({ cwd: '/work/api', model: 'gpt-5', approval_policy: 'never', sandbox_policy: { mode: 'danger-full-access' } })
+      ]);
+      expect(conversation?.models).toEqual(['gpt-5', 'gpt-5-codex']);
+      expect(conversation?.approvalPolicy).toBe('never');
+      expect(conversation?.sandboxPolicy).toBe('danger-full-access');
+      expect(conversation?.projectPath).toBe('/work/api');
+    });
+
+    it('records the tools called and the files changed by apply_patch, even for list entries', () => {
+      const call = (name: string, args: object, callId: string) => ({ timestamp: '2025-09-20T08:00:01.000Z', type: 'response_item', payload: { type: 'function_call', name, arguments: json(args), call_id: callId } });
+      const records = [
+        v1Meta,
+        call('shell', { command: ['rg', 'db'] }, 'c1'),
+        call('shell', { command: ['apply_patch', '*** Begin Patch\n*** Update File: src/db.ts\n*** Add File: src/pool.ts\n*** End Patch'] }, 'c2'),
+        call('shell', { command: ['apply_patch', '*** Begin Patch\n*** Update File: src/db.ts\n*** End Patch'] }, 'c3'),
+        { timestamp: '2025-09-20T08:00:02.000Z', type: 'response_item', payload: { type: 'custom_tool_call', name: 'update_plan', input: '{}', call_id: 'c4' } }
+      ];
+      const parser = rolloutV1Format.createParser('/sessions/rollout-summary.jsonl', { summaryOnly: true });
+      records.forEach((record, index) => parser.feed(json(record), index + 1));
+      const summary = parser.build();
+
+      expect(summary?.messages).toEqual([]);
+      expect(summary?.toolNames).toEqual(['shell', 'apply_patch', 'update_plan']);
+      expect(summary?.touchedFiles).toEqual(['src/db.ts', 'src/pool.ts']);
+    });
+
+    it('keeps only the exit status of tool calls in summary mode, and forgets completed calls', () => {
+      const collector = createMessageCollector(false);
+      const tools = createToolTracker(collector, true);
+      const call = (callId: string) => ({ id: callId, sessionId: 's1', timestamp: '2025-09-20T08:00:01.000Z', type: 'assistant' as const, cwd: '/work/api', tool: { callId, name: 'shell', input: { command: ['ls'] } } });
+      tools.addCall(call('c0'));
+      expect(tools.complete('c0', { exitCode: 2, stdout: 'x'.repeat(1000) })).toBe(true);
+      // A second outcome right after the first still finds its call
+      expect(tools.complete('c0', { durationMs: 5 })).toBe(true);
+      for (let i = 1; i <= 40; i++) {
+        tools.addCall(call(`c${i}`));
+        tools.complete(`c${i}`, { exitCode: 0 });
+      }
+      expect(collector.errorCount).toBe(1);
+      expect(tools.complete('c0', { exitCode: 0 })).toBe(false);
+    });
+
+    it('rejects a file that does not start with session_meta', () => {
+      expect(parse(rolloutV1Format, [legacyMeta])).toBeNull();
+    });
+
+    it('chains transcript digests over chat messages so a resumed session shares the prefix', () => {
+      const item = (payload: object) => ({ timestamp: '2025-09-20T08:00:01.000Z', type: 'response_item', payload });
+      const chat = (role: string, text: string) => item({ type: 'message', role, content: [{ type: role === 'user' ? 'input_text' : 'output_text', text }] });
+      const history = [chat('user', 'Fix it'), item({ type: 'function_call', name: 'shell', arguments: '{}', call_id: 'c1' }), chat('assistant', 'Done')];
+      const original = parse(rolloutV1Format, [v1Meta, ...history]);
+      const resumed = parse(rolloutV1Format, [v1Meta, ...history, chat('user', 'Now add tests')]);
+      const edited = parse(rolloutV1Format, [v1Meta, chat('user', 'Fix it'), chat('assistant', 'Done differently')]);
+
+      expect(original?.transcriptDigests).toHaveLength(2);
+      expect(resumed?.transcriptDigests?.slice(0, 2)).toEqual(original?.transcriptDigests);
+      expect(resumed?.transcriptDigests).toHaveLength(3);
+      expect(edited?.transcriptDigests?.[0]).toBe(original?.transcriptDigests?.[0]);
+      expect(edited?.transcriptDigests?.[1]).not.toBe(original?.transcriptDigests?.[1]);
+    });
+  });
+
+  describe('parseEventMsg', () => {
+    it('sums flat token counts written by older Codex builds', () => {
+      expect(parseEventMsg({ type: 'token_count', input_tokens: 10, output_tokens: 5 })).toEqual({
+        type: 'token_count',
+        usage: { inputTokens: 10, cachedInputTokens: 0, outputTokens: 5, reasoningOutputTokens: 0, totalTokens: 15 }
+      });
+    });
+
+    it('ignores unknown variants and incomplete payloads', () => {
+      expect(parseEventMsg({ type: 'task_started' })).toBeNull();
+      expect(parseEventMsg({ type: 'exec_command_end', call_id: 'c1' })).toBeNull();
+      expect(parseEventMsg({ type: 'token_count', info: null })).toBeNull();
+      expect(parseEventMsg('nope')).toBeNull();
+    });
+  });
+});
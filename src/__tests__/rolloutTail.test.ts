@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { appendFileSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { Conversation } from '../types.js';
+import { tailRollout, type RolloutTail } from '../utils/rolloutTail.js';
+
+const line = (record: object) => `${JSON.stringify(record)}\n`;
+const meta = line({ timestamp: '2025-09-20T08:00:00.000Z', type: 'session_meta', payload: { id: 'live-1', timestamp: '2025-09-20T08:00:00.000Z', cwd: '/work/api' } });
+const message = (role: 'user' | 'assistant', text: string) => line({
+  timestamp: '2025-09-20T08:00:01.000Z',
+  type: 'response_item',
+  payload: { type: 'message', role, content: [{ type: role === 'user' ? 'input_text' : 'output_text', text }] }
+});
+
+// Resolves with the first update that satisfies the predicate
+function waitForUpdate(updates: Conversation[], predicate: (conversation: Conversation) => boolean): Promise<Conversation> {
+  return new Promise((resolve, reject) => {
+    const deadline = Date.now() + 5000;
+    const check = () => {
+      const found = updates.find(predicate);
+      if (found) resolve(found);
+      else if (Date.now() > deadline) reject(new Error('timed out waiting for tail update'));
+      else setTimeout(check, 20);
+    };
+    check();
+  });
+}
+
+describe('tailRollout', () => {
+  let dir: string;
+  let file: string;
+  let tail: RolloutTail | null = null;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'cdxresume-tail-'));
+    file = join(dir, 'rollout-live.jsonl');
+  });
+
+  afterEach(() => {
+    tail?.close();
+    tail = null;
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('parses the file and then appends new messages', async () => {
+    writeFileSync(file, meta + message('user', 'first'));
+    const updates: Conversation[] = [];
+    tail = tailRollout(file, (conversation) => updates.push(conversation));
+
+    const initial = await waitForUpdate(updates, c => c.messages.length === 1);
+    expect(initial.sessionId).toBe('live-1');
+
+    appendFileSync(file, message('assistant', 'second'));
+    const appended = await waitForUpdate(updates, c => c.messages.length === 2);
+    expect(appended.messages.map(m => m.type)).toEqual(['user', 'assistant']);
+    // Each update carries its own array so React sees the change
+    expect(appended.messages).not.toBe(initial.messages);
+  });
+
+  it('waits for a partially written line to be completed', async () => {
+    writeFileSync(file, meta + message('user', 'first'));
+    const updates: Conversation[] = [];
+    tail = tailRollout(file, (conversation) => updates.push(conversation));
+    await waitForUpdate(updates, c => c.messages.length === 1);
+
+    const next = message('assistant', 'second');
+    appendFileSync(file, next.slice(0, 20));
+    await new Promise(resolve => setTimeout(resolve, 100));
+    expect(updates.every(c => c.messages.length === 1)).toBe(true);
+
+    appendFileSync(file, next.slice(20));
+    await waitForUpdate(updates, c => c.messages.length === 2);
+  });
+
+  it('re-reads a file that was truncated', async () => {
+    writeFileSync(file, meta + message('user', 'first') + message('assistant', 'second'));
+    const updates: Conversation[] = [];
+    tail = tailRollout(file, (conversation) => updates.push(conversation));
+    await waitForUpdate(updates, c => c.messages.length === 2);
+
+    writeFileSync(file, meta + message('user', 'again'));
+    const rewritten = await waitForUpdate(updates, c => c.firstMessage === 'again');
+    expect(rewritten.messages).toHaveLength(1);
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, expect, it } from '@jest/globals';
+import type { Conversation } from '../types.js';
+import { formatSessionFilter, isEmptySessionFilter, matchesSessionFilter, parseSessionFilter } from '../utils/sessionFilter.js';
+
+const conversation: Conversation = {
+  sessionId: 's1',
+  projectPath: '/work/api',
+  projectName: 'acme/api',
+  gitBranch: 'main',
+  messages: [],
+  errorCount: 0,
+  models: ['gpt-5-codex'],
+  toolNames: ['shell', 'apply_patch'],
+  touchedFiles: ['src/db.ts', 'src/pool.ts'],
+  firstMessage: 'Fix the flaky pool test',
+  lastMessage: 'Thanks',
+  startTime: new Date(2025, 8, 10, 9, 0),
+  endTime: new Date(2025, 8, 10, 18, 0)
+};
+
+const matches = (query: string, overrides: Partial<Conversation> = {}) =>
+  matchesSessionFilter({ ...conversation, ...overrides }, parseSessionFilter(query).filter);
+
+describe('sessionFilter', () => {
+  it('parses keyed terms, quoted values and free text', () => {
+    const { filter, problems } = parseSessionFilter('repo:acme/api branch:main after:2025-09-01 before:2025-10-01 tool:apply_patch file:"src/my db.ts" model:gpt-5 has:error flaky "pool test"');
+    expect(problems).toEqual([]);
+    expect(filter).toEqual(expect.objectContaining({
+      repos: ['acme/api'],
+      branches: ['main'],
+      after: new Date(2025, 8, 1),
+      before: new Date(2025, 9, 1),
+      tools: ['apply_patch'],
+      files: ['src/my db.ts'],
+      models: ['gpt-5'],
+      hasError: true,
+      text: ['flaky', 'pool test']
+    }));
+  });
+
+  it('reports invalid terms and keeps the rest', () => {
+    const { filter, problems } = parseSessionFilter('after:yesterday before:2025-02-30 has:warnings repo: branch:main see:https://x');
+    expect(problems).toEqual([
+      'after: expects a date like 2025-09-01, got "yesterday"',
+      'before: expects a date like 2025-09-01, got "2025-02-30"',
+      'has: supports error, got "warnings"',
+      'repo: needs a value'
+    ]);
+    expect(filter.branches).toEqual(['main']);
+    expect(filter.text).toEqual(['see:https://x']);
+  });
+
+  it('formats the filter back into a canonical query', () => {
+    const { filter } = parseSessionFilter('  has:error  FLAKY tool:shell  repo:acme file:"a b.ts" ');
+    expect(formatSessionFilter(filter)).toBe('repo:acme tool:shell file:"a b.ts" has:error FLAKY');
+    expect(isEmptySessionFilter(parseSessionFilter('   ').filter)).toBe(true);
+  });
+
+  it('matches sessions on every term', () => {
+    expect(matches('repo:ACME/api branch:main tool:apply_patch file:db.ts model:gpt-5 flaky POOL')).toBe(true);
+    expect(matches('repo:work/api')).toBe(true);
+    expect(matches('branch:mai')).toBe(false);
+    expect(matches('tool:apply')).toBe(false);
+    expect(matches('file:src/cache.ts')).toBe(false);
+    expect(matches('model:o3')).toBe(false);
+    expect(matches('has:error')).toBe(false);
+    expect(matches('has:error', { errorCount: 2 })).toBe(true);
+    expect(matches('flaky unrelated')).toBe(false);
+  });
+
+  it('compares dates with the last activity, after inclusive and before exclusive', () => {
+    expect(matches('after:2025-09-10 before:2025-09-11')).toBe(true);
+    expect(matches('after:2025-09-11')).toBe(false);
+    expect(matches('before:2025-09-10')).toBe(false);
+  });
+});
@@ -0,0 +1,115 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { mkdtempSync, rmSync, writeFileSync, existsSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  getCacheDir,
+  getSessionIndexPath,
+  createSessionIndex,
+  loadSessionIndex,
+  saveSessionIndex,
+  clearSessionIndex,
+  lookupSessionIndex,
+  updateSessionIndex,
+  pruneSessionIndex
+} from '../utils/sessionIndex.js';
+import type { Conversation } from '../types.js';
+
+describe('sessionIndex', () => {
+  let cacheHome: string;
+
+  const conversation: Conversation = {
+    sessionId: 'abc',
+    sourcePath: '/sessions/2025/09/01/rollout-abc.jsonl',
+    projectPath: '/home/user/project',
+    projectName: 'owner/project',
+    gitBranch: 'main',
+    messages: [
+      {
+        sessionId: 'abc',
+        timestamp: '2025-09-01T10:00:00.000Z',
+        type: 'user',
+        message: { role: 'user', content: 'hello' },
+        cwd: '/home/user/project'
+      }
+    ],
+    firstMessage: 'hello',
+    lastMessage: 'hello',
+    startTime: new Date('2025-09-01T10:00:00.000Z'),
+    endTime: new Date('2025-09-01T10:30:00.000Z')
+  };
+  const stamp = { size: 120, mtimeMs: 1756722600000 };
+
+  beforeEach(() => {
+    cacheHome = mkdtempSync(join(tmpdir(), 'cdxresume-cache-'));
+    process.env.XDG_CACHE_HOME = cacheHome;
+  });
+
+  afterEach(() => {
+    delete process.env.XDG_CACHE_HOME;
+    rmSync(cacheHome, { recursive: true, force: true });
+  });
+
+  it('places the index under XDG_CACHE_HOME', () => {
+    expect(getCacheDir()).toBe(join(cacheHome, 'cdxresume'));
+    expect(getSessionIndexPath()).toBe(join(cacheHome, 'cdxresume', 'session-index.json'));
+  });
+
+  it('round-trips list metadata without messages', async () => {
+    const index = createSessionIndex();
+    updateSessionIndex(index, conversation.sourcePath!, stamp, 'rollout-v1', conversation);
+    await saveSessionIndex(index);
+
+    const loaded = await loadSessionIndex();
+    const hit = lookupSessionIndex(loaded, conversation.sourcePath!, stamp);
+    expect(hit?.format).toBe('rollout-v1');
+    expect(hit?.conversation?.sessionId).toBe('abc');
+    expect(hit?.conversation?.messages).toEqual([]);
+    expect(hit?.conversation?.startTime).toEqual(conversation.startTime);
+    expect(hit?.conversation?.endTime).toEqual(conversation.endTime);
+  });
+
+  it('misses when size or mtime changed', () => {
+    const index = createSessionIndex();
+    updateSessionIndex(index, conversation.sourcePath!, stamp, 'rollout-v1', conversation);
+    expect(lookupSessionIndex(index, conversation.sourcePath!, { ...stamp, size: 121 })).toBeUndefined();
+    expect(lookupSessionIndex(index, conversation.sourcePath!, { ...stamp, mtimeMs: stamp.mtimeMs + 1 })).toBeUndefined();
+  });
+
+  it('remembers files that produced no conversation', () => {
+    const index = createSessionIndex();
+    updateSessionIndex(index, '/sessions/empty.jsonl', stamp, 'legacy', null);
+    expect(lookupSessionIndex(index, '/sessions/empty.jsonl', stamp)).toEqual({ format: 'legacy', conversation: null });
+  });
+
+  it('prunes entries for files that no longer exist', () => {
+    const index = createSessionIndex();
+    updateSessionIndex(index, '/a.jsonl', stamp, 'rollout-v1', conversation);
+    updateSessionIndex(index, '/b.jsonl', stamp, 'rollout-v1', conversation);
+    pruneSessionIndex(index, new Set(['/a.jsonl']));
+    expect([...index.entries.keys()]).toEqual(['/a.jsonl']);
+  });
+
+  it('starts empty when the index file is corrupt or from another version', async () => {
+    const index = createSessionIndex();
+    updateSessionIndex(index, '/a.jsonl', stamp, 'rollout-v1', conversation);
+    await saveSessionIndex(index);
+
+    writeFileSync(getSessionIndexPath(), '{not json');
+    expect((await loadSessionIndex()).entries.size).toBe(0);
+
+    writeFileSync(getSessionIndexPath(), JSON.stringify({ version: 0, entries: {} }));
+    expect((await loadSessionIndex()).entries.size).toBe(0);
+  });
+
+  it('clears the index on rebuild', async () => {
+    const index = createSessionIndex();
+    updateSessionIndex(index, '/a.jsonl', stamp, 'rollout-v1', conversation);
+    await saveSessionIndex(index);
+    expect(existsSync(getSessionIndexPath())).toBe(true);
+
+    await clearSessionIndex();
+    expect(existsSync(getSessionIndexPath())).toBe(false);
+    expect((await loadSessionIndex()).entries.size).toBe(0);
+  });
+});
@@ -0,0 +1,38 @@
+import { afterEach, describe, expect, it, jest } from '@jest/globals';
+import * as realOs from 'os';
+
+jest.unstable_mockModule('os', () => ({
+  ...realOs,
+  homedir: () => '/home/user'
+}));
+
+const { getCodexHome, getDefaultSessionsRoot, resolveSessionRoots } = await import('../utils/sessionRoots.js');
+
+describe('sessionRoots', () => {
+  const originalCodexHome = process.env.CODEX_HOME;
+
+  afterEach(() => {
+    if (originalCodexHome === undefined) delete process.env.CODEX_HOME;
+    else process.env.CODEX_HOME = originalCodexHome;
+  });
+
+  it('defaults to ~/.codex/sessions', () => {
+    delete process.env.CODEX_HOME;
+    expect(getCodexHome()).toBe('/home/user/.codex');
+    expect(getDefaultSessionsRoot()).toBe('/home/user/.codex/sessions');
+  });
+
+  it('honors CODEX_HOME', () => {
+    process.env.CODEX_HOME = '~/work/codex';
+    expect(getDefaultSessionsRoot()).toBe('/home/user/work/codex/sessions');
+  });
+
+  it('merges config and command line roots after the default root without duplicates', () => {
+    process.env.CODEX_HOME = '/srv/codex';
+    expect(resolveSessionRoots(['~/archive', '/srv/codex/sessions'], ['/mnt/disk/sessions/', '~/archive'])).toEqual([
+      '/srv/codex/sessions',
+      '/home/user/archive',
+      '/mnt/disk/sessions'
+    ]);
+  });
+});
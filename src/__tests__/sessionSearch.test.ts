@@ -0,0 +1,62 @@
+import { afterAll, describe, expect, it } from '@jest/globals';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { Message } from '../types.js';
+import { highlightSegments, messageSearchText, searchSessions, snippetAround } from '../utils/sessionSearch.js';
+import { say, writeRollout } from './helpers/rollouts.js';
+
+const root = mkdtempSync(join(tmpdir(), 'cdxresume-search-'));
+
+describe('sessionSearch', () => {
+  afterAll(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('finds sessions by message text, commands and patched files', async () => {
+    const patch = '*** Begin Patch\n*** Update File: src/a.ts\n*** Add File: src/server/socket.ts\n*** End Patch';
+    writeRollout(root, { id: 'text', cwd: '/work/api', items: [say('user', 'Why does the Socket drop?'), say('assistant', 'Let me check'), say('user', 'socket again')] });
+    writeRollout(root, { id: 'patch', cwd: '/work/web', items: [say('user', 'Refactor'), { type: 'function_call', name: 'shell', arguments: JSON.stringify({ command: ['apply_patch', patch] }), call_id: 'c1' }] });
+    writeRollout(root, { id: 'none', cwd: '/work/api', items: [say('user', 'Unrelated')] });
+
+    const hits = await searchSessions('socket', { roots: [root] });
+    const byId = new Map(hits.map(hit => [hit.conversation.sessionId, hit]));
+
+    expect([...byId.keys()].sort()).toEqual(['patch', 'text']);
+    expect(byId.get('text')).toEqual(expect.objectContaining({ messageId: 'rollout-2025-09-20T08-00-00-text:2', snippet: 'Why does the Socket drop?', matchCount: 2 }));
+    expect(byId.get('patch')?.messageId).toBe('rollout-2025-09-20T08-00-00-patch:3');
+    expect(byId.get('text')?.conversation.messages).toEqual([]);
+
+    expect(await searchSessions('socket', { roots: [root], directoryScope: { mode: 'exact', path: '/work/web' } })).toHaveLength(1);
+    expect(await searchSessions('   ', { roots: [root] })).toEqual([]);
+  });
+
+  it('searches every file named by apply_patch', () => {
+    const message: Message = {
+      sessionId: 's',
+      timestamp: '2025-09-20T08:00:00.000Z',
+      type: 'assistant',
+      cwd: '/work',
+      message: { role: 'assistant', content: [{ type: 'tool_use', name: 'shell', input: { command: ['apply_patch', '*** Update File: a.ts\n*** Update File: b.ts\n*** Update File: c.ts\n*** Delete File: d.ts\n*** Update File: e.ts\n*** Move to: f.ts'] } }] }
+    };
+    expect(messageSearchText(message)).toContain('d.ts\ne.ts\nf.ts');
+  });
+
+  it('cuts snippets around the first match', () => {
+    const text = `${'a'.repeat(100)}\nneedle here${'b'.repeat(100)}`;
+    const snippet = snippetAround(text, 'NEEDLE', 40);
+    expect(snippet).toHaveLength(42);
+    expect(snippet.startsWith('…')).toBe(true);
+    expect(snippet.indexOf('needle')).toBe(11);
+    expect(snippetAround('short text', 'text', 40)).toBe('short text');
+  });
+
+  it('splits text into matching and non-matching runs', () => {
+    expect(highlightSegments('Socket and socket', 'SOCKET')).toEqual([
+      { text: 'Socket', match: true },
+      { text: ' and ', match: false },
+      { text: 'socket', match: true }
+    ]);
+    expect(highlightSegments('plain', undefined)).toEqual([{ text: 'plain', match: false }]);
+  });
+});
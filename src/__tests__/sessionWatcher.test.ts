@@ -0,0 +1,76 @@
+import { afterEach, beforeEach, describe, expect, it } from '@jest/globals';
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync, appendFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { watchSessions, type SessionWatcher } from '../utils/sessionWatcher.js';
+
+function nextChange(root: string, start: () => void): { watcher: SessionWatcher; changed: Promise<string[]> } {
+  let watcher!: SessionWatcher;
+  const changed = new Promise<string[]>((resolve) => {
+    watcher = watchSessions(root, resolve, { debounceMs: 50 });
+  });
+  start();
+  return { watcher, changed };
+}
+
+function waitFor(condition: () => boolean): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const deadline = Date.now() + 5000;
+    const check = () => {
+      if (condition()) resolve();
+      else if (Date.now() > deadline) reject(new Error('timed out waiting for the watcher'));
+      else setTimeout(check, 20);
+    };
+    check();
+  });
+}
+
+describe('watchSessions', () => {
+  let root: string;
+  let watcher: SessionWatcher | null = null;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'cdxresume-watch-'));
+    mkdirSync(join(root, '2025', '09', '20'), { recursive: true });
+  });
+
+  afterEach(() => {
+    watcher?.close();
+    watcher = null;
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  it('reports new and appended rollout files in nested day directories', async () => {
+    const file = join(root, '2025', '09', '20', 'rollout-a.jsonl');
+    const result = nextChange(root, () => {
+      writeFileSync(file, '{"type":"session_meta"}\n');
+      appendFileSync(file, '{"type":"response_item"}\n');
+    });
+    watcher = result.watcher;
+    await expect(result.changed).resolves.toEqual([file]);
+  });
+
+  it('ignores files that are not rollouts', async () => {
+    const file = join(root, '2025', '09', '20', 'rollout-b.jsonl');
+    const result = nextChange(root, () => {
+      writeFileSync(join(root, 'notes.txt'), 'x');
+      writeFileSync(file, '{}\n');
+    });
+    watcher = result.watcher;
+    await expect(result.changed).resolves.toEqual([file]);
+  });
+
+  it('starts watching a root that did not exist yet once it is created', async () => {
+    const late = join(root, 'late');
+    const changes: string[][] = [];
+    watcher = watchSessions(late, paths => changes.push(paths), { debounceMs: 50, retryMs: 50 });
+    mkdirSync(join(late, '2025'), { recursive: true });
+    await waitFor(() => changes.length === 1);
+    expect(changes[0]).toEqual([]);
+
+    const file = join(late, '2025', 'rollout-b.jsonl');
+    writeFileSync(file, '{"type":"session_meta"}\n');
+    await waitFor(() => changes.length === 2);
+    expect(changes[1]).toEqual([file]);
+  });
+});
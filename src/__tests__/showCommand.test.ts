@@ -0,0 +1,71 @@
+import { afterAll, describe, expect, it } from '@jest/globals';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { Conversation } from '../types.js';
+import { findSession, renderTranscript } from '../utils/showCommand.js';
+import { say, writeRollout } from './helpers/rollouts.js';
+
+const base = mkdtempSync(join(tmpdir(), 'cdxresume-show-'));
+const root = join(base, 'sessions');
+const patch = '*** Begin Patch\n*** Update File: src/a.ts\n@@\n-old\n+new\n*** End Patch';
+
+async function lookup(target: string): Promise<Conversation> {
+  const result = await findSession(target, [root]);
+  if ('error' in result) throw new Error(result.error);
+  return result.conversation;
+}
+
+describe('showCommand', () => {
+  process.env.XDG_CACHE_HOME = join(base, 'cache');
+  const git = { branch: 'main' };
+  const patchPath = writeRollout(root, { id: 'bbbb2222-0003', git, items: [
+    say('user', 'Rename the flag'),
+    { type: 'reasoning', summary: [{ type: 'summary_text', text: 'Look at the parser' }] },
+    { type: 'function_call', name: 'shell', arguments: JSON.stringify({ command: ['apply_patch', patch] }), call_id: 'c1' },
+    say('assistant', 'Done')
+  ] });
+  writeRollout(root, { id: 'aaaa1111-0001', git, items: [say('user', 'First')] });
+  writeRollout(root, { id: 'aaaa1111-0002', git, items: [say('user', 'Second')] });
+
+  afterAll(() => {
+    delete process.env.XDG_CACHE_HOME;
+    rmSync(base, { recursive: true, force: true });
+  });
+
+  it('finds a session by id, id prefix or rollout path', async () => {
+    expect((await lookup('aaaa1111-0002')).firstMessage).toBe('Second');
+    expect((await lookup('BBBB')).sessionId).toBe('bbbb2222-0003');
+    const byPath = await lookup(patchPath);
+    expect(byPath.sessionId).toBe('bbbb2222-0003');
+    expect(byPath.messages.length).toBeGreaterThan(0);
+  });
+
+  it('reports unknown and ambiguous targets', async () => {
+    expect(await findSession('cccc', [root])).toEqual({ error: "No session matches 'cccc'" });
+    expect(await findSession('aaaa1111', [root])).toEqual({ error: expect.stringMatching(/^'aaaa1111' matches 2 sessions: aaaa1111-000[12], aaaa1111-000[12]$/) });
+  });
+
+  it('renders the transcript as the full view does, without color when piped', async () => {
+    const text = renderTranscript(await lookup('bbbb2222'), { hideOptions: [], color: false });
+    expect(text).not.toContain('\x1b[');
+    expect(text).toMatch(/^Session bbbb2222-0003\n\/work\/api \| main \| 2025-09-20/);
+    expect(text).toMatch(/\[User\] \(\d\d:\d\d:\d\d\)\n {2}Rename the flag\n/);
+    expect(text).toContain('  [Thinking...]\n  Look at the parser');
+    expect(text).toContain('  [Tool: apply_patch]\n\n  *** Begin Patch\n  *** Update File: src/a.ts\n  @@\n  -old\n  +new\n  *** End Patch');
+    expect(text).toContain('  Done');
+  });
+
+  it('colors labels and patch lines, and honors hide options', async () => {
+    const conversation = await lookup('bbbb2222');
+    const colored = renderTranscript(conversation, { hideOptions: [], color: true });
+    expect(colored).toContain('\x1b[1;36m[User]\x1b[0m');
+    expect(colored).toContain('  \x1b[32m+new\x1b[0m');
+    expect(colored).toContain('  \x1b[31m-old\x1b[0m');
+
+    const hidden = renderTranscript(conversation, { hideOptions: ['tool', 'thinking'], color: false });
+    expect(hidden).not.toContain('apply_patch');
+    expect(hidden).not.toContain('Look at the parser');
+    expect(hidden).toContain('Rename the flag');
+  });
+});
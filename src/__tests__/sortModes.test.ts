@@ -0,0 +1,63 @@
+import { describe, expect, it } from '@jest/globals';
+import type { Conversation } from '../types.js';
+import { compareConversations, isSortMode, nextSortMode, SORT_MODES } from '../utils/sortModes.js';
+
+function conversation(sessionId: string, overrides: Partial<Conversation>): Conversation {
+  return {
+    sessionId,
+    projectPath: '/work/api',
+    projectName: '-',
+    gitBranch: 'main',
+    messages: [],
+    firstMessage: '',
+    lastMessage: '',
+    startTime: new Date('2025-09-01T08:00:00Z'),
+    endTime: new Date('2025-09-01T09:00:00Z'),
+    ...overrides
+  };
+}
+
+const sortIds = (conversations: Conversation[], compare: (a: Conversation, b: Conversation) => number) =>
+  [...conversations].sort(compare).map(c => c.sessionId);
+
+describe('sortModes', () => {
+  const quick = conversation('quick', {
+    startTime: new Date('2025-09-03T08:00:00Z'),
+    endTime: new Date('2025-09-03T08:05:00Z'),
+    messageCount: 2,
+    projectPath: '/work/web'
+  });
+  const long = conversation('long', {
+    startTime: new Date('2025-09-01T08:00:00Z'),
+    endTime: new Date('2025-09-02T08:00:00Z'),
+    messageCount: 40,
+    projectPath: '/work/Billing'
+  });
+  const recent = conversation('recent', {
+    startTime: new Date('2025-09-02T08:00:00Z'),
+    endTime: new Date('2025-09-04T08:00:00Z'),
+    messageCount: 10,
+    projectPath: '/work/api'
+  });
+  const all = [quick, long, recent];
+
+  it('orders by each mode, falling back to last activity on ties', () => {
+    expect(sortIds(all, compareConversations('lastActivity'))).toEqual(['recent', 'quick', 'long']);
+    expect(sortIds(all, compareConversations('startTime'))).toEqual(['quick', 'recent', 'long']);
+    expect(sortIds(all, compareConversations('project'))).toEqual(['recent', 'long', 'quick']);
+    expect(sortIds(all, compareConversations('messageCount'))).toEqual(['long', 'recent', 'quick']);
+    expect(sortIds(all, compareConversations('duration'))).toEqual(['recent', 'long', 'quick']);
+    expect(sortIds(all, compareConversations('mostResumed', new Map([['long', 3], ['quick', 1]])))).toEqual(['long', 'quick', 'recent']);
+    expect(sortIds(all, compareConversations('mostResumed'))).toEqual(['recent', 'quick', 'long']);
+  });
+
+  it('cycles through every mode and validates names', () => {
+    let mode = SORT_MODES[0];
+    const seen = new Set([mode]);
+    for (let i = 0; i < SORT_MODES.length - 1; i++) seen.add(mode = nextSortMode(mode));
+    expect(seen.size).toBe(SORT_MODES.length);
+    expect(nextSortMode(mode)).toBe(SORT_MODES[0]);
+    expect(isSortMode('duration')).toBe(true);
+    expect(isSortMode('alphabetical')).toBe(false);
+  });
+});
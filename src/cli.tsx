@@ -1,21 +1,73 @@
 #!/usr/bin/env node
 import React from 'react';
 import { render } from 'ink';
-import { readFileSync } from 'fs';
+import { readFileSync, writeFileSync } from 'fs';
 import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
 import App from './App.js';
+import { clearSessionIndex } from './utils/sessionIndex.js';
+import { resolveSessionRoots } from './utils/sessionRoots.js';
+import { loadConfig } from './utils/configLoader.js';
+import { collectDoctorReport, formatDoctorReport } from './utils/doctor.js';
+import { DIRECTORY_SCOPE_MODES, isDirectoryScopeMode, resolveDirectoryScope, type DirectoryScopeMode } from './utils/directoryScope.js';
+import { collectListEntries, formatListEntries, parseListArgs } from './utils/listCommand.js';
+import { findSession, pageOutput, renderTranscript } from './utils/showCommand.js';
+import { exportConversation, parseExportArgs } from './utils/exportCommand.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 
+// Exiting right after a write can cut long output short when stdout is a pipe, so subcommands
+// wait for their output to be flushed before calling process.exit
+function writeStdout(text: string): Promise<void> {
+  return new Promise(resolve => process.stdout.write(text, () => resolve()));
+}
+
+function readPackageVersion(): string {
+  const packageJson = JSON.parse(readFileSync(join(__dirname, '..', 'package.json'), 'utf-8'));
+  return packageJson.version;
+}
+
 // Get command line arguments (excluding node and script path)
-const args = process.argv.slice(2);
+const rawArgs = process.argv.slice(2);
+
+// Parse --sessions-dir (repeatable) first so a '.' value is not taken as the directory filter
+const sessionDirs: string[] = [];
+const args: string[] = [];
+for (let i = 0; i < rawArgs.length; i++) {
+  const arg = rawArgs[i];
+  if (arg === '--sessions-dir' && i + 1 < rawArgs.length) {
+    sessionDirs.push(rawArgs[++i]);
+  } else if (arg.startsWith('--sessions-dir=')) {
+    sessionDirs.push(arg.slice('--sessions-dir='.length));
+  } else {
+    args.push(arg);
+  }
+}
 
 // Check if '.' is present as a standalone argument - indicates current directory filtering
-const currentDirOnly = args.includes('.');
+let currentDirOnly = args.includes('.');
 let filteredArgs = args.filter(arg => arg !== '.');
 
+// Parse --scope <exact|descendants|repo> - how '.' matches directories; implies '.'
+let directoryScopeMode: DirectoryScopeMode | undefined;
+const scopeIndex = filteredArgs.findIndex(arg => arg === '--scope' || arg.startsWith('--scope='));
+if (scopeIndex !== -1) {
+  const scopeArg = filteredArgs[scopeIndex];
+  const value = scopeArg === '--scope' ? filteredArgs[scopeIndex + 1] : scopeArg.slice('--scope='.length);
+  if (!isDirectoryScopeMode(value)) {
+    console.error(`--scope expects one of ${DIRECTORY_SCOPE_MODES.join(', ')}${value ? `, got '${value}'` : ''}`);
+    process.exit(1);
+  }
+  directoryScopeMode = value;
+  currentDirOnly = true;
+  filteredArgs.splice(scopeIndex, scopeArg === '--scope' ? 2 : 1);
+}
+
+// Check for --rebuild-index - discards the cached session index before loading
+const rebuildIndex = filteredArgs.includes('--rebuild-index');
+filteredArgs = filteredArgs.filter(arg => arg !== '--rebuild-index');
+
 // Parse --hide option
 let hideOptions: string[] = [];
 const hideIndex = filteredArgs.findIndex(arg => arg === '--hide');
@@ -57,11 +109,50 @@ if (filteredArgs.includes('--help') || filteredArgs.includes('-h')) {
   console.log(`cdxresume - TUI for browsing Codex CLI conversations
 
 Usage: cdxresume [.] [options]
+       cdxresume list [.] [list options]
+       cdxresume show <session> [--pager] [--hide [types...]]
+       cdxresume export <session> [export options] [--hide [types...]]
+       cdxresume doctor [--sessions-dir <dir>]
+
+Commands:
+  list                 Print sessions without the TUI, most recent first
+  show <session>       Print one transcript; <session> is a session id, the start
+                       of one, or a rollout file path. --pager opens it in $PAGER
+  export <session>     Write one transcript as Markdown, HTML or JSON
+  doctor               Report Codex version and support, session roots, rollout
+                       formats, files that fail to parse, hidden sessions and
+                       config problems (attach the output to bug reports)
+
+List options:
+  --json | --tsv       Output format (default: a table)
+  --after <day>        Last activity on or after YYYY-MM-DD
+  --before <day>       Last activity before YYYY-MM-DD
+  --repo <text>        Repository or project path contains <text> (repeatable)
+  --branch <name>      Branch is <name> (repeatable)
+  --filter <query>     Filter query as in the TUI, e.g. "tool:apply_patch has:error"
+  --sort <mode>        lastActivity, startTime, project, messageCount, duration
+                       or mostResumed
+  --limit <n>          Print at most <n> sessions
+
+Export options:
+  --format <format>    markdown (default), html or json; --markdown, --html and
+                       --json are shorthands. Without one, the extension of
+                       --output picks the format
+  -o, --output <file>  Write to <file> instead of stdout
+                       JSON follows the schema in docs/export-schema.md
 
 Options:
   .                    Filter conversations to current directory only
+  --scope <mode>       How '.' matches directories (implies '.'):
+                       exact        sessions started in the current directory
+                       descendants  ...or in any directory below it
+                       repo         ...or anywhere in its git repository
+                       Default: [list] directoryScope in config, else exact
   --hide [types...]    Hide specific message types (tool, thinking, user, assistant)
                        Default: tool thinking (when no types specified)
+  --rebuild-index      Discard the cached session index and re-read all sessions
+  --sessions-dir <dir> Also read sessions from <dir> (repeatable); merged with
+                       $CODEX_HOME/sessions (default ~/.codex/sessions)
   -h, --help           Show this help message
   -v, --version        Show version number
 
@@ -75,16 +166,35 @@ Keyboard Controls:
   n             Start new session in selected directory
   -             Edit codex options
   c             Copy resume target
+  t             Follow selected session live
+  r             Show/hide reasoning summaries
+  Space         Expand/collapse resume thread
+  /             Search all sessions
+  s             Fuzzy-filter sessions as you type
+  F             Filter sessions (repo: branch: after: before: tool: file: model: has:error)
+  o             Cycle sort order (saved in config)
+  P             Group sessions by project (Enter opens, Space expands)
+  e             Export selected conversation (then m, h or j for the format)
   q             Quit
 
 Examples:
   cdxresume
   cdxresume .
   cdxresume . --some-codex-flag
+  cdxresume --scope repo
   cdxresume --some-codex-flag
+  cdxresume --sessions-dir /mnt/archive/codex-sessions
+  cdxresume list . --after 2025-09-01 --json
+  cdxresume list --repo acme/api --branch main --limit 20 --tsv
+  cdxresume show 0199a2b3 --hide tool thinking --pager
+  cdxresume export 0199a2b3 -o session.html
+  cdxresume export 0199a2b3 --json > session.json
+  cdxresume doctor
 
 Configuration:
   Key bindings can be customized in: ~/.config/cdxresume/config.toml
+  Extra sessions roots can be listed there under [sessions] roots = [...]
+  The default '.' scope can be set there under [list] directoryScope = "repo"
   See example: https://github.com/sasazame/cdxresume/blob/develop/config.toml.example
   
   Note: When new features are added that conflict with your custom key bindings,
@@ -98,12 +208,86 @@ For more info: https://github.com/sasazame/cdxresume`);
 
 // Handle --version
 if (filteredArgs.includes('--version') || filteredArgs.includes('-v')) {
-  const packageJson = JSON.parse(readFileSync(join(__dirname, '..', 'package.json'), 'utf-8'));
-  console.log(packageJson.version);
+  console.log(readPackageVersion());
   process.exit(0);
 }
 
 const codexArgs = filteredArgs;
+const sessionRoots = resolveSessionRoots(loadConfig().sessions.roots, sessionDirs);
+
+if (filteredArgs[0] === 'doctor') {
+  const report = await collectDoctorReport({ roots: sessionRoots, cdxresumeVersion: readPackageVersion() });
+  await writeStdout(`${formatDoctorReport(report)}\n`);
+  process.exit(0);
+}
+
+if (rebuildIndex) {
+  await clearSessionIndex();
+}
+
+if (filteredArgs[0] === 'list') {
+  const { options, problems } = parseListArgs(filteredArgs.slice(1));
+  if (problems.length > 0) {
+    problems.forEach(problem => console.error(problem));
+    process.exit(1);
+  }
+  const directoryScope = currentDirOnly
+    ? resolveDirectoryScope(process.cwd(), directoryScopeMode ?? loadConfig().list.directoryScope)
+    : undefined;
+  const entries = await collectListEntries(options, { directoryScope, roots: sessionRoots });
+  await writeStdout(`${formatListEntries(entries, options.format, process.stdout.isTTY ? process.stdout.columns : undefined)}\n`);
+  process.exit(0);
+}
+
+if (filteredArgs[0] === 'show') {
+  const showArgs = filteredArgs.slice(1);
+  const usePager = showArgs.includes('--pager');
+  const unknown = showArgs.filter(arg => arg.startsWith('-') && arg !== '--pager');
+  const targets = showArgs.filter(arg => !arg.startsWith('-'));
+  if (unknown.length > 0 || targets.length !== 1) {
+    unknown.forEach(arg => console.error(`Unknown option '${arg}'`));
+    if (targets.length !== 1) console.error('show expects one session id, id prefix or rollout file path');
+    process.exit(1);
+  }
+  const lookup = await findSession(targets[0], sessionRoots);
+  if ('error' in lookup) {
+    console.error(lookup.error);
+    process.exit(1);
+  }
+  const color = Boolean(process.stdout.isTTY) && !process.env.NO_COLOR;
+  const transcript = renderTranscript(lookup.conversation, { hideOptions, color });
+  if (usePager && process.stdout.isTTY) {
+    process.exit(await pageOutput(transcript));
+  }
+  await writeStdout(`${transcript}\n`);
+  process.exit(0);
+}
+
+if (filteredArgs[0] === 'export') {
+  const { options, problems } = parseExportArgs(filteredArgs.slice(1));
+  if (problems.length > 0) {
+    problems.forEach(problem => console.error(problem));
+    process.exit(1);
+  }
+  const lookup = await findSession(options.target, sessionRoots);
+  if ('error' in lookup) {
+    console.error(lookup.error);
+    process.exit(1);
+  }
+  const output = exportConversation(lookup.conversation, options.format, hideOptions);
+  if (options.output) {
+    try {
+      writeFileSync(options.output, output, 'utf-8');
+    } catch (err) {
+      console.error(`Cannot write ${options.output}: ${err instanceof Error ? err.message : String(err)}`);
+      process.exit(1);
+    }
+    console.error(`Exported ${lookup.conversation.sessionId} to ${options.output}`);
+  } else {
+    await writeStdout(output);
+  }
+  process.exit(0);
+}
 
 // Show Windows-specific notice at startup with pause
 if (process.platform === 'win32') {
@@ -126,7 +310,7 @@ if (process.platform === 'win32') {
 }
 
 // Render the app in fullscreen mode
-const { unmount } = render(<App codexArgs={codexArgs} currentDirOnly={currentDirOnly} hideOptions={hideOptions} />, {
+const { unmount } = render(<App codexArgs={codexArgs} currentDirOnly={currentDirOnly} directoryScopeMode={directoryScopeMode} hideOptions={hideOptions} sessionRoots={sessionRoots} />, {
   exitOnCtrlC: true
 });
 
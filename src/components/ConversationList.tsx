@@ -5,65 +5,108 @@ import type { Conversation } from '../types.js';
 import { generateConversationSummary, formatProjectPath } from '../utils/conversationUtils.js';
 import { getStringDisplayLength } from '../utils/stringUtils.js';
 import { strictTruncateByWidth } from '../utils/strictTruncate.js';
+import { flattenThreads, threadKey } from '../utils/resumeChains.js';
+import { flattenProjectTree, type ProjectGroup } from '../utils/projectGroups.js';
+import { HighlightedText } from './HighlightedText.js';
 
 interface ConversationListProps {
   conversations: Conversation[];
   selectedIndex: number;
   maxVisible?: number;
   isLoading?: boolean;
+  // Keys (see threadKey) of the resume threads whose earlier sessions are listed
+  expandedThreads?: ReadonlySet<string>;
+  // Search results: text shown instead of the summary (by threadKey), and the query to mark in it
+  snippets?: ReadonlyMap<string, string>;
+  highlight?: string;
+  // Fuzzy filter: matched character indices in the summary and the displayed path, by threadKey
+  fuzzyMatches?: ReadonlyMap<string, { summary: number[]; path: number[] }>;
+  // Project view: these groups are listed instead of `conversations`, with the sessions of the
+  // projects in `expandedProjects` (by path) below them; selectedIndex counts tree rows
+  projectGroups?: ProjectGroup[];
+  expandedProjects?: ReadonlySet<string>;
+}
+
+const NO_EXPANDED_THREADS: ReadonlySet<string> = new Set();
+const NO_EXPANDED_PROJECTS: ReadonlySet<string> = new Set();
+
+// Rows to show so that the selected one stays in view, roughly centered
+function scrollWindow(rowCount: number, selectedIndex: number, maxVisible: number): { selected: number; start: number; end: number } {
+  const selected = Math.max(0, Math.min(selectedIndex, rowCount - 1));
+  let start = 0;
+  let end = rowCount;
+  if (rowCount > maxVisible) {
+    const halfWindow = Math.floor(maxVisible / 2);
+    start = Math.max(0, selected - halfWindow);
+    end = Math.min(rowCount, start + maxVisible);
+    // Adjust if we're at the end
+    if (end === rowCount) start = Math.max(0, end - maxVisible);
+  }
+  return { selected, start, end };
 }
 
 export const ConversationList: React.FC<ConversationListProps> = ({ 
   conversations, 
   selectedIndex,
   maxVisible = 3,
-  isLoading = false
+  isLoading = false,
+  expandedThreads = NO_EXPANDED_THREADS,
+  snippets,
+  highlight,
+  fuzzyMatches,
+  projectGroups,
+  expandedProjects = NO_EXPANDED_PROJECTS
 }) => {
   const { stdout } = useStdout();
   const terminalWidth = stdout?.columns || 80;
-  
-  // Calculate visible range with bounds checking
-  const safeSelectedIndex = Math.max(0, Math.min(selectedIndex, conversations.length - 1));
-  
-  // Calculate scroll window
-  let startIndex = 0;
-  let endIndex = conversations.length;
-  
-  if (conversations.length > maxVisible) {
-    const halfWindow = Math.floor(maxVisible / 2);
-    startIndex = Math.max(0, safeSelectedIndex - halfWindow);
-    endIndex = Math.min(conversations.length, startIndex + maxVisible);
-    
-    // Adjust if we're at the end
-    if (endIndex === conversations.length) {
-      startIndex = Math.max(0, endIndex - maxVisible);
-    }
+  if (projectGroups) {
+    return (
+      <ProjectTree
+        groups={projectGroups}
+        expanded={expandedProjects}
+        selectedIndex={selectedIndex}
+        maxVisible={maxVisible}
+        isLoading={isLoading}
+        terminalWidth={terminalWidth}
+      />
+    );
   }
+  // selectedIndex counts rows, including the earlier sessions of expanded threads
+  const rows = flattenThreads(conversations, expandedThreads);
+  const { selected: safeSelectedIndex, start: startIndex, end: endIndex } = scrollWindow(rows.length, selectedIndex, maxVisible);
   
-  const visibleConversations = conversations.slice(startIndex, endIndex);
-  const hasMoreBelow = endIndex < conversations.length;
+  const visibleRows = rows.slice(startIndex, endIndex);
+  const hasMoreBelow = endIndex < rows.length;
 
   return (
     <Box flexDirection="column" borderStyle="single" borderColor="cyan" paddingX={1} width="100%" overflow="hidden">
-      <Text bold color="cyan">{isLoading ? 'Loading conversations...' : `Select a conversation${conversations.length > 0 ? ` (${conversations.length} shown)` : ''}:`}</Text>
+      <Text bold color="cyan">
+        {isLoading
+          ? 'Loading conversations...'
+          : highlight
+            ? `Sessions matching "${highlight}" (${conversations.length}):`
+            : `Select a conversation${conversations.length > 0 ? ` (${conversations.length} shown)` : ''}:`}
+      </Text>
       
-      {isLoading ? (
+      {isLoading && conversations.length === 0 ? (
         <Box flexDirection="column" height={maxVisible}>
         </Box>
       ) : conversations.length === 0 ? (
         <Text color="gray">No conversations found</Text>
       ) : (
-        visibleConversations.map((conv, visibleIndex) => {
+        visibleRows.map(({ conversation: conv, depth, threadSize, expanded }, visibleIndex) => {
           const actualIndex = startIndex + visibleIndex;
           const isSelected = actualIndex === safeSelectedIndex;
           
-          const summary = generateConversationSummary(conv);
+          const summary = snippets?.get(threadKey(conv)) ?? generateConversationSummary(conv);
           const projectPath = formatProjectPath(conv.projectPath);
           
           // Calculate the fixed part length
           const selector = isSelected ? '▶ ' : '  ';
+          // Resume threads: ▸N collapsed / ▾N expanded on the newest session, ↳ on earlier ones
+          const threadMarker = depth > 0 ? '  ↳ ' : threadSize > 1 ? `${expanded ? '▾' : '▸'}${threadSize} ` : '';
           const dateStr = format(conv.endTime, 'MMM dd HH:mm');
-          const fixedPart = `${selector}${dateStr} | ${projectPath}`;
+          const fixedPart = `${selector}${threadMarker}${dateStr} | ${projectPath}`;
           const fixedPartLength = getStringDisplayLength(fixedPart);
           
           // Calculate available space for summary (with separator)
@@ -81,15 +124,30 @@ export const ConversationList: React.FC<ConversationListProps> = ({
           // Final safety check: ensure the entire line fits
           const maxLineWidth = terminalWidth - totalMargin;
           const safeLine = strictTruncateByWidth(fullLine, maxLineWidth);
+          // Only the summary part is searched, so only it is marked
+          const summaryStart = `${fixedPart}${separator}`.length;
+          const fuzzyMatch = fuzzyMatches?.get(threadKey(conv));
+          const pathStart = `${selector}${threadMarker}${dateStr} | `.length;
+          const fuzzyPositions = fuzzyMatch && new Set([
+            ...fuzzyMatch.path.map(index => pathStart + index),
+            ...fuzzyMatch.summary.map(index => summaryStart + index)
+          ]);
           
           return (
-            <Box key={conv.sessionId} width="100%" overflow="hidden">
+            <Box key={threadKey(conv)} width="100%" overflow="hidden">
               <Text
-                color={isSelected ? 'black' : 'white'}
+                color={isSelected ? 'black' : depth > 0 ? 'gray' : 'white'}
                 backgroundColor={isSelected ? 'cyan' : undefined}
                 bold={isSelected}
               >
-                {safeLine}
+                {fuzzyPositions ? (
+                  <HighlightedText text={safeLine} positions={fuzzyPositions} />
+                ) : highlight && safeLine.startsWith(`${fixedPart}${separator}`) ? (
+                  <>
+                    {safeLine.slice(0, summaryStart)}
+                    <HighlightedText text={safeLine.slice(summaryStart)} query={highlight} />
+                  </>
+                ) : safeLine}
               </Text>
             </Box>
           );
@@ -98,9 +156,74 @@ export const ConversationList: React.FC<ConversationListProps> = ({
       
       {hasMoreBelow && (
         <Box width="100%">
-          <Text color="cyan">↓ {conversations.length - endIndex} more on this page...</Text>
+          <Text color="cyan">↓ {rows.length - endIndex} more on this page...</Text>
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+interface ProjectTreeProps {
+  groups: ProjectGroup[];
+  expanded: ReadonlySet<string>;
+  selectedIndex: number;
+  maxVisible: number;
+  isLoading: boolean;
+  terminalWidth: number;
+}
+
+const ProjectTree: React.FC<ProjectTreeProps> = ({ groups, expanded, selectedIndex, maxVisible, isLoading, terminalWidth }) => {
+  const rows = flattenProjectTree(groups, expanded);
+  const { selected, start, end } = scrollWindow(rows.length, selectedIndex, maxVisible);
+  // Same margins as the session rows: borders, padding, selector and a safety buffer
+  const maxLineWidth = terminalWidth - 16;
+
+  return (
+    <Box flexDirection="column" borderStyle="single" borderColor="cyan" paddingX={1} width="100%" overflow="hidden">
+      <Text bold color="cyan">
+        {isLoading ? 'Loading projects...' : `Projects${groups.length > 0 ? ` (${groups.length})` : ''}:`}
+      </Text>
+
+      {isLoading && groups.length === 0 ? (
+        <Box flexDirection="column" height={maxVisible}>
+        </Box>
+      ) : groups.length === 0 ? (
+        <Text color="gray">No conversations found</Text>
+      ) : (
+        rows.slice(start, end).map((row, visibleIndex) => {
+          const isSelected = start + visibleIndex === selected;
+          const selector = isSelected ? '▶ ' : '  ';
+          let line: string;
+          if (row.kind === 'project') {
+            const { group } = row;
+            const repo = group.projectName && group.projectName !== '-' ? ` (${group.projectName})` : '';
+            const count = `${group.conversations.length} ${group.conversations.length === 1 ? 'session' : 'sessions'}`;
+            line = `${selector}${row.expanded ? '▾' : '▸'} ${formatProjectPath(group.projectPath)}${repo} | ${count} | ${format(group.lastActivity, 'MMM dd HH:mm')}`;
+          } else {
+            const threadSize = (row.conversation.resumedFrom?.length ?? 0) + 1;
+            const threadMarker = threadSize > 1 ? `▸${threadSize} ` : '';
+            line = `${selector}  ↳ ${threadMarker}${format(row.conversation.endTime, 'MMM dd HH:mm')} | ${generateConversationSummary(row.conversation)}`;
+          }
+
+          return (
+            <Box key={row.kind === 'project' ? `project:${row.group.projectPath}` : threadKey(row.conversation)} width="100%" overflow="hidden">
+              <Text
+                color={isSelected ? 'black' : row.kind === 'session' ? 'gray' : 'white'}
+                backgroundColor={isSelected ? 'cyan' : undefined}
+                bold={isSelected}
+              >
+                {strictTruncateByWidth(line, maxLineWidth)}
+              </Text>
+            </Box>
+          );
+        })
+      )}
+
+      {end < rows.length && (
+        <Box width="100%">
+          <Text color="cyan">↓ {rows.length - end} more...</Text>
         </Box>
       )}
     </Box>
   );
-};
\ No newline at end of file
+};
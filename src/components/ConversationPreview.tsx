@@ -2,12 +2,14 @@ import React, { useState, useEffect, useMemo, startTransition } from 'react';
 import { Box, Text, useInput, useStdout } from 'ink';
 import { format } from 'date-fns';
 import type { Conversation, ContentPart } from '../types.js';
-import { extractMessageText } from '../utils/messageUtils.js';
+import { extractMessageText, findFocusIndex, formatCommandFailure, formatTokenCount, formatToolStatus, isFailedToolResult } from '../utils/messageUtils.js';
 import { strictTruncateByWidth } from '../utils/strictTruncate.js';
 import { loadConfig } from '../utils/configLoader.js';
 import { matchesKeyBinding } from '../utils/keyBindingHelper.js';
 import { getShortcutText, hasKeyConflict } from '../utils/shortcutHelper.js';
 import type { Config } from '../types/config.js';
+import { snippetAround } from '../utils/sessionSearch.js';
+import { HighlightedText } from './HighlightedText.js';
 
 interface ConversationPreviewProps {
   conversation: Conversation | null;
@@ -15,11 +17,23 @@ interface ConversationPreviewProps {
   hideOptions?: string[];
   // Height allocated by parent for the entire preview box (in rows)
   viewportHeight?: number;
+  // True while the selected conversation's messages are still being read
+  isLoading?: boolean;
+  // True while the conversation is being followed as Codex appends to it
+  isLive?: boolean;
+  // Search query to mark in the messages
+  highlight?: string;
+  // Message to scroll to once loaded (a search hit); falls back to the next visible message
+  focusMessageId?: string;
+  // False while another input (e.g. the search prompt) owns the keyboard
+  keyboardEnabled?: boolean;
 }
 
-export const ConversationPreview: React.FC<ConversationPreviewProps> = ({ conversation, statusMessage, hideOptions = [], viewportHeight }) => {
+export const ConversationPreview: React.FC<ConversationPreviewProps> = ({ conversation, statusMessage, hideOptions = [], viewportHeight, isLoading = false, isLive = false, highlight, focusMessageId, keyboardEnabled = true }) => {
   const { stdout } = useStdout();
   const [scrollOffset, setScrollOffset] = useState(0);
+  // Follow the newest messages until the user scrolls up
+  const [stickToBottom, setStickToBottom] = useState(false);
   const terminalWidth = stdout?.columns || 80;
   const config = useMemo<Config>(() => loadConfig(), []);
 
@@ -27,10 +41,11 @@ export const ConversationPreview: React.FC<ConversationPreviewProps> = ({ conver
   // Compute visible messages based on the actual viewport height provided by parent
   // Overhead accounting inside this component (rows consumed outside the messages list):
   // - Outer border: 2 (top/bottom)
-  // - Header block: 5 (title, session, directory, branch, spacer)
+  // - Header block: 5 (title, session, directory, branch, spacer), plus 1 each for the sessions root and run settings lines
   // - Inner messages border: 2
   // - Footer block: 2 (spacer + one-line help/status)
-  const OVERHEAD_ROWS = 11;
+  const hasRunSettings = !!(conversation?.models?.length || conversation?.approvalPolicy || conversation?.sandboxPolicy);
+  const OVERHEAD_ROWS = 11 + (conversation?.sessionRoot ? 1 : 0) + (hasRunSettings ? 1 : 0);
   const maxVisibleMessages = Math.max(1, (viewportHeight ?? (stdout?.rows || 24)) - OVERHEAD_ROWS);
 
   // Filter messages based on hideOptions
@@ -38,9 +53,9 @@ export const ConversationPreview: React.FC<ConversationPreviewProps> = ({ conver
     if (!msg || (!msg.message && !msg.toolUseResult)) {
       return false;
     }
-    // Hide tool result-only messages entirely
+    // Hide tool result-only messages, except commands that failed
     if (msg.toolUseResult) {
-      return false;
+      return isFailedToolResult(msg.toolUseResult) && !hideOptions.includes('tool');
     }
     if (msg.message && Array.isArray(msg.message.content)) {
       const parts = msg.message.content as ContentPart[];
@@ -80,52 +95,70 @@ export const ConversationPreview: React.FC<ConversationPreviewProps> = ({ conver
     return true;
   }) : [];
 
+  // Same file or session: appended messages keep the current scroll position
+  const conversationIdentity = conversation ? conversation.sourcePath || conversation.sessionId : null;
+
   useEffect(() => {
     // When conversation changes, scroll to the bottom (most recent messages)
-    if (conversation) {
-      const totalMessages = filteredMessages.length;
-      const maxOffset = Math.max(0, totalMessages - maxVisibleMessages);
-      startTransition(() => setScrollOffset(maxOffset));
-    } else {
-      startTransition(() => setScrollOffset(0));
-    }
-  }, [conversation, filteredMessages.length, maxVisibleMessages]);
+    startTransition(() => {
+      setStickToBottom(true);
+      setScrollOffset(0);
+    });
+  }, [conversationIdentity]);
+
+  const focusIndex = conversation ? findFocusIndex(conversation.messages, filteredMessages, focusMessageId) : -1;
+
+  useEffect(() => {
+    // Show the focused message at the top, with one message of context above it
+    if (focusIndex === -1) return;
+    startTransition(() => {
+      setStickToBottom(false);
+      setScrollOffset(Math.max(0, focusIndex - 1));
+    });
+  }, [conversationIdentity, focusIndex]);
+
+  // Clamp scroll offset to ensure the last message is visible
+  const totalMessages = filteredMessages.length;
+  const maxOffset = Math.max(0, totalMessages - maxVisibleMessages);
+  const startIndex = stickToBottom ? maxOffset : Math.min(scrollOffset, maxOffset);
 
+  const scrollTo = (offset: number) => {
+    const next = Math.max(0, Math.min(offset, maxOffset));
+    setScrollOffset(next);
+    setStickToBottom(next >= maxOffset);
+  };
 
   useInput((input, key) => {
     if (!conversation) return;
     
-    const totalMessages = filteredMessages.length;
-    const maxOffset = Math.max(0, totalMessages - maxVisibleMessages);
-    
     // Top
     if (matchesKeyBinding(input, key, config.keybindings.scrollTop)) {
-      setScrollOffset(0);
+      scrollTo(0);
       return;
     }
     
     // Page scrolling
     if (matchesKeyBinding(input, key, config.keybindings.scrollPageDown)) {
-      setScrollOffset(prev => Math.min(prev + Math.floor(maxVisibleMessages / 2), maxOffset));
+      scrollTo(startIndex + Math.floor(maxVisibleMessages / 2));
     }
     if (matchesKeyBinding(input, key, config.keybindings.scrollPageUp)) {
-      setScrollOffset(prev => Math.max(prev - Math.floor(maxVisibleMessages / 2), 0));
+      scrollTo(startIndex - Math.floor(maxVisibleMessages / 2));
     }
     
     // Line scrolling
     if (matchesKeyBinding(input, key, config.keybindings.scrollDown)) {
-      setScrollOffset(prev => Math.min(prev + 1, maxOffset));
+      scrollTo(startIndex + 1);
     }
     if (matchesKeyBinding(input, key, config.keybindings.scrollUp)) {
-      setScrollOffset(prev => Math.max(prev - 1, 0));
+      scrollTo(startIndex - 1);
     }
     
     // Bottom
     if (matchesKeyBinding(input, key, config.keybindings.scrollBottom)) {
-      setScrollOffset(maxOffset);
+      scrollTo(maxOffset);
     }
     
-  });
+  }, { isActive: keyboardEnabled });
 
   if (!conversation) {
     return (
@@ -139,10 +172,6 @@ export const ConversationPreview: React.FC<ConversationPreviewProps> = ({ conver
   const duration = conversation.endTime.getTime() - conversation.startTime.getTime();
   const durationMinutes = Math.round(duration / 1000 / 60);
   
-  // Clamp scroll offset to ensure the last message is visible
-  const totalMessages = filteredMessages.length;
-  const maxOffset = Math.max(0, totalMessages - maxVisibleMessages);
-  const startIndex = Math.min(scrollOffset, maxOffset);
   const visibleMessages = filteredMessages.slice(startIndex, startIndex + maxVisibleMessages);
   
   // Calculate safe width for text wrapping
@@ -162,7 +191,8 @@ export const ConversationPreview: React.FC<ConversationPreviewProps> = ({ conver
       <Box flexDirection="column" paddingX={1}>
         <Box>
           <Text bold color="green">Conversation History</Text>
-          <Text> ({messageCount} messages, {durationMinutes} min)</Text>
+          <Text> ({isLoading ? 'loading messages' : `${messageCount} messages`}, {durationMinutes} min{conversation.tokenUsage ? `, ${formatTokenCount(conversation.tokenUsage.totalTokens)} tokens` : ''}{conversation.resumedFrom?.length ? `, thread of ${conversation.resumedFrom.length + 1} sessions` : ''})</Text>
+          {isLive && <Text color="red" bold> ● LIVE</Text>}
         </Box>
         
         <Box>
@@ -173,6 +203,26 @@ export const ConversationPreview: React.FC<ConversationPreviewProps> = ({ conver
           <Text bold>Directory: </Text>
           <Text>{strictTruncateByWidth(conversation.projectPath, safeWidth - 12)}</Text>
         </Box>
+        {conversation.sessionRoot && (
+          <Box>
+            <Text bold>Root: </Text>
+            <Text dimColor>{strictTruncateByWidth(conversation.sessionRoot, safeWidth - 7)}</Text>
+          </Box>
+        )}
+        {hasRunSettings && (
+          <Box>
+            <Text bold>Model: </Text>
+            <Text>{strictTruncateByWidth(conversation.models?.join(', ') || '-', Math.max(10, safeWidth - 60))}</Text>
+            {conversation.approvalPolicy && <Text dimColor> · approval </Text>}
+            {conversation.approvalPolicy && <Text>{conversation.approvalPolicy}</Text>}
+            {conversation.sandboxPolicy && <Text dimColor> · sandbox </Text>}
+            {conversation.sandboxPolicy && (
+              <Text color={conversation.sandboxPolicy === 'danger-full-access' ? 'red' : undefined} bold={conversation.sandboxPolicy === 'danger-full-access'}>
+                {conversation.sandboxPolicy}
+              </Text>
+            )}
+          </Box>
+        )}
         <Box marginBottom={1}>
           <Text bold>Branch: </Text>
           <Text>{strictTruncateByWidth(conversation.gitBranch || '-', safeWidth - 9)}</Text>
@@ -182,6 +232,7 @@ export const ConversationPreview: React.FC<ConversationPreviewProps> = ({ conver
       {/* Messages area with inner border */}
       <Box borderStyle="single" borderColor="gray" flexGrow={1} paddingX={1} overflow="hidden">
         <Box flexDirection="column" height={maxVisibleMessages}>
+          {isLoading && <Text color="cyan">Loading messages...</Text>}
           {visibleMessages.map((msg, index) => {
               // Skip messages without proper structure
               if (!msg || (!msg.message && !msg.toolUseResult)) {
@@ -192,10 +243,19 @@ export const ConversationPreview: React.FC<ConversationPreviewProps> = ({ conver
               let content = '';
               
               // Do not render Tool Output details in preview (keep compact)
-              if (msg.message && msg.message.content) {
+              if (msg.toolUseResult && isFailedToolResult(msg.toolUseResult)) {
+                content = formatCommandFailure(msg.toolUseResult);
+              } else if (msg.message && msg.message.content) {
                 // Fall back to content-based rendering
                 content = extractMessageText(msg.message.content);
               }
+              // Reasoning summaries: show the summary itself, not just a marker
+              const thinkingPart = Array.isArray(msg.message?.content)
+                ? msg.message.content.find((part): part is Extract<ContentPart, { type: 'thinking' }> => part?.type === 'thinking')
+                : undefined;
+              if (thinkingPart?.thinking) {
+                content = `[Thinking] ${thinkingPart.thinking.trim()}`;
+              }
               
               const timestamp = new Date(msg.timestamp);
               
@@ -208,30 +268,40 @@ export const ConversationPreview: React.FC<ConversationPreviewProps> = ({ conver
                                   content.startsWith('[Tool Output]') || 
                                   content.startsWith('[Tool Error]') || 
                                   content.startsWith('[Files Found:');
+              const isFailure = content.startsWith('[Command failed]') || content.startsWith('[Error]');
               
               // Combine role and content on single line for compact display
               const roleText = isUser ? 'User' : 'Assistant';
               const timeText = format(timestamp, 'HH:mm:ss');
               const header = `[${roleText}] (${timeText})`;
+              // Outcome of a tool call, paired with its output: ✓, ✗ exit 1, or … while running
+              const toolStatus = msg.tool ? formatToolStatus(msg.tool) : '';
+              const toolStatusColor = msg.tool?.success === false ? 'red' : msg.tool?.success ? 'green' : 'gray';
               
-              // Get first line of content and truncate
-              const firstLine = content.split('\n')[0];
-              // Compute printable width for header (ASCII only here)
-              const headerLength = header.length + 1; // +1 for space between header and content
+              // Compute printable width for header and status (single-width characters only here)
+              const headerLength = header.length + 1 + (toolStatus ? toolStatus.length + 1 : 0); // +1 for each separating space
               const availableWidth = safeWidth - headerLength;
-              const truncatedContent = strictTruncateByWidth(firstLine, availableWidth);
+              // First line of content; with a search active, the excerpt around the first hit instead
+              const hasHit = !!highlight && content.toLowerCase().includes(highlight.toLowerCase());
+              const line = hasHit ? snippetAround(content, highlight, availableWidth) : content.split('\n')[0];
+              const truncatedContent = strictTruncateByWidth(line, availableWidth);
               
-              // Use a combination of timestamp and index for unique key
-              const uniqueKey = `${msg.timestamp}-${scrollOffset + index}`;
+              // Parsed messages carry a stable id; fall back to timestamp and position
+              const uniqueKey = msg.id ?? `${msg.timestamp}-${startIndex + index}`;
               
               return (
                 <Box key={uniqueKey}>
                   <Text>
                     <Text color={isUser ? 'cyan' : 'green'} bold>{header}</Text>
-                    {isToolMessage ? (
-                      <Text color="yellow" dimColor> {truncatedContent}</Text>
+                    {toolStatus && <Text color={toolStatusColor}> {toolStatus}</Text>}
+                    {isFailure ? (
+                      <Text color="red"> <HighlightedText text={truncatedContent} query={highlight} /></Text>
+                    ) : thinkingPart?.thinking ? (
+                      <Text color="magenta" dimColor> <HighlightedText text={truncatedContent} query={highlight} /></Text>
+                    ) : isToolMessage ? (
+                      <Text color="yellow" dimColor> <HighlightedText text={truncatedContent} query={highlight} /></Text>
                     ) : (
-                      <Text> {truncatedContent}</Text>
+                      <Text> <HighlightedText text={truncatedContent} query={highlight} /></Text>
                     )}
                   </Text>
                 </Box>
@@ -0,0 +1,23 @@
+import React from 'react';
+import { Text } from 'ink';
+import { highlightSegments } from '../utils/sessionSearch.js';
+import { positionSegments } from '../utils/fuzzyFilter.js';
+
+interface HighlightedTextProps {
+  text: string;
+  // Search query to mark; the text renders unchanged without one
+  query?: string;
+  // Character indices to mark instead, e.g. the characters a fuzzy filter matched
+  positions?: ReadonlySet<number>;
+}
+
+// Inline runs for use inside a <Text>; unmatched runs inherit the parent's styling
+export const HighlightedText: React.FC<HighlightedTextProps> = ({ text, query, positions }) => (
+  <>
+    {(positions ? positionSegments(text, positions) : highlightSegments(text, query)).map((segment, index) => segment.match ? (
+      <Text key={index} backgroundColor="yellow" color="black">{segment.text}</Text>
+    ) : (
+      <Text key={index}>{segment.text}</Text>
+    ))}
+  </>
+);
@@ -1,4 +1,6 @@
 export interface Message {
+  // Stable id from the rollout file and line number, e.g. "rollout-2025-09-20T08-00-00-<uuid>:12"
+  id?: string;
   sessionId: string;
   timestamp: string;
   type: 'user' | 'assistant';
@@ -7,11 +9,17 @@ export interface Message {
     content?: string | ContentPart[];
   };
   cwd: string;
+  // Usage reported for the turn this message closes (rollout-v1 token_count events)
+  tokenUsage?: TokenUsage;
+  // Set on tool call messages; filled in once the call's output is recorded
+  tool?: ToolInvocation;
   toolUseResult?: {
     stdout?: string;
     stderr?: string;
     filenames?: string[];
     durationMs?: number;
+    // Shell commands: exit status, from exec_command_end events or the output metadata
+    exitCode?: number;
     interrupted?: boolean;
     isImage?: boolean;
     // TodoWrite results
@@ -53,15 +61,66 @@ export type ContentPart =
   | { type: 'output_text'; text?: string }
   | { type: 'tool_use'; name?: string; input?: unknown; tool_use_id?: string }
   | { type: 'tool_result' }
-  | { type: 'thinking'; thinking?: string };
+  | { type: 'thinking'; thinking?: string }
+  | { type: 'error'; text?: string };
+
+// A tool call and its output, linked by call_id
+export interface ToolInvocation {
+  callId?: string;
+  name: string;
+  // Parsed JSON arguments when the call sent JSON, the raw argument string otherwise
+  input?: unknown;
+  stdout?: string;
+  stderr?: string;
+  exitCode?: number;
+  durationMs?: number;
+  // Undefined until an output or exit status has been recorded
+  success?: boolean;
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  cachedInputTokens: number;
+  outputTokens: number;
+  reasoningOutputTokens: number;
+  totalTokens: number;
+}
+
+// Known event_msg variants of rollout-v1 files
+export type SessionEvent =
+  | { type: 'token_count'; usage: TokenUsage; total?: TokenUsage }
+  | { type: 'agent_message'; message: string }
+  | { type: 'exec_command_begin'; callId?: string; command: string[]; cwd?: string }
+  | { type: 'exec_command_end'; callId?: string; exitCode: number; durationMs?: number; stdout?: string; stderr?: string }
+  | { type: 'error'; message: string };
 
 export interface Conversation {
   sessionId: string;
   sourcePath?: string;
+  // Sessions root the rollout file was found under
+  sessionRoot?: string;
   projectPath: string;
   projectName: string;
   gitBranch?: string | null;
+  // Empty for list entries; filled by loadConversationMessages()
   messages: Message[];
+  messageCount?: number;
+  // Session totals; absent when the rollout records no token counts
+  tokenUsage?: TokenUsage;
+  // Error events plus commands that exited non-zero
+  errorCount?: number;
+  // Rolling digests of the leading user/assistant text messages; a session whose digests extend
+  // another session's complete list was resumed from it (see resumeChains)
+  transcriptDigests?: string[];
+  // Earlier sessions this one continues, newest first; set on the newest session of a resume chain
+  resumedFrom?: Conversation[];
+  // Tools called (apply_patch shell calls count as apply_patch) and files changed by apply_patch
+  toolNames?: string[];
+  touchedFiles?: string[];
+  // From rollout-v1 turn_context records: models in order of first use, and the last turn's policies
+  models?: string[];
+  approvalPolicy?: string;
+  sandboxPolicy?: string;
   firstMessage: string;
   lastMessage: string;
   startTime: Date;
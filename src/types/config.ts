@@ -1,3 +1,6 @@
+import type { DirectoryScopeMode } from '../utils/directoryScope.js';
+import type { SortMode } from '../utils/sortModes.js';
+
 export interface KeyBindings {
   quit: string[];
   selectPrevious: string[];
@@ -15,10 +18,34 @@ export interface KeyBindings {
   startNewSession: string[];
   openCommandEditor: string[];
   toggleFullView: string[];
+  toggleLiveTail: string[];
+  toggleThinking: string[];
+  toggleThread: string[];
+  search: string[];
+  filter: string[];
+  fuzzyFilter: string[];
+  cycleSort: string[];
+  toggleProjectView: string[];
+  exportConversation: string[];
+}
+
+export interface SessionsConfig {
+  // Extra sessions roots merged with $CODEX_HOME/sessions
+  roots: string[];
+}
+
+export interface ListConfig {
+  // Which sessions `cdxresume .` lists: started in the current directory, in it or below it,
+  // or anywhere in its git repository
+  directoryScope: DirectoryScopeMode;
+  // Order of the session list; cycling it in the TUI writes the new order back here
+  sort: SortMode;
 }
 
 export interface Config {
   keybindings: KeyBindings;
+  sessions: SessionsConfig;
+  list: ListConfig;
 }
 
 export const defaultConfig: Config = {
@@ -39,5 +66,21 @@ export const defaultConfig: Config = {
     startNewSession: ['n'],
     openCommandEditor: ['-'],
     toggleFullView: ['f'],
+    toggleLiveTail: ['t'],
+    toggleThinking: ['r'],
+    toggleThread: ['space'],
+    search: ['/'],
+    filter: ['F'],
+    fuzzyFilter: ['s'],
+    cycleSort: ['o'],
+    toggleProjectView: ['P'],
+    exportConversation: ['e'],
+  },
+  sessions: {
+    roots: [],
+  },
+  list: {
+    directoryScope: 'exact',
+    sort: 'lastActivity',
   },
 };
\ No newline at end of file
@@ -76,6 +76,16 @@ export function detectCodexSupport(helpOverride?: string, versionOverride?: stri
   return result;
 }
 
+// Version printed by `codex --version` (e.g. "0.36.0"); null when codex is missing or prints nothing
+export function detectCodexVersion(): string | null {
+  try {
+    const output = execSync('codex --version', { encoding: 'utf-8', stdio: ['ignore', 'pipe', 'ignore'], timeout: 2000 });
+    return output.match(/(\d+\.\d+\.\d+)/)?.[1] ?? (output.trim() || null);
+  } catch {
+    return null;
+  }
+}
+
 export function resetCodexSupportCacheForTests(): void {
   cached = null;
 }
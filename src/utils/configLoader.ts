@@ -1,8 +1,10 @@
 import { parse } from '@iarna/toml';
-import { readFileSync, existsSync } from 'fs';
-import { join } from 'path';
+import { readFileSync, existsSync, writeFileSync, mkdirSync } from 'fs';
+import { dirname, join } from 'path';
 import { homedir } from 'os';
 import { Config, defaultConfig, KeyBindings } from '../types/config.js';
+import { DIRECTORY_SCOPE_MODES, isDirectoryScopeMode } from './directoryScope.js';
+import { SORT_MODES, isSortMode } from './sortModes.js';
 
 export function getConfigPath(): string {
   const xdgConfigHome = process.env.XDG_CONFIG_HOME || join(homedir(), '.config');
@@ -38,6 +40,87 @@ export function loadConfig(): Config {
   }
 }
 
+export interface ConfigDiagnosis {
+  path: string;
+  exists: boolean;
+  problems: string[];
+}
+
+/** Checks the config file without falling back silently, for `cdxresume doctor`. */
+export function diagnoseConfig(configPath: string = getConfigPath()): ConfigDiagnosis {
+  if (!existsSync(configPath)) return { path: configPath, exists: false, problems: [] };
+
+  let parsedConfig: Partial<Config>;
+  try {
+    parsedConfig = parse(readFileSync(configPath, 'utf-8')) as Partial<Config>;
+  } catch (error) {
+    const reason = error instanceof Error ? error.message.split('\n')[0] : String(error);
+    return { path: configPath, exists: true, problems: [`Not valid TOML (defaults are used instead): ${reason}`] };
+  }
+
+  const problems: string[] = [];
+  const knownActions = Object.keys(defaultConfig.keybindings);
+  for (const [action, keys] of Object.entries(parsedConfig.keybindings ?? {})) {
+    if (!knownActions.includes(action)) {
+      problems.push(`Unknown key binding action '${action}'`);
+    } else if (!Array.isArray(keys) || keys.some(key => typeof key !== 'string')) {
+      problems.push(`Key binding '${action}' must be a list of key names`);
+    }
+  }
+  const roots: unknown = parsedConfig.sessions?.roots;
+  if (roots !== undefined && (!Array.isArray(roots) || roots.some(root => typeof root !== 'string'))) {
+    problems.push('[sessions] roots must be a list of directory paths');
+  }
+  const directoryScope: unknown = parsedConfig.list?.directoryScope;
+  if (directoryScope !== undefined && !isDirectoryScopeMode(directoryScope)) {
+    problems.push(`[list] directoryScope must be one of ${DIRECTORY_SCOPE_MODES.join(', ')}`);
+  }
+  const sort: unknown = parsedConfig.list?.sort;
+  if (sort !== undefined && !isSortMode(sort)) {
+    problems.push(`[list] sort must be one of ${SORT_MODES.join(', ')}`);
+  }
+
+  const config = mergeConfigs(defaultConfig, parsedConfig);
+  problems.push(...checkKeyConflicts(config.keybindings));
+  for (const [action, keys] of Object.entries(config.keybindings)) {
+    if (Array.isArray(keys) && keys.length === 0) problems.push(`No key is bound to '${action}'`);
+  }
+  return { path: configPath, exists: true, problems };
+}
+
+/**
+ * Sets `key = "value"` in `[section]` of the config file, creating the file or the section as
+ * needed. Edits the text in place so the user's comments and layout survive.
+ */
+export function saveConfigSetting(section: string, key: string, value: string, configPath: string = getConfigPath()): void {
+  const assignment = `${key} = ${JSON.stringify(value)}`;
+  const lines = existsSync(configPath) ? readFileSync(configPath, 'utf-8').split('\n') : [];
+  // `[list]`, `[ list ]` and `[list]  # comment` all open the section; a second one would make the TOML invalid
+  const header = new RegExp(`^\\s*\\[\\s*${section}\\s*\\]\\s*(#.*)?$`);
+  const start = lines.findIndex(line => header.test(line));
+
+  if (start === -1) {
+    while (lines.length > 0 && lines[lines.length - 1].trim() === '') lines.pop();
+    if (lines.length > 0) lines.push('');
+    lines.push(`[${section}]`, assignment, '');
+  } else {
+    let end = lines.findIndex((line, index) => index > start && /^\s*\[/.test(line));
+    if (end === -1) end = lines.length;
+    const existing = lines.findIndex((line, index) => index > start && index < end && new RegExp(`^\\s*${key}\\s*=`).test(line));
+    if (existing !== -1) {
+      lines[existing] = assignment;
+    } else {
+      // After the last setting of the section, ahead of the blank lines that separate it from the next
+      let insertAt = end;
+      while (insertAt > start + 1 && lines[insertAt - 1].trim() === '') insertAt--;
+      lines.splice(insertAt, 0, assignment);
+    }
+  }
+
+  mkdirSync(dirname(configPath), { recursive: true });
+  writeFileSync(configPath, lines.join('\n'), 'utf-8');
+}
+
 function mergeConfigs(defaultConf: Config, userConf: Partial<Config>): Config {
   const merged: Config = JSON.parse(JSON.stringify(defaultConf));
   
@@ -51,35 +134,43 @@ function mergeConfigs(defaultConf: Config, userConf: Partial<Config>): Config {
     });
   }
   
+  if (userConf.sessions && Array.isArray(userConf.sessions.roots)) {
+    merged.sessions.roots = userConf.sessions.roots.filter((root): root is string => typeof root === 'string');
+  }
+
+  if (userConf.list && isDirectoryScopeMode(userConf.list.directoryScope)) {
+    merged.list.directoryScope = userConf.list.directoryScope;
+  }
+  if (userConf.list && isSortMode(userConf.list.sort)) {
+    merged.list.sort = userConf.list.sort;
+  }
+  
   // Then migrate config with conflict detection based on the merged result
   return migrateConfig(merged, userConf);
 }
 
+// Actions added after the first release. A config written before them may already use their
+// default keys, so each one gets its defaults only where the key is still free
+const ADDED_ACTIONS: (keyof KeyBindings)[] = [
+  'startNewSession', 'toggleLiveTail', 'toggleThinking', 'toggleThread', 'search',
+  'filter', 'fuzzyFilter', 'cycleSort', 'toggleProjectView', 'exportConversation'
+];
+
 function migrateConfig(config: Config, userConf: Partial<Config>): Config {
-  // Only migrate if user hasn't explicitly configured startNewSession
-  const userHasStartNewSession = userConf.keybindings && 'startNewSession' in userConf.keybindings;
-  
-  if (!userHasStartNewSession) {
-    // Check if 'n' is already used by another keybinding
-    const isNKeyUsed = isKeyAlreadyAssigned(config.keybindings, 'n');
-    
-    if (!isNKeyUsed) {
-      // Only assign 'n' if it's not already in use
-      config.keybindings.startNewSession = ['n'];
-    } else {
-      // If 'n' is taken, don't assign any default key
-      // User must configure it manually in config.toml
-      config.keybindings.startNewSession = [];
-    }
+  for (const action of ADDED_ACTIONS) {
+    // Only migrate if the user hasn't explicitly configured the action
+    if (userConf.keybindings && action in userConf.keybindings) continue;
+    // Keys taken by another action are left out; with none left the user must bind one in config.toml
+    config.keybindings[action] = defaultConfig.keybindings[action].filter(key => !isKeyAlreadyAssigned(config.keybindings, key, action));
   }
-  
+
   return config;
 }
 
-function isKeyAlreadyAssigned(keybindings: KeyBindings, key: string): boolean {
+function isKeyAlreadyAssigned(keybindings: KeyBindings, key: string, forAction: keyof KeyBindings): boolean {
   // Check all existing keybindings to see if the key is already used
   for (const [action, keys] of Object.entries(keybindings)) {
-    if (action === 'startNewSession') continue; // Skip the key we're trying to add
+    if (action === forAction) continue; // Skip the action we're trying to add
     
     if (Array.isArray(keys) && keys.includes(key)) {
       return true;
@@ -1,516 +1,365 @@
-import { readdir, readFile, stat } from 'fs/promises';
-import { join, basename } from 'path';
-import { homedir } from 'os';
-import type { Conversation, Message, ContentPart } from '../types.js';
-import { extractMessageText } from './messageUtils.js';
-import { getCodexVersion, isCodexNewRolloutFormat } from './codexVersion.js';
-
-const CODEX_SESSIONS_DIR = join(homedir(), '.codex', 'sessions');
-// For now we intentionally do NOT rely on history.jsonl. We selectively parse
-// either the legacy format (pre-0.32) or the new rollout format (0.32+).
-
-interface PaginationOptions {
+import { readdir, stat } from 'fs/promises';
+import { join, sep } from 'path';
+import type { Conversation } from '../types.js';
+import { readJsonlLines } from './jsonlStream.js';
+import { getDefaultSessionsRoot } from './sessionRoots.js';
+import { isRolloutFile } from './rolloutFiles.js';
+import { sniffRolloutFormat, type ReadOptions, type RolloutFormat, type RolloutParser } from './rolloutFormats/index.js';
+import { parseRecord } from './rolloutFormats/shared.js';
+import { followRollout, type RolloutFollower } from './rolloutTail.js';
+import { matchesSessionFilter, type SessionFilter } from './sessionFilter.js';
+import { matchesDirectoryScope, type DirectoryScope } from './directoryScope.js';
+import { compareConversations, isLazyOrder, type SortMode } from './sortModes.js';
+import { loadResumeCounts } from './resumeHistory.js';
+import { createThreadLinker, linkResumeChains, threadKey, withEarlierSessions } from './resumeChains.js';
+import {
+  loadSessionIndex,
+  saveSessionIndex,
+  lookupSessionIndex,
+  updateSessionIndex,
+  pruneSessionIndex,
+  type SessionIndex,
+  type FileStamp
+} from './sessionIndex.js';
+
+// For now we intentionally do NOT rely on history.jsonl. Each rollout file is parsed
+// by the format adapter that recognizes its first line (see rolloutFormats/).
+
+// Which sessions to list, and in which order; shared by the TUI and other listings
+export interface ListOptions {
+  // Sessions started in (or, depending on the mode, below) the directory `cdxresume .` ran in
+  directoryScope?: DirectoryScope;
+  // Structured filter from the filter prompt; `total` counts matching sessions only
+  filter?: SessionFilter;
+  // Defaults to last activity
+  sort?: SortMode;
+  // Sessions roots to merge; defaults to the Codex sessions directory
+  roots?: string[];
+  // Link resumed sessions into threads (see resumeChains); entries and `total` are then threads
+  threads?: boolean;
+}
+
+interface PaginationOptions extends ListOptions {
   limit: number;
   offset: number;
-  currentDirFilter?: string;
 }
 
-function extractCwdFromContentText(text: string): string | null {
-  const m = text.match(/<cwd>([^<]+)<\/cwd>/);
-  return m ? m[1] : null;
+// How far before the oldest thread on a page to look for the earlier sessions of its threads
+const THREAD_LOOK_BACK_MS = 3 * 24 * 60 * 60 * 1000;
+
+// Rollout files whose reading state is kept between list reads (see summarizeRollout), by path
+const MAX_FOLLOWED_ROLLOUTS = 8;
+const followedRollouts = new Map<string, RolloutFollower>();
+
+// One YYYY/MM/DD directory (or year/month level while walking) under a sessions root
+interface SessionDirectory {
+  root: string;
+  path: string;
+}
+
+// A rollout file found while walking, with the stamp the session index is checked against
+interface RolloutFile {
+  root: string;
+  filePath: string;
+  stamp: FileStamp;
 }
 
-function projectNameFromRepoUrl(url?: string): string {
-  if (!url) return '-';
-  const withoutGit = url.replace(/\.git$/, '');
-  const parts = withoutGit.split('/');
-  if (parts.length < 2) return '-';
-  const owner = parts[parts.length - 2];
-  const repo = parts[parts.length - 1];
-  return `${owner}/${repo}`;
+// Problems met while reading one rollout file, collected for `cdxresume doctor`
+export interface RolloutProblems {
+  // Non-blank lines read
+  lines: number;
+  // Complete lines that are not JSON objects, and lines over the size limit (1-based)
+  malformedLines: number[];
+  oversizedLines: number[];
+  // The last line has no newline and does not parse yet; Codex may still be writing it
+  truncatedLastLine: boolean;
+  // Line at which the format's parser gave up on the file
+  rejectedAtLine?: number;
+  // Why the file could not be read at all
+  error?: string;
 }
 
+/**
+ * Returns list entries only: `messages` is empty and `messageCount` is set.
+ * Use loadConversationMessages() to read the transcript of a selected entry.
+ *
+ * For last activity and start time, reads sessions in list order and stops once the requested
+ * page is filled (see collectConversations). Other orders read every session (from the session
+ * index) first. `total` is -1 unless every session was read.
+ */
 export async function getPaginatedConversations(options: PaginationOptions): Promise<{ conversations: Conversation[]; total: number; }> {
-  const all = await getAllConversations(options.currentDirFilter);
-  const total = all.length;
-  const start = Math.min(options.offset, total);
-  const end = Math.min(start + options.limit, total);
-  return { conversations: all.slice(start, end), total };
+  const wanted = options.offset + options.limit;
+  // Read one entry past the page so the caller knows whether a next page exists
+  const { conversations, exhausted } = await collectConversations(options, collected => collected.length > wanted);
+  const start = Math.min(options.offset, conversations.length);
+  const end = Math.min(start + options.limit, conversations.length);
+  return { conversations: conversations.slice(start, end), total: exhausted ? conversations.length : -1 };
 }
 
-export async function getAllConversations(currentDirFilter?: string): Promise<Conversation[]> {
-  try {
-    const version = getCodexVersion();
-    const useNew = isCodexNewRolloutFormat(version);
-    let list: Conversation[] = [];
-    if (version === null) {
-      // Unknown version: be permissive and include both formats to avoid hiding sessions.
-      const [legacy, modern] = await Promise.all([
-        collectLegacyFormatConversations(),
-        collectNewFormatConversations()
-      ]);
-      const merged = new Map<string, Conversation>();
-      for (const c of legacy) merged.set(c.sessionId, c);
-      for (const c of modern) merged.set(c.sessionId, c);
-      list = Array.from(merged.values());
-    } else {
-      list = useNew ? await collectNewFormatConversations() : await collectLegacyFormatConversations();
-    }
-    const filtered = currentDirFilter ? list.filter(c => c.projectPath === currentDirFilter) : list;
-    return filtered.sort((a, b) => b.endTime.getTime() - a.endTime.getTime());
-  } catch (error) {
-    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
-    throw error;
+/**
+ * Position of the session with this key (see threadKey), or of the thread it belongs to, in the
+ * order getPaginatedConversations pages through with the same options; -1 when it is not listed.
+ */
+export async function findConversationIndex(options: ListOptions, key: string): Promise<number> {
+  const matches = (c: Conversation) => threadKey(c) === key || Boolean(c.resumedFrom?.some(member => threadKey(member) === key));
+  const { conversations } = await collectConversations(options, collected => collected.some(matches));
+  return conversations.findIndex(matches);
+}
+
+export async function loadConversationMessages(conversation: Conversation): Promise<Conversation> {
+  if (conversation.messages.length > 0 || !conversation.sourcePath) return conversation;
+  const { conversation: full } = await readRollout(conversation.sourcePath);
+  return full ? { ...full, sessionRoot: conversation.sessionRoot } : conversation;
+}
+
+export async function getAllConversations(options: ListOptions = {}): Promise<Conversation[]> {
+  return (await collectConversations(options, () => false)).conversations;
+}
+
+/**
+ * List entries for rollout files that changed since they were listed, by path; files that no
+ * longer yield a session are left out. Only these files are read, each from where the previous
+ * read stopped when it was only appended to.
+ */
+export async function refreshConversations(filePaths: string[]): Promise<Map<string, Conversation>> {
+  const refreshed = new Map<string, Conversation>();
+  for (const filePath of filePaths) {
+    const { conversation } = await summarizeRollout(filePath);
+    if (conversation) refreshed.set(filePath, conversation);
   }
+  return refreshed;
 }
 
-async function collectLegacyFormatConversations(): Promise<Conversation[]> {
-  const conversations: Conversation[] = [];
-  try {
-    const years = await readdir(CODEX_SESSIONS_DIR);
-    for (const year of years) {
-      const yearPath = join(CODEX_SESSIONS_DIR, year);
-      let months: string[] = [];
-      try { months = await readdir(yearPath); } catch { continue; }
-      for (const month of months) {
-        const monthPath = join(yearPath, month);
-        let days: string[] = [];
-        try { days = await readdir(monthPath); } catch { continue; }
-        for (const day of days) {
-          const dayPath = join(monthPath, day);
-          let files: string[] = [];
-          try { files = await readdir(dayPath); } catch { continue; }
-          const jsonlFiles = files.filter(f => f.endsWith('.jsonl'));
-          for (const file of jsonlFiles) {
-            const filePath = join(dayPath, file);
-            // For legacy parser, skip files that are clearly new-format (fast check first line)
-            const isNew = await isNewFormatFile(filePath);
-            if (isNew) continue;
-            const conv = await readConversationLegacy(filePath);
-            if (conv) conversations.push(conv);
-          }
-        }
+// Sessions in list order, read until `isEnough` holds for what has been collected (only checked
+// between batches, and only for orders that can be read lazily). Threads are linked while
+// reading: a resume is newer than the session it continues, so it is always read first. Once
+// the page is filled, reading goes on for THREAD_LOOK_BACK_MS before the oldest thread on it,
+// where the earlier sessions of its threads usually are.
+async function collectConversations(options: ListOptions, isEnough: (collected: Conversation[]) => boolean): Promise<{ conversations: Conversation[]; exhausted: boolean }> {
+  const sort = options.sort ?? 'lastActivity';
+  const lazy = isLazyOrder(sort);
+  const compare = compareConversations(sort, sort === 'mostResumed' ? await loadResumeCounts() : undefined);
+  const index = await loadSessionIndex();
+  const seen = new Set<string>();
+  const linker = lazy && options.threads ? createThreadLinker() : null;
+  // Position of each thread head in `collected`, by threadKey
+  const positions = new Map<string, number>();
+  const collected: Conversation[] = [];
+  let lookBackUntil: number | null = null;
+  let exhausted = true;
+
+  for await (const batch of walkInListOrder(options.roots ?? [getDefaultSessionsRoot()], sort, seen)) {
+    if (lookBackUntil !== null && batch.position < lookBackUntil) {
+      exhausted = false;
+      break;
+    }
+    const conversations = (await summarizeFiles(batch.files, index))
+      .filter(c => !options.directoryScope || matchesDirectoryScope(c.projectPath, options.directoryScope))
+      .filter(c => !options.filter || matchesSessionFilter(c, options.filter));
+    if (!lazy) {
+      collected.push(...conversations);
+      continue;
+    }
+    for (const conversation of conversations.sort(compare)) {
+      const head = linker?.add(conversation);
+      if (head) {
+        collected[positions.get(threadKey(head))!] = withEarlierSessions(head, linker!);
+      } else {
+        positions.set(threadKey(conversation), collected.length);
+        collected.push(conversation);
       }
     }
-  } catch (error) {
-    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    if (lookBackUntil === null && isEnough(collected)) {
+      if (!linker) {
+        exhausted = false;
+        break;
+      }
+      lookBackUntil = collected.reduce((oldest, c) => Math.min(oldest, c.startTime.getTime()), Infinity) - THREAD_LOOK_BACK_MS;
+    }
   }
-  return conversations;
+
+  // Last activity lists every file up front, so the index can be pruned even after a partial read
+  if (exhausted || sort === 'lastActivity') pruneSessionIndex(index, seen);
+  await saveSessionIndex(index);
+  if (lazy) return { conversations: collected, exhausted };
+  const sorted = collected.sort(compare);
+  return { conversations: options.threads ? linkResumeChains(sorted) : sorted, exhausted };
 }
 
-async function collectNewFormatConversations(): Promise<Conversation[]> {
-  const conversations: Conversation[] = [];
-  try {
-    const years = await readdir(CODEX_SESSIONS_DIR);
-    for (const year of years) {
-      const yearPath = join(CODEX_SESSIONS_DIR, year);
-      let months: string[] = [];
-      try { months = await readdir(yearPath); } catch { continue; }
-      for (const month of months) {
-        const monthPath = join(yearPath, month);
-        let days: string[] = [];
-        try { days = await readdir(monthPath); } catch { continue; }
-        for (const day of days) {
-          const dayPath = join(monthPath, day);
-          let files: string[] = [];
-          try { files = await readdir(dayPath); } catch { continue; }
-          const jsonlFiles = files.filter(f => f.endsWith('.jsonl'));
-          for (const file of jsonlFiles) {
-            const filePath = join(dayPath, file);
-            const isNew = await isNewFormatFile(filePath);
-            if (!isNew) continue;
-            const conv = await readConversationNew(filePath);
-            if (conv) conversations.push(conv);
-          }
-        }
-      }
-    }
-  } catch (error) {
-    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+/**
+ * Rollout files in the order `sort` lists them, in batches whose sessions are sorted among
+ * themselves. Last activity stats every file first and yields them one at a time by modification
+ * time; start time and the orders that read everything yield one YYYY/MM/DD day at a time.
+ * `position` falls as the walk goes on: the modification time, or the end of the day.
+ */
+async function* walkInListOrder(roots: string[], sort: SortMode, seen: Set<string>): AsyncGenerator<{ files: RolloutFile[]; position: number }> {
+  if (sort === 'lastActivity') {
+    const files: RolloutFile[] = [];
+    for await (const day of walkDayDirectories(roots)) files.push(...await statDay(day, seen));
+    files.sort((a, b) => b.stamp.mtimeMs - a.stamp.mtimeMs);
+    for (const file of files) yield { files: [file], position: file.stamp.mtimeMs };
+    return;
+  }
+  for await (const day of walkDayDirectories(roots)) {
+    const [year, month, date] = day[0].path.split(sep).slice(-3).map(Number);
+    yield { files: await statDay(day, seen), position: Date.UTC(year, month - 1, date + 1) };
   }
-  return conversations;
 }
 
-async function readConversationLegacy(filePath: string): Promise<Conversation | null> {
-  try {
-    const content = await readFile(filePath, 'utf-8');
-    const lines = content.trim().split('\n').filter(line => line.trim());
-    if (lines.length === 0) return null;
-
-    // First line metadata
-    let sessionId = basename(filePath).replace('.jsonl', '');
-    let startTimestamp = new Date();
-    let repoUrl: string | undefined;
-    try {
-      const meta = JSON.parse(lines[0]);
-      if (meta && meta.id) sessionId = meta.id as string;
-      if (meta && meta.timestamp) {
-        const ts = new Date(meta.timestamp as string);
-        startTimestamp = isNaN(ts.getTime()) ? new Date() : ts;
+/** Every rollout file under the given roots, newest day first. */
+export async function* walkRolloutFiles(roots: string[]): AsyncGenerator<{ root: string; filePath: string }> {
+  for await (const day of walkDayDirectories(roots)) {
+    for (const dir of day) {
+      for (const filePath of await listRolloutFilesIn(dir.path)) {
+        yield { root: dir.root, filePath };
       }
-      if (meta && meta.git && meta.git.repository_url) repoUrl = meta.git.repository_url as string;
-    } catch { /* ignore malformed first line */ }
-
-    const messages: Message[] = [];
-    let cwdFromIntro: string | null = null;
-    let counter = 0;
-    // Minimal shape used to parse log lines without using `any`
-    interface RawLine {
-      type?: string;
-      role?: 'user' | 'assistant';
-      content?: unknown;
-      record_type?: string;
-      arguments?: string;
-      name?: string;
-      call_id?: string;
-      output?: string;
     }
-    for (const line of lines) {
-      let parsed: unknown;
-      try { parsed = JSON.parse(line); } catch { continue; }
-      if (!parsed || typeof parsed !== 'object') continue;
-      const data = parsed as RawLine;
-      if (data.record_type === 'state') continue;
-
-      // Skip internal reasoning entries; they are verbose and not user-visible chat
-      if (data.type === 'reasoning') continue;
-
-      if (data.type === 'message' && (data.role === 'user' || data.role === 'assistant')) {
-        let content: string | ContentPart[] | undefined;
-        if (Array.isArray(data.content)) content = data.content as ContentPart[];
-        else if (typeof data.content === 'string') content = data.content;
-        if (data.role === 'user') {
-          const texts: string[] = [];
-          if (typeof content === 'string') texts.push(content);
-          else if (Array.isArray(content)) {
-            for (const it of content) {
-              if (it && 'text' in it && typeof (it as { text?: string }).text === 'string') {
-                texts.push((it as { text?: string }).text as string);
-              }
-            }
-          }
-          for (const t of texts) {
-            const found = extractCwdFromContentText(t);
-            if (found) { cwdFromIntro = found; break; }
-          }
-          // Hide initial environment_context messages from history
-          const isEnvContext = texts.some((t) => t.includes('<environment_context>'));
-          if (isEnvContext) {
-            counter++;
-            continue;
-          }
-        }
-        const ts = new Date(startTimestamp.getTime() + counter).toISOString();
-        messages.push({
-          sessionId,
-          timestamp: ts,
-          type: data.role,
-          message: { role: data.role, content },
-          cwd: cwdFromIntro || ''
-        } as Message);
-        counter++;
-      }
+  }
+}
 
-      // Map Codex function calls to tool-use style entries
-      if (data.type === 'function_call') {
-        const ts = new Date(startTimestamp.getTime() + counter).toISOString();
-        let parsedArgs: unknown = undefined;
-        try {
-          if (typeof data.arguments === 'string') parsedArgs = JSON.parse(data.arguments);
-        } catch { /* ignore bad arguments */ }
-        const name = typeof data.name === 'string' ? data.name : 'tool';
-        messages.push({
-          sessionId,
-          timestamp: ts,
-          type: 'assistant',
-          message: { role: 'assistant', content: [{ type: 'tool_use', name, input: parsedArgs, tool_use_id: data.call_id }] as ContentPart[] },
-          cwd: cwdFromIntro || ''
-        } as Message);
-        counter++;
-        continue;
-      }
+/** Full transcript of one rollout file; null when it cannot be read or holds no messages. */
+export async function readConversationFile(filePath: string, sessionRoot?: string): Promise<Conversation | null> {
+  const { conversation } = await readRollout(filePath);
+  return conversation ? { ...conversation, sessionRoot } : null;
+}
 
-      if (data.type === 'function_call_output') {
-        const ts = new Date(startTimestamp.getTime() + counter).toISOString();
-        let stdout: string | undefined;
-        if (typeof data.output === 'string') {
-          try {
-            const out = JSON.parse(data.output);
-            stdout = (out && typeof out.output === 'string') ? out.output : data.output;
-          } catch {
-            stdout = data.output;
-          }
-        }
-        messages.push({
-          sessionId,
-          timestamp: ts,
-          type: 'assistant',
-          message: { role: 'assistant', content: [{ type: 'tool_result' }] as ContentPart[] },
-          cwd: cwdFromIntro || '',
-          toolUseResult: stdout ? { stdout } : { content: 'tool call finished' }
-        } as Message);
-        counter++;
-        continue;
-      }
-    }
+/** Reads a rollout file like the list does, without the session index, and reports what went wrong. */
+export async function diagnoseRollout(filePath: string): Promise<{ format: RolloutFormat | null; conversation: Conversation | null; problems: RolloutProblems }> {
+  const problems: RolloutProblems = { lines: 0, malformedLines: [], oversizedLines: [], truncatedLastLine: false };
+  const { format, conversation } = await readRollout(filePath, { summaryOnly: true }, problems);
+  return { format, conversation, problems };
+}
 
-    if (messages.length === 0) return null;
-
-    const userMessages = messages.filter(m => m.type === 'user');
-    const projectName = projectNameFromRepoUrl(repoUrl);
-    const startTime = startTimestamp;
-    let endTime = startTime;
-    try { const s = await stat(filePath); endTime = s.mtime; } catch { /* ignore */ }
-
-    let gitBranch = '-';
-    try {
-      const meta = JSON.parse(lines[0]);
-      if (meta && meta.git && typeof meta.git.branch === 'string') gitBranch = meta.git.branch || '-';
-    } catch { /* ignore */ }
-
-    const projectPath = cwdFromIntro || '';
-
-    return {
-      sessionId,
-      sourcePath: filePath,
-      projectPath,
-      projectName,
-      gitBranch,
-      messages,
-      firstMessage: userMessages.length > 0 ? extractMessageText(userMessages[0].message?.content) : '',
-      lastMessage: userMessages.length > 0 ? extractMessageText(userMessages[userMessages.length - 1].message?.content) : '',
-      startTime,
-      endTime
-    };
+async function readdirSortedDesc(path: string): Promise<string[]> {
+  try {
+    return (await readdir(path)).sort().reverse();
   } catch (error) {
-    console.error(`Error reading legacy conversation file ${filePath}:`, error);
-    return null;
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT' || (error as NodeJS.ErrnoException).code === 'ENOTDIR') return [];
+    throw error;
   }
 }
 
-async function readConversationNew(filePath: string): Promise<Conversation | null> {
-  try {
-    const content = await readFile(filePath, 'utf-8');
-    const lines = content.trim().split('\n').filter(l => l.trim());
-    if (lines.length === 0) return null;
-
-    interface NewLineBase { timestamp?: string; type?: string; payload?: unknown }
-    interface SessionMetaPayload { id?: string; timestamp?: string; cwd?: string; instructions?: string; git?: { branch?: string; repository_url?: string } }
-    // ResponseItem payloads are variant; we'll treat them as 'any' in parsing logic below.
-
-    let sessionId = '';
-    let startTimestamp = new Date();
-    let cwd = '';
-    let repoUrl: string | undefined;
-    let gitBranch: string | undefined;
-
-    // Parse session_meta from the first line
-    try {
-      const first = JSON.parse(lines[0]) as NewLineBase;
-      if (first && first.type === 'session_meta' && first.payload && typeof first.payload === 'object') {
-        const p = first.payload as SessionMetaPayload;
-        sessionId = (typeof p.id === 'string' && p.id) ? p.id : basename(filePath).replace('.jsonl', '');
-        if (typeof p.timestamp === 'string') {
-          const ts = new Date(p.timestamp);
-          startTimestamp = isNaN(ts.getTime()) ? new Date() : ts;
-        }
-        cwd = typeof p.cwd === 'string' ? p.cwd : '';
-        if (p.git) {
-          if (typeof p.git.repository_url === 'string') repoUrl = p.git.repository_url;
-          if (typeof p.git.branch === 'string') gitBranch = p.git.branch;
-        }
-      } else {
-        // Not a new-format file
-        return null;
+// Children of several directories merged by name, newest (highest) name first
+async function readMergedChildrenDesc(parents: SessionDirectory[]): Promise<SessionDirectory[][]> {
+  const byName = new Map<string, SessionDirectory[]>();
+  for (const parent of parents) {
+    let names: string[] = [];
+    // An unreadable root (e.g. an unmounted archive disk) must not hide the others
+    try { names = await readdirSortedDesc(parent.path); } catch { continue; }
+    for (const name of names) {
+      const dirs = byName.get(name) ?? [];
+      dirs.push({ root: parent.root, path: join(parent.path, name) });
+      byName.set(name, dirs);
+    }
+  }
+  return Array.from(byName.keys()).sort().reverse().map(name => byName.get(name)!);
+}
+
+// Yields each YYYY/MM/DD day newest-first with its directories in every root, reading each level only when reached
+async function* walkDayDirectories(roots: string[]): AsyncGenerator<SessionDirectory[]> {
+  for (const years of await readMergedChildrenDesc(roots.map(root => ({ root, path: root })))) {
+    for (const months of await readMergedChildrenDesc(years)) {
+      for (const days of await readMergedChildrenDesc(months)) {
+        yield days;
       }
-    } catch {
-      return null;
     }
+  }
+}
 
-    const messages: Message[] = [];
-    let counter = 0;
-
-    // Iterate remaining lines
-    for (let i = 1; i < lines.length; i++) {
-      let parsed: unknown;
-      try { parsed = JSON.parse(lines[i]); } catch { continue; }
-      if (!parsed || typeof parsed !== 'object') continue;
-      const data = parsed as NewLineBase;
-      const ts = typeof data.timestamp === 'string' ? data.timestamp : new Date(startTimestamp.getTime() + counter).toISOString();
-
-      if (data.type === 'response_item' && data.payload && typeof data.payload === 'object') {
-        const payload = data.payload as Record<string, unknown>;
-        const pType = typeof payload.type === 'string' ? (payload.type as string).toLowerCase() : '';
-
-        // 1) Chat messages (user/assistant)
-        if (pType === 'message' && (payload.role === 'user' || payload.role === 'assistant')) {
-          // Hide initial environment_context messages from history (parity with legacy)
-          const contentArr = Array.isArray(payload.content) ? (payload.content as unknown[]) : [];
-          const isEnv = contentArr.some((it) => typeof (it as { text?: unknown })?.text === 'string' && ((it as { text?: string }).text as string).includes('<environment_context>'));
-          if (isEnv) { counter++; continue; }
-
-          const parts: ContentPart[] = contentArr.map((p): ContentPart | null => {
-            const t = typeof (p as { type?: unknown })?.type === 'string' ? ((p as { type?: string }).type as string).toLowerCase() : '';
-            const text = typeof (p as { text?: unknown })?.text === 'string' ? (p as { text?: string }).text : undefined;
-            if (t === 'input_text') return { type: 'input_text', text };
-            if (t === 'output_text') return { type: 'output_text', text };
-            if (t === 'text') return { type: 'text', text };
-            return null;
-          }).filter(Boolean) as ContentPart[];
-
-          messages.push({
-            sessionId,
-            timestamp: ts,
-            type: payload.role,
-            message: { role: payload.role, content: parts },
-            cwd
-          });
-          counter++;
-          continue;
-        }
+async function listRolloutFilesIn(dayPath: string): Promise<string[]> {
+  let entries: string[] = [];
+  try { entries = await readdirSortedDesc(dayPath); } catch { return []; }
+  return entries.filter(isRolloutFile).map(f => join(dayPath, f));
+}
 
-        // 2) Reasoning — skip (parity with legacy)
-        if (pType === 'reasoning') {
-          counter++;
-          continue;
-        }
+async function statDay(day: SessionDirectory[], seen: Set<string>): Promise<RolloutFile[]> {
+  const files: RolloutFile[] = [];
+  for (const dir of day) {
+    for (const filePath of await listRolloutFilesIn(dir.path)) {
+      try {
+        const s = await stat(filePath);
+        files.push({ root: dir.root, filePath, stamp: { size: s.size, mtimeMs: s.mtimeMs } });
+        seen.add(filePath);
+      } catch { /* removed since the directory was read */ }
+    }
+  }
+  return files;
+}
 
-        // 3) Function/tool calls → map to tool_use
-        if (pType === 'function_call') {
-          let input: unknown = undefined;
-          try {
-            if (typeof payload.arguments === 'string') input = JSON.parse(payload.arguments as string);
-          } catch { /* ignore */ }
-          const name = typeof payload.name === 'string' ? (payload.name as string) : 'tool';
-          const callId = typeof payload.call_id === 'string' ? (payload.call_id as string) : undefined;
-          messages.push({
-            sessionId,
-            timestamp: ts,
-            type: 'assistant',
-            message: { role: 'assistant', content: [{ type: 'tool_use', name, input, tool_use_id: callId }] as ContentPart[] },
-            cwd
-          });
-          counter++;
-          continue;
-        }
+async function summarizeFiles(files: RolloutFile[], index: SessionIndex): Promise<Conversation[]> {
+  const conversations: Conversation[] = [];
 
-        if (pType === 'function_call_output') {
-          // We deliberately do not render stdout/stderr in preview (parity with legacy)
-          messages.push({
-            sessionId,
-            timestamp: ts,
-            type: 'assistant',
-            message: { role: 'assistant', content: [{ type: 'tool_result' }] as ContentPart[] },
-            cwd,
-            toolUseResult: { content: 'tool call finished' }
-          });
-          counter++;
-          continue;
-        }
+  for (const { root, filePath, stamp } of files) {
+    const cached = lookupSessionIndex(index, filePath, stamp);
+    if (cached) {
+      if (cached.conversation) conversations.push({ ...cached.conversation, sessionRoot: root });
+      continue;
+    }
 
-        if (pType === 'custom_tool_call') {
-          const name = typeof payload.name === 'string' ? `custom:${payload.name as string}` : 'custom_tool';
-          let input: unknown = undefined;
-          try {
-            if (typeof payload.input === 'string') input = JSON.parse(payload.input as string);
-          } catch { input = payload.input as unknown; }
-          const callId = typeof payload.call_id === 'string' ? (payload.call_id as string) : undefined;
-          messages.push({
-            sessionId,
-            timestamp: ts,
-            type: 'assistant',
-            message: { role: 'assistant', content: [{ type: 'tool_use', name, input, tool_use_id: callId }] as ContentPart[] },
-            cwd
-          });
-          counter++;
-          continue;
-        }
+    const { format, conversation } = await summarizeRollout(filePath);
+    const entry = conversation ? { ...conversation, sessionRoot: root } : null;
+    updateSessionIndex(index, filePath, stamp, format, entry);
+    if (entry) conversations.push(entry);
+  }
 
-        if (pType === 'custom_tool_call_output') {
-          messages.push({
-            sessionId,
-            timestamp: ts,
-            type: 'assistant',
-            message: { role: 'assistant', content: [{ type: 'tool_result' }] as ContentPart[] },
-            cwd,
-            toolUseResult: { content: 'tool call finished' }
-          });
-          counter++;
-          continue;
-        }
+  return conversations;
+}
 
-        if (pType === 'local_shell_call') {
-          // Map to [Tool: shell] with command vector if available
-          const action = (payload.action as Record<string, unknown>) || {};
-          const command = Array.isArray(action.command) ? (action.command as unknown[]) : undefined;
-          messages.push({
-            sessionId,
-            timestamp: ts,
-            type: 'assistant',
-            message: { role: 'assistant', content: [{ type: 'tool_use', name: 'shell', input: { command } }] as ContentPart[] },
-            cwd
-          });
-          counter++;
-          continue;
-        }
+// Reads a rollout file for the list. The last few files read are followed (see followRollout),
+// so a session Codex is still writing is read from where the previous read stopped.
+async function summarizeRollout(filePath: string): Promise<{ format: RolloutFormat | null; conversation: Conversation | null }> {
+  const follower = followedRollouts.get(filePath) ?? followRollout(filePath, { summaryOnly: true });
+  // Most recently read last, so the first key is the one to forget
+  followedRollouts.delete(filePath);
+  followedRollouts.set(filePath, follower);
+  if (followedRollouts.size > MAX_FOLLOWED_ROLLOUTS) followedRollouts.delete(followedRollouts.keys().next().value!);
+  await follower.readAppended();
+  return { format: follower.format(), conversation: follower.current() };
+}
 
-        if (pType === 'web_search_call') {
-          const action = (payload.action as Record<string, unknown>) || {};
-          const query = typeof action.query === 'string' ? (action.query as string) : undefined;
-          messages.push({
-            sessionId,
-            timestamp: ts,
-            type: 'assistant',
-            message: { role: 'assistant', content: [{ type: 'tool_use', name: 'web_search', input: { query } }] as ContentPart[] },
-            cwd
-          });
-          counter++;
-          continue;
+/**
+ * Parses a rollout file with the format adapter that recognizes its first line.
+ * `format` is null for files no adapter recognizes; read errors yield no conversation and are
+ * recorded in `problems` when given (never printed, which would corrupt the Ink display).
+ */
+async function readRollout(filePath: string, options: ReadOptions = {}, problems?: RolloutProblems): Promise<{ format: RolloutFormat | null; conversation: Conversation | null }> {
+  let format: RolloutFormat | null = null;
+  const onOversizedLine = problems ? (lineNumber: number) => { problems.oversizedLines.push(lineNumber); } : undefined;
+  try {
+    let parser: RolloutParser | null = null;
+    // Lines read before the format is known, fed to the parser once it is
+    const leading: { text: string; lineNumber: number }[] = [];
+    for await (const { text, lineNumber, complete } of readJsonlLines(filePath, { onOversizedLine })) {
+      if (problems) {
+        problems.lines++;
+        if (parseRecord(text) === null) {
+          if (complete) problems.malformedLines.push(lineNumber);
+          else problems.truncatedLastLine = true;
+        }
+      }
+      let lines = [{ text, lineNumber }];
+      if (!parser) {
+        leading.push({ text, lineNumber });
+        const adapter = sniffRolloutFormat(leading.map(line => line.text));
+        if (adapter === undefined) continue;
+        if (!adapter) return { format: null, conversation: null };
+        format = adapter.id;
+        parser = adapter.createParser(filePath, options);
+        lines = leading;
+      }
+      for (const line of lines) {
+        if (!parser.feed(line.text, line.lineNumber)) {
+          if (problems) problems.rejectedAtLine = line.lineNumber;
+          return { format, conversation: null };
         }
-
-        // Other response_item variants — ignore for now to keep parity/noise low
-        counter++;
-        continue;
       }
-
-      // Skip event_msg lines in new format (parity with legacy which hid tool output details)
-      if (data.type === 'event_msg') { counter++; continue; }
     }
-
-    if (messages.length === 0) return null;
-
-    const startTime = startTimestamp;
-    let endTime = startTime;
-    try { const s = await stat(filePath); endTime = s.mtime; } catch { /* ignore */ }
-    const projectName = projectNameFromRepoUrl(repoUrl);
-
-    return {
-      sessionId,
-      sourcePath: filePath,
-      projectPath: cwd,
-      projectName,
-      gitBranch: gitBranch || '-',
-      messages,
-      firstMessage: extractMessageText(messages.find(m => m.type === 'user')?.message?.content) || '',
-      lastMessage: extractMessageText(messages.filter(m => m.type === 'user').slice(-1)[0]?.message?.content) || '',
-      startTime,
-      endTime
-    };
+    let endTime: Date | undefined;
+    try { endTime = (await stat(filePath)).mtime; } catch { /* ignore */ }
+    return { format, conversation: parser?.build(endTime) ?? null };
   } catch (error) {
-    console.error(`Error reading new-format conversation file ${filePath}:`, error);
-    return null;
-  }
-}
-
-async function isNewFormatFile(filePath: string): Promise<boolean> {
-  try {
-    const content = await readFile(filePath, 'utf-8');
-    const first = content.split('\n').find(l => l.trim());
-    if (!first) return false;
-    const obj = JSON.parse(first) as { type?: string };
-    return obj && obj.type === 'session_meta';
-  } catch {
-    return false;
+    if (problems) problems.error = error instanceof Error ? error.message : String(error);
+    return { format, conversation: null };
   }
 }
 
@@ -2,6 +2,11 @@ import type { Conversation } from '../types.js';
 import { extractMessageText } from './messageUtils.js';
 
 export function generateConversationSummary(conversation: Conversation): string {
+  // List entries carry no messages; summarize from the first user message text instead
+  if (conversation.messages.length === 0) {
+    return cleanSummaryText(conversation.firstMessage || '') || 'No user messages';
+  }
+
   // Get user messages that have actual text content (not tool results)
   const userMessages = conversation.messages
     .filter(m => {
@@ -25,30 +30,28 @@ export function generateConversationSummary(conversation: Conversation): string
   const firstUserMessage = userMessages[0];
   const messageText = extractMessageText(firstUserMessage.message?.content || '');
   
-  // Clean up the message - remove ALL newlines, HTML tags, and normalize spaces
-  const cleanedMessage = messageText
-    .replace(/[\r\n]+/g, ' ')           // Replace all newlines with space
-    .replace(/<[^>]*>/g, '')            // Remove HTML tags
-    .replace(/\s+/g, ' ')               // Replace multiple spaces with single space
-    .replace(/[`'"]/g, '')              // Remove quotes that might break display
-    .replace(/^\[.*?\]\s*/, '')         // Remove [Tool: xxx] prefixes
-    .trim();
+  const cleanedMessage = cleanSummaryText(messageText);
   
   // If message is empty after cleaning, try the next one
   if (!cleanedMessage && userMessages.length > 1) {
     const secondMessage = extractMessageText(userMessages[1].message?.content || '');
-    return secondMessage
-      .replace(/[\r\n]+/g, ' ')
-      .replace(/<[^>]*>/g, '')
-      .replace(/\s+/g, ' ')
-      .replace(/[`'"]/g, '')
-      .replace(/^\[.*?\]\s*/, '')
-      .trim() || 'No summary available';
+    return cleanSummaryText(secondMessage) || 'No summary available';
   }
   
   return cleanedMessage || 'No summary available';
 }
 
+function cleanSummaryText(text: string): string {
+  // Clean up the message - remove ALL newlines, HTML tags, and normalize spaces
+  return text
+    .replace(/[\r\n]+/g, ' ')           // Replace all newlines with space
+    .replace(/<[^>]*>/g, '')            // Remove HTML tags
+    .replace(/\s+/g, ' ')               // Replace multiple spaces with single space
+    .replace(/[`'"]/g, '')              // Remove quotes that might break display
+    .replace(/^\[.*?\]\s*/, '')         // Remove [Tool: xxx] prefixes
+    .trim();
+}
+
 export function formatProjectPath(path: string): string {
   // Shorten home directory path for both Unix and Windows
   const home = process.env.HOME || process.env.USERPROFILE || (process.platform === 'win32' ? 'C:\\Users\\Default' : '/home');
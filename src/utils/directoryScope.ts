@@ -0,0 +1,60 @@
+import { existsSync } from 'fs';
+import { dirname, join, resolve, sep } from 'path';
+import { formatProjectPath } from './conversationUtils.js';
+
+// Which sessions `cdxresume .` lists, relative to the directory it was started in:
+//   exact        sessions started in that directory
+//   descendants  sessions started in it or any directory below it
+//   repo         sessions started anywhere in the enclosing git repository
+
+export type DirectoryScopeMode = 'exact' | 'descendants' | 'repo';
+
+export const DIRECTORY_SCOPE_MODES: readonly DirectoryScopeMode[] = ['exact', 'descendants', 'repo'];
+
+export interface DirectoryScope {
+  mode: DirectoryScopeMode;
+  // The directory itself, or the repository root for `repo`
+  path: string;
+}
+
+export function isDirectoryScopeMode(value: unknown): value is DirectoryScopeMode {
+  return typeof value === 'string' && (DIRECTORY_SCOPE_MODES as readonly string[]).includes(value);
+}
+
+/** Nearest directory at or above `dir` containing `.git` (a directory, or a file for worktrees and submodules). */
+export function findGitRoot(dir: string): string | null {
+  let current = resolve(dir);
+  for (;;) {
+    if (existsSync(join(current, '.git'))) return current;
+    const parent = dirname(current);
+    if (parent === current) return null;
+    current = parent;
+  }
+}
+
+/**
+ * Scope for `cwd`. Outside a git repository `repo` falls back to `descendants`, which is what
+ * it would cover if the repository started at `cwd`.
+ */
+export function resolveDirectoryScope(cwd: string, mode: DirectoryScopeMode): DirectoryScope {
+  const path = resolve(cwd);
+  if (mode !== 'repo') return { mode, path };
+  const root = findGitRoot(path);
+  return root ? { mode, path: root } : { mode: 'descendants', path };
+}
+
+export function matchesDirectoryScope(projectPath: string, scope: DirectoryScope): boolean {
+  if (!projectPath) return false;
+  if (projectPath === scope.path) return true;
+  if (scope.mode === 'exact') return false;
+  const prefix = scope.path.endsWith(sep) ? scope.path : `${scope.path}${sep}`;
+  return projectPath.startsWith(prefix);
+}
+
+export function describeDirectoryScope(scope: DirectoryScope): string {
+  switch (scope.mode) {
+    case 'exact': return formatProjectPath(scope.path);
+    case 'descendants': return `${formatProjectPath(scope.path)} and below`;
+    case 'repo': return `git repo ${formatProjectPath(scope.path)}`;
+  }
+}
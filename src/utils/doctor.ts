@@ -0,0 +1,138 @@
+import { stat } from 'fs/promises';
+import type { RolloutFormat } from './rolloutFormats/index.js';
+import { diagnoseRollout, walkRolloutFiles, type RolloutProblems } from './conversationReader.js';
+import { detectCodexSupport, detectCodexVersion, type CodexSupport } from './codexSupport.js';
+import { diagnoseConfig, type ConfigDiagnosis } from './configLoader.js';
+import { MAX_LINE_BYTES } from './jsonlStream.js';
+
+// `cdxresume doctor`: everything worth attaching to a bug report about sessions that are
+// missing from the list or look wrong in it.
+
+// Line numbers listed per problem before the rest is summarized as a count
+const MAX_LISTED_LINES = 10;
+
+export interface RootReport {
+  path: string;
+  exists: boolean;
+  files: number;
+}
+
+export interface FileReport {
+  filePath: string;
+  format: RolloutFormat | null;
+  problems: string[];
+}
+
+export interface DoctorReport {
+  cdxresumeVersion?: string;
+  nodeVersion: string;
+  platform: string;
+  // Null when codex is not on PATH
+  codexVersion: string | null;
+  codexSupport: CodexSupport;
+  config: ConfigDiagnosis;
+  roots: RootReport[];
+  formats: Record<RolloutFormat | 'unrecognized', number>;
+  // Files that failed to parse or had malformed lines
+  problemFiles: FileReport[];
+  // Files that parsed but hold no messages, so the list leaves them out
+  hiddenSessions: string[];
+}
+
+export async function collectDoctorReport(options: { roots: string[]; cdxresumeVersion?: string }): Promise<DoctorReport> {
+  const report: DoctorReport = {
+    cdxresumeVersion: options.cdxresumeVersion,
+    nodeVersion: process.version,
+    platform: `${process.platform} ${process.arch}`,
+    codexVersion: detectCodexVersion(),
+    codexSupport: detectCodexSupport(),
+    config: diagnoseConfig(),
+    roots: [],
+    formats: { 'rollout-v1': 0, legacy: 0, unrecognized: 0 },
+    problemFiles: [],
+    hiddenSessions: []
+  };
+
+  for (const path of options.roots) {
+    const root: RootReport = { path, exists: await isDirectory(path), files: 0 };
+    report.roots.push(root);
+    if (!root.exists) continue;
+
+    for await (const { filePath } of walkRolloutFiles([path])) {
+      root.files++;
+      const { format, conversation, problems } = await diagnoseRollout(filePath);
+      report.formats[format ?? 'unrecognized']++;
+      const descriptions = describeProblems(format, problems);
+      if (descriptions.length > 0) report.problemFiles.push({ filePath, format, problems: descriptions });
+      else if (!conversation) report.hiddenSessions.push(filePath);
+    }
+  }
+  return report;
+}
+
+function describeProblems(format: RolloutFormat | null, problems: RolloutProblems): string[] {
+  if (problems.error) return [`could not be read: ${problems.error}`];
+  if (!format) {
+    return problems.lines > 0 ? ['unrecognized format: the first line is neither a rollout-v1 session_meta record nor a legacy session header'] : [];
+  }
+  const descriptions: string[] = [];
+  if (problems.malformedLines.length > 0) {
+    descriptions.push(`${plural(problems.malformedLines.length, 'malformed line')} skipped: ${formatLineNumbers(problems.malformedLines)}`);
+  }
+  if (problems.oversizedLines.length > 0) {
+    descriptions.push(`${plural(problems.oversizedLines.length, 'line')} over ${MAX_LINE_BYTES / 1024 / 1024} MB skipped: ${formatLineNumbers(problems.oversizedLines)}`);
+  }
+  if (problems.rejectedAtLine !== undefined) descriptions.push(`parsing stopped at line ${problems.rejectedAtLine}`);
+  if (problems.truncatedLastLine) descriptions.push('last line is incomplete (Codex may still be writing it)');
+  return descriptions;
+}
+
+export function formatDoctorReport(report: DoctorReport): string {
+  const yesNo = (value: boolean) => (value ? 'yes' : 'no');
+  const support = report.codexSupport;
+  const lines: string[] = [
+    'cdxresume doctor',
+    '',
+    `cdxresume ${report.cdxresumeVersion ?? 'unknown'} | Node ${report.nodeVersion} | ${report.platform}`,
+    report.codexVersion
+      ? `Codex ${report.codexVersion} | resume command: ${yesNo(support.supportsResumeCommand)}, --resume: ${yesNo(support.supportsResumeFlag)}, --continue: ${yesNo(support.supportsContinueFlag)}, --session-id: ${yesNo(support.supportsSessionIdFlag)}`
+      : 'Codex: not found on PATH',
+    '',
+    `Config: ${report.config.path}${report.config.exists ? '' : ' (not present, defaults in use)'}`
+  ];
+  for (const problem of report.config.problems) lines.push(`  ! ${problem}`);
+
+  lines.push('', 'Session roots:');
+  for (const root of report.roots) {
+    lines.push(`  ${root.path}  ${root.exists ? plural(root.files, 'rollout file') : 'missing'}`);
+  }
+  lines.push('', `Formats: rollout-v1 ${report.formats['rollout-v1']}, legacy ${report.formats.legacy}, unrecognized ${report.formats.unrecognized}`);
+
+  lines.push('', `Files with problems: ${report.problemFiles.length === 0 ? 'none' : report.problemFiles.length}`);
+  for (const file of report.problemFiles) {
+    lines.push(`  ${file.filePath}${file.format ? ` [${file.format}]` : ''}`);
+    for (const problem of file.problems) lines.push(`    - ${problem}`);
+  }
+
+  lines.push('', `Sessions hidden because they have no messages: ${report.hiddenSessions.length === 0 ? 'none' : report.hiddenSessions.length}`);
+  for (const filePath of report.hiddenSessions) lines.push(`  ${filePath}`);
+  return lines.join('\n');
+}
+
+function formatLineNumbers(lineNumbers: number[]): string {
+  const listed = lineNumbers.slice(0, MAX_LISTED_LINES).join(', ');
+  const more = lineNumbers.length - MAX_LISTED_LINES;
+  return more > 0 ? `${listed} (+${more} more)` : listed;
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+async function isDirectory(path: string): Promise<boolean> {
+  try {
+    return (await stat(path)).isDirectory();
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,422 @@
+import { writeFile } from 'fs/promises';
+import { join } from 'path';
+import { format } from 'date-fns';
+import type { ContentPart, Conversation, Message, TokenUsage, ToolInvocation } from '../types.js';
+import { formatProjectPath } from './conversationUtils.js';
+import { effectiveToolName, formatDuration, formatTokenCount } from './messageUtils.js';
+import { filterTranscriptMessages } from './transcriptFormat.js';
+
+// `cdxresume export <session>` and the TUI's export action: one transcript as Markdown to paste
+// into docs and PR descriptions, as a self-contained HTML page, or as JSON in the versioned
+// schema documented in docs/export-schema.md. All three are rendered from that JSON form.
+
+export type ExportFormat = 'markdown' | 'html' | 'json';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['markdown', 'html', 'json'];
+export const EXPORT_SCHEMA = 'cdxresume.conversation';
+// Bumped when a field is removed or changes meaning; new fields keep the version
+export const EXPORT_SCHEMA_VERSION = 1;
+
+export interface ExportCommandOptions {
+  // Session id, id prefix or rollout file path
+  target: string;
+  format: ExportFormat;
+  // File to write; stdout when omitted or '-'
+  output?: string;
+}
+
+export interface ExportDocument {
+  schema: typeof EXPORT_SCHEMA;
+  version: number;
+  // ISO 8601
+  exportedAt: string;
+  session: ExportSession;
+  messages: ExportMessage[];
+}
+
+export interface ExportSession {
+  sessionId: string;
+  sourcePath: string | null;
+  projectPath: string;
+  // owner/name from the git remote
+  repository: string | null;
+  branch: string | null;
+  // ISO 8601
+  startTime: string;
+  endTime: string;
+  models: string[];
+  tokenUsage: TokenUsage | null;
+}
+
+export interface ExportMessage {
+  id: string | null;
+  role: 'user' | 'assistant';
+  // As recorded in the rollout file (ISO 8601)
+  timestamp: string;
+  // Prompt or reply text; empty for tool calls and reasoning
+  text: string;
+  // Reasoning summary
+  thinking: string | null;
+  // Error reported by Codex
+  error: string | null;
+  tool: ExportToolCall | null;
+  // Usage reported for the turn this message closes
+  tokenUsage: TokenUsage | null;
+}
+
+export interface ExportToolCall {
+  callId: string | null;
+  // Tool that ran (shell calls applying a patch are apply_patch); null for an output whose call
+  // was not recorded
+  name: string | null;
+  // Arguments as recorded: parsed JSON, or the raw string
+  input: unknown;
+  // Shell command line, unwrapped from `bash -lc`
+  command: string | null;
+  // apply_patch body
+  patch: string | null;
+  status: 'ok' | 'failed' | 'pending';
+  exitCode: number | null;
+  durationMs: number | null;
+  stdout: string | null;
+  stderr: string | null;
+}
+
+const FILE_EXTENSIONS: Record<ExportFormat, string> = { markdown: 'md', html: 'html', json: 'json' };
+// Format aliases accepted by --format, and the one an --output extension implies
+const FORMAT_NAMES = new Map<string, ExportFormat>([['markdown', 'markdown'], ['md', 'markdown'], ['html', 'html'], ['htm', 'html'], ['json', 'json']]);
+// Failed commands include the end of their output
+const OUTPUT_TAIL_LINES = 20;
+// Longest command shown on a collapsed HTML tool call
+const SUMMARY_COMMAND_WIDTH = 100;
+const TEXT_PART_TYPES = new Set(['text', 'input_text', 'output_text']);
+const THINKING_PART_TYPES = new Set(['thinking']);
+const ERROR_PART_TYPES = new Set(['error']);
+const SHELL_WRAPPERS = /^(?:\/\S*\/)?(?:ba|z)?sh$/;
+
+/** Parses the arguments after `export` (--hide and --sessions-dir are handled by the CLI). */
+export function parseExportArgs(args: string[]): { options: ExportCommandOptions; problems: string[] } {
+  const problems: string[] = [];
+  const targets: string[] = [];
+  let formatFlag: ExportFormat | undefined;
+  let output: string | undefined;
+
+  for (let i = 0; i < args.length; i++) {
+    const [flag, inlineValue] = args[i].startsWith('--') && args[i].includes('=')
+      ? [args[i].slice(0, args[i].indexOf('=')), args[i].slice(args[i].indexOf('=') + 1)]
+      : [args[i], undefined];
+    const takeValue = (): string | undefined => inlineValue ?? args[++i];
+
+    if (flag === '--markdown' || flag === '--html' || flag === '--json') {
+      formatFlag = FORMAT_NAMES.get(flag.slice(2));
+    } else if (flag === '--format') {
+      const value = takeValue();
+      formatFlag = value ? FORMAT_NAMES.get(value.toLowerCase()) : undefined;
+      if (!formatFlag) problems.push(`--format expects one of ${EXPORT_FORMATS.join(', ')}${value ? `, got '${value}'` : ''}`);
+    } else if (flag === '--output' || flag === '-o') {
+      output = takeValue();
+      if (!output) problems.push(`${flag} needs a file name`);
+    } else if (flag.startsWith('-') && flag !== '-') {
+      problems.push(`Unknown option '${args[i]}'`);
+    } else {
+      targets.push(args[i]);
+    }
+  }
+
+  if (targets.length !== 1) problems.push('export expects one session id, id prefix or rollout file path');
+  // Without a format flag the output file's extension picks one
+  const extension = output?.match(/\.([a-z]+)$/i)?.[1].toLowerCase();
+  const exportFormat = formatFlag ?? (extension ? FORMAT_NAMES.get(extension) : undefined) ?? 'markdown';
+  return { options: { target: targets[0] ?? '', format: exportFormat, output: output === '-' ? undefined : output }, problems };
+}
+
+export function toExportDocument(conversation: Conversation, hideOptions: string[], exportedAt = new Date()): ExportDocument {
+  return {
+    schema: EXPORT_SCHEMA,
+    version: EXPORT_SCHEMA_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    session: {
+      sessionId: conversation.sessionId,
+      sourcePath: conversation.sourcePath ?? null,
+      projectPath: conversation.projectPath,
+      repository: conversation.projectName && conversation.projectName !== '-' ? conversation.projectName : null,
+      branch: conversation.gitBranch && conversation.gitBranch !== '-' ? conversation.gitBranch : null,
+      startTime: conversation.startTime.toISOString(),
+      endTime: conversation.endTime.toISOString(),
+      models: conversation.models ?? [],
+      tokenUsage: conversation.tokenUsage ?? null
+    },
+    messages: filterTranscriptMessages(conversation.messages, hideOptions).map(toExportMessage)
+  };
+}
+
+/** The transcript in `exportFormat`, ending with a newline. `hideOptions` are the --hide types. */
+export function exportConversation(conversation: Conversation, exportFormat: ExportFormat, hideOptions: string[]): string {
+  const document = toExportDocument(conversation, hideOptions);
+  switch (exportFormat) {
+    case 'json': return `${JSON.stringify(document, null, 2)}\n`;
+    case 'markdown': return renderMarkdown(document);
+    case 'html': return renderHtml(document);
+  }
+}
+
+export function exportFileName(conversation: Conversation, exportFormat: ExportFormat): string {
+  return `codex-${conversation.sessionId}.${FILE_EXTENSIONS[exportFormat]}`;
+}
+
+/** Writes the export into `directory` (the working directory by default) and returns its path. */
+export async function writeExportFile(conversation: Conversation, exportFormat: ExportFormat, hideOptions: string[], directory = process.cwd()): Promise<string> {
+  const filePath = join(directory, exportFileName(conversation, exportFormat));
+  await writeFile(filePath, exportConversation(conversation, exportFormat, hideOptions), 'utf-8');
+  return filePath;
+}
+
+function toExportMessage(msg: Message): ExportMessage {
+  const content = msg.message?.content;
+  const parts: ContentPart[] = Array.isArray(content) ? content.filter(Boolean) : [];
+  const texts = (types: ReadonlySet<string>) => parts.flatMap(part => {
+    if (!types.has(part.type)) return [];
+    const text = part.type === 'thinking' ? part.thinking : 'text' in part ? part.text : undefined;
+    return text?.trim() ? [text.trim()] : [];
+  });
+  const toolUse = parts.find(part => part.type === 'tool_use') as Extract<ContentPart, { type: 'tool_use' }> | undefined;
+
+  let tool: ExportToolCall | null = null;
+  if (toolUse) {
+    tool = toExportToolCall(toolUse, msg.tool);
+  } else if (msg.toolUseResult) {
+    // An output whose call is missing
+    const { exitCode, durationMs, stdout, stderr } = msg.toolUseResult;
+    tool = {
+      callId: null, name: null, input: null, command: null, patch: null,
+      status: exitCode !== undefined && exitCode !== 0 ? 'failed' : 'ok',
+      exitCode: exitCode ?? null, durationMs: durationMs ?? null, stdout: stdout ?? null, stderr: stderr ?? null
+    };
+  }
+
+  const errors = texts(ERROR_PART_TYPES);
+  const thinking = texts(THINKING_PART_TYPES);
+  return {
+    id: msg.id ?? null,
+    role: msg.type,
+    timestamp: msg.timestamp,
+    text: typeof content === 'string' ? content : texts(TEXT_PART_TYPES).join('\n\n'),
+    thinking: thinking.length > 0 ? thinking.join('\n\n') : null,
+    error: errors.length > 0 ? errors.join('\n') : null,
+    tool,
+    tokenUsage: msg.tokenUsage ?? null
+  };
+}
+
+function toExportToolCall(toolUse: Extract<ContentPart, { type: 'tool_use' }>, invocation: ToolInvocation | undefined): ExportToolCall {
+  const input = invocation?.input ?? toolUse.input ?? null;
+  const rawCommand = input && typeof input === 'object' ? (input as { command?: unknown; cmd?: unknown }).command ?? (input as { cmd?: unknown }).cmd : undefined;
+  let command: string | null = null;
+  let patch: string | null = null;
+  if (Array.isArray(rawCommand) && rawCommand[0] === 'apply_patch' && typeof rawCommand[1] === 'string') {
+    patch = rawCommand[1];
+  } else if (Array.isArray(rawCommand) && rawCommand.every(arg => typeof arg === 'string')) {
+    // `bash -lc "<script>"` reads better as the script itself
+    command = rawCommand.length === 3 && SHELL_WRAPPERS.test(rawCommand[0]) && /^-l?c$/.test(rawCommand[1]) ? rawCommand[2] : rawCommand.join(' ');
+  } else if (typeof rawCommand === 'string') {
+    command = rawCommand;
+  } else if (typeof input === 'string' && input.includes('*** Begin Patch')) {
+    // apply_patch sent as a custom tool carries the patch as its whole input
+    patch = input;
+  }
+
+  return {
+    callId: invocation?.callId ?? toolUse.tool_use_id ?? null,
+    name: effectiveToolName(invocation?.name ?? toolUse.name, input),
+    input,
+    command,
+    patch,
+    status: invocation?.success === undefined ? 'pending' : invocation.success ? 'ok' : 'failed',
+    exitCode: invocation?.exitCode ?? null,
+    durationMs: invocation?.durationMs ?? null,
+    stdout: invocation?.stdout ?? null,
+    stderr: invocation?.stderr ?? null
+  };
+}
+
+// "exit 0 after 1.2s", "failed: exit 1", "no output recorded"
+function describeOutcome(tool: ExportToolCall): string {
+  if (tool.status === 'pending') return 'no output recorded';
+  const details = [
+    ...(tool.exitCode !== null ? [`exit ${tool.exitCode}`] : []),
+    ...(tool.durationMs !== null ? [`after ${formatDuration(tool.durationMs)}`] : [])
+  ].join(' ');
+  if (tool.status === 'failed') return `failed${details ? `: ${details}` : ''}`;
+  return details || 'ok';
+}
+
+function outputTail(tool: ExportToolCall): string {
+  const lines = (tool.stderr || tool.stdout || '').split('\n').filter(line => line.trim());
+  return lines.slice(-OUTPUT_TAIL_LINES).join('\n');
+}
+
+// Label, value and a note shown after the value; Markdown sets the project and session in code
+function sessionFacts(session: ExportSession): Array<[string, string, string?]> {
+  const usage = session.tokenUsage;
+  return [
+    ['Project', formatProjectPath(session.projectPath), session.repository ? `(${session.repository})` : undefined],
+    ...(session.branch ? [['Branch', session.branch] as [string, string]] : []),
+    ['Started', format(new Date(session.startTime), 'yyyy-MM-dd HH:mm')],
+    ['Last activity', format(new Date(session.endTime), 'yyyy-MM-dd HH:mm')],
+    ...(session.models.length > 0 ? [['Models', session.models.join(', ')] as [string, string]] : []),
+    ...(usage ? [['Tokens', `${formatTokenCount(usage.inputTokens)} in / ${formatTokenCount(usage.outputTokens)} out`] as [string, string]] : []),
+    ['Session', session.sessionId]
+  ];
+}
+
+// A consecutive run of messages from one side; each run gets one heading
+function groupTurns(messages: ExportMessage[]): ExportMessage[][] {
+  const turns: ExportMessage[][] = [];
+  for (const message of messages) {
+    const last = turns[turns.length - 1];
+    if (last && last[0].role === message.role) last.push(message);
+    else turns.push([message]);
+  }
+  return turns;
+}
+
+function turnHeading(turn: ExportMessage[]): string {
+  const timestamp = new Date(turn[0].timestamp);
+  const time = isNaN(timestamp.getTime()) ? '' : ` · ${format(timestamp, 'HH:mm:ss')}`;
+  return `${turn[0].role === 'user' ? 'User' : 'Assistant'}${time}`;
+}
+
+// A code fence longer than any backtick run in `body`, so the block cannot end early
+function fence(body: string, language: string): string {
+  const longestRun = Math.max(2, ...(body.match(/`+/g) ?? []).map(run => run.length));
+  const ticks = '`'.repeat(longestRun + 1);
+  return `${ticks}${language}\n${body}\n${ticks}`;
+}
+
+function blockquote(text: string): string {
+  return text.split('\n').map(line => `> ${line}`.trimEnd()).join('\n');
+}
+
+function renderMarkdown(document: ExportDocument): string {
+  const blocks: string[] = [
+    `# Codex session ${document.session.sessionId.slice(0, 8)}`,
+    sessionFacts(document.session).map(([label, value, note]) =>
+      `- **${label}:** ${label === 'Project' || label === 'Session' ? `\`${value}\`` : value}${note ? ` ${note}` : ''}`).join('\n')
+  ];
+
+  for (const turn of groupTurns(document.messages)) {
+    blocks.push(`## ${turnHeading(turn)}`);
+    for (const message of turn) {
+      if (message.thinking) blocks.push(blockquote(`_Reasoning:_ ${message.thinking}`));
+      if (message.text) blocks.push(message.text);
+      if (message.error) blocks.push(blockquote(`**Error:** ${message.error}`));
+      if (message.tool) {
+        const tool = message.tool;
+        blocks.push(`**${tool.name ?? 'Tool output'}** · ${describeOutcome(tool)}`);
+        if (tool.patch) blocks.push(fence(tool.patch, 'diff'));
+        else if (tool.command) blocks.push(fence(tool.command, 'sh'));
+        else if (tool.input !== null && tool.name) blocks.push(fence(typeof tool.input === 'string' ? tool.input : JSON.stringify(tool.input, null, 2), typeof tool.input === 'string' ? '' : 'json'));
+        if (tool.status === 'failed' && outputTail(tool)) blocks.push(fence(outputTail(tool), 'text'));
+      }
+    }
+  }
+  return `${blocks.join('\n\n')}\n`;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' })[char] ?? char);
+}
+
+function patchLineClass(line: string): string | null {
+  if (line.startsWith('*** ')) return 'meta';
+  if (line.startsWith('@@')) return 'hunk';
+  if (line.startsWith('+')) return 'add';
+  if (line.startsWith('-')) return 'del';
+  return null;
+}
+
+function renderHtmlTool(tool: ExportToolCall): string {
+  const headline = tool.command?.split('\n')[0] ?? '';
+  const shortCommand = headline.length > SUMMARY_COMMAND_WIDTH ? `${headline.slice(0, SUMMARY_COMMAND_WIDTH)}…` : headline;
+  const summary = `<code>${escapeHtml(tool.name ?? 'Tool output')}</code>${shortCommand ? ` ${escapeHtml(shortCommand)}` : ''} <span class="outcome">${escapeHtml(describeOutcome(tool))}</span>`;
+  const body: string[] = [];
+  if (tool.patch) {
+    const lines = tool.patch.split('\n').map(line => {
+      const className = patchLineClass(line);
+      return className ? `<span class="${className}">${escapeHtml(line)}</span>` : escapeHtml(line);
+    });
+    body.push(`<pre class="patch">${lines.join('\n')}</pre>`);
+  } else if (tool.command) {
+    body.push(`<pre>${escapeHtml(tool.command)}</pre>`);
+  } else if (tool.input !== null && tool.name) {
+    body.push(`<pre>${escapeHtml(typeof tool.input === 'string' ? tool.input : JSON.stringify(tool.input, null, 2))}</pre>`);
+  }
+  if (tool.status === 'failed' && outputTail(tool)) body.push(`<pre class="output">${escapeHtml(outputTail(tool))}</pre>`);
+  // Failed calls start expanded
+  return `<details class="tool ${tool.status}"${tool.status === 'failed' ? ' open' : ''}><summary>${summary}</summary>${body.join('')}</details>`;
+}
+
+const HTML_STYLE = `
+body { font: 15px/1.5 -apple-system, BlinkMacSystemFont, "Segoe UI", Helvetica, Arial, sans-serif; margin: 0; color: #1f2328; background: #fff; }
+main { max-width: 900px; margin: 0 auto; padding: 24px; }
+h1 { font-size: 1.5em; margin: 0 0 8px; }
+dl { display: grid; grid-template-columns: max-content 1fr; gap: 2px 16px; margin: 0 0 24px; color: #59636e; }
+dt { font-weight: 600; }
+dd { margin: 0; }
+section { border-left: 4px solid #d1d9e0; padding: 4px 0 4px 16px; margin: 0 0 16px; }
+section.user { border-color: #0969da; }
+section.assistant { border-color: #1a7f37; }
+h2 { font-size: 1em; margin: 0 0 8px; }
+time { font-weight: normal; color: #59636e; }
+.text { white-space: pre-wrap; overflow-wrap: anywhere; margin: 0 0 8px; }
+.thinking { color: #59636e; font-style: italic; white-space: pre-wrap; margin: 0 0 8px; }
+.error { color: #d1242f; white-space: pre-wrap; margin: 0 0 8px; }
+details.tool { margin: 0 0 8px; border: 1px solid #d1d9e0; border-radius: 6px; padding: 4px 8px; }
+details.tool.failed { border-color: #d1242f; }
+summary { cursor: pointer; overflow-wrap: anywhere; }
+.outcome { color: #59636e; }
+.failed .outcome { color: #d1242f; }
+pre { background: #f6f8fa; padding: 8px; overflow-x: auto; font: 13px/1.45 ui-monospace, SFMono-Regular, Menlo, Consolas, monospace; }
+.patch .meta { color: #0969da; }
+.patch .hunk { color: #8250df; }
+.patch .add { color: #1a7f37; background: #dafbe1; }
+.patch .del { color: #d1242f; background: #ffebe9; }
+.output { color: #d1242f; }
+`;
+
+function renderHtml(document: ExportDocument): string {
+  const facts = sessionFacts(document.session)
+    .map(([label, value, note]) => `<dt>${escapeHtml(label)}</dt><dd>${escapeHtml(note ? `${value} ${note}` : value)}</dd>`).join('');
+  const sections = groupTurns(document.messages).map(turn => {
+    const [title, time] = turnHeading(turn).split(' · ');
+    const body = turn.map(message => [
+      message.thinking ? `<div class="thinking">${escapeHtml(message.thinking)}</div>` : '',
+      message.text ? `<div class="text">${escapeHtml(message.text)}</div>` : '',
+      message.error ? `<div class="error">${escapeHtml(message.error)}</div>` : '',
+      message.tool ? renderHtmlTool(message.tool) : ''
+    ].join('')).join('\n');
+    return `<section class="${turn[0].role}">\n<h2>${title}${time ? ` <time datetime="${escapeHtml(turn[0].timestamp)}">${time}</time>` : ''}</h2>\n${body}\n</section>`;
+  });
+  const title = `Codex session ${document.session.sessionId.slice(0, 8)}`;
+
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<meta name="generator" content="cdxresume export (schema ${EXPORT_SCHEMA} v${document.version})">`,
+    `<title>${escapeHtml(title)}</title>`,
+    `<style>${HTML_STYLE}</style>`,
+    '</head>',
+    '<body>',
+    '<main>',
+    `<h1>${escapeHtml(title)}</h1>`,
+    `<dl>${facts}</dl>`,
+    ...sections,
+    '</main>',
+    '</body>',
+    '</html>',
+    ''
+  ].join('\n');
+}
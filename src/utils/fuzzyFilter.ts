@@ -0,0 +1,145 @@
+import type { Conversation } from '../types.js';
+import { formatProjectPath, generateConversationSummary } from './conversationUtils.js';
+import type { HighlightSegment } from './sessionSearch.js';
+
+// fzf-style fuzzy filtering of the session list. Each space-separated term must occur as a
+// subsequence of the summary, the project path or the branch, or be a prefix of the session id.
+// Matching is case-insensitive unless the term has an uppercase letter (smart case).
+
+export interface FuzzyMatch {
+  score: number;
+  // Indices of the matched characters
+  positions: number[];
+}
+
+export interface RankedConversation {
+  conversation: Conversation;
+  score: number;
+  // Matched characters in the summary and in the displayed project path, for highlighting
+  summaryPositions: number[];
+  pathPositions: number[];
+}
+
+type MatchedField = 'summary' | 'path' | 'branch' | 'id';
+
+const SCORE_MATCH = 16;
+const BONUS_BOUNDARY = 8;
+const BONUS_CONSECUTIVE = 4;
+// The first character of a term counts double when it lands on a word start
+const BONUS_FIRST_CHAR_MULTIPLIER = 2;
+const PENALTY_GAP_START = 3;
+const PENALTY_GAP_EXTENSION = 1;
+
+/**
+ * Finds `pattern` as a subsequence of `text`: the first occurrence, then narrowed from its
+ * end back to the shortest window (like fzf's v1 algorithm). Null when there is no match.
+ */
+export function fuzzyMatch(pattern: string, text: string): FuzzyMatch | null {
+  if (!pattern) return { score: 0, positions: [] };
+  const caseSensitive = pattern !== pattern.toLowerCase();
+  const haystack = caseSensitive ? text : text.toLowerCase();
+
+  let patternIndex = 0;
+  let end = -1;
+  for (let i = 0; i < haystack.length; i++) {
+    if (haystack[i] !== pattern[patternIndex]) continue;
+    if (++patternIndex === pattern.length) {
+      end = i;
+      break;
+    }
+  }
+  if (end === -1) return null;
+
+  let start = end;
+  for (let i = end, j = pattern.length - 1; i >= 0; i--) {
+    if (haystack[i] !== pattern[j]) continue;
+    start = i;
+    if (--j < 0) break;
+  }
+
+  const positions: number[] = [];
+  let score = 0;
+  let inGap = false;
+  // Bonus of the first character of the current run of consecutive matches
+  let runBonus = 0;
+  for (let i = start, j = 0; i <= end; i++) {
+    if (j < pattern.length && haystack[i] === pattern[j]) {
+      let bonus = boundaryBonus(text, i);
+      // A run that starts on a word start keeps that bonus throughout, so "pool" in "db pool"
+      // beats the scattered word starts of "p-o-o-l"
+      if (positions[positions.length - 1] === i - 1) bonus = Math.max(bonus, runBonus, BONUS_CONSECUTIVE);
+      else runBonus = bonus;
+      score += SCORE_MATCH + (j === 0 ? bonus * BONUS_FIRST_CHAR_MULTIPLIER : bonus);
+      positions.push(i);
+      inGap = false;
+      j++;
+    } else {
+      score -= inGap ? PENALTY_GAP_EXTENSION : PENALTY_GAP_START;
+      inGap = true;
+    }
+  }
+  return { score, positions };
+}
+
+/** Conversations matching every term of `query`, best first; ties keep their order. */
+export function rankConversations(conversations: Conversation[], query: string): RankedConversation[] {
+  const terms = query.trim().split(/\s+/).filter(Boolean);
+  const ranked: RankedConversation[] = [];
+
+  for (const conversation of conversations) {
+    const summary = generateConversationSummary(conversation);
+    const path = formatProjectPath(conversation.projectPath);
+    const branch = conversation.gitBranch && conversation.gitBranch !== '-' ? conversation.gitBranch : '';
+    const result: RankedConversation = { conversation, score: 0, summaryPositions: [], pathPositions: [] };
+    let matchesAll = true;
+
+    for (const term of terms) {
+      const candidates: Array<[MatchedField, FuzzyMatch | null]> = [
+        ['summary', fuzzyMatch(term, summary)],
+        ['path', fuzzyMatch(term, path)],
+        ['branch', fuzzyMatch(term, branch)],
+        ['id', prefixMatch(term, conversation.sessionId)]
+      ];
+      let best: { field: MatchedField; match: FuzzyMatch } | null = null;
+      for (const [field, match] of candidates) {
+        if (match && (!best || match.score > best.match.score)) best = { field, match };
+      }
+      if (!best) {
+        matchesAll = false;
+        break;
+      }
+      result.score += best.match.score;
+      if (best.field === 'summary') result.summaryPositions.push(...best.match.positions);
+      if (best.field === 'path') result.pathPositions.push(...best.match.positions);
+    }
+    if (matchesAll) ranked.push(result);
+  }
+  return ranked.sort((a, b) => b.score - a.score);
+}
+
+/** Splits `text` into runs of characters whose indices are and are not in `positions`. */
+export function positionSegments(text: string, positions: ReadonlySet<number>): HighlightSegment[] {
+  const segments: HighlightSegment[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const match = positions.has(i);
+    const last = segments[segments.length - 1];
+    if (last && last.match === match) last.text += text[i];
+    else segments.push({ text: text[i], match });
+  }
+  return segments;
+}
+
+// Session ids are only matched from their start, like typing the first characters of a uuid
+function prefixMatch(term: string, sessionId: string): FuzzyMatch | null {
+  const match = fuzzyMatch(term, sessionId);
+  return match && match.positions[0] === 0 && match.positions[match.positions.length - 1] === term.length - 1 ? match : null;
+}
+
+// Characters that start a word score higher: after a separator, or an uppercase letter after a lowercase one
+function boundaryBonus(text: string, index: number): number {
+  if (index === 0) return BONUS_BOUNDARY;
+  const previous = text[index - 1];
+  if (/[\s/\\\-_.:|]/.test(previous)) return BONUS_BOUNDARY;
+  if (/[a-z]/.test(previous) && /[A-Z]/.test(text[index])) return BONUS_BOUNDARY / 2;
+  return 0;
+}
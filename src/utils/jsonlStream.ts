@@ -0,0 +1,110 @@
+import { createReadStream } from 'fs';
+import { createGunzip } from 'zlib';
+import { pipeline, type Readable } from 'stream';
+import { isCompressedRollout } from './rolloutFiles.js';
+
+// Lines longer than this (e.g. a single huge tool output) are skipped instead of buffered,
+// which keeps memory bounded regardless of file size.
+export const MAX_LINE_BYTES = 8 * 1024 * 1024;
+
+const CHUNK_SIZE = 64 * 1024;
+const NEWLINE = 0x0a;
+
+export interface JsonlLine {
+  text: string;
+  // 1-based physical line number in the file
+  lineNumber: number;
+  // false for a trailing line without newline, which may still be in the middle of being written
+  complete: boolean;
+  // Byte offset just past this line (and its newline); resume reading from here.
+  // For .gz files offsets count decompressed bytes.
+  endOffset: number;
+}
+
+export interface ReadJsonlOptions {
+  maxLineBytes?: number;
+  // Byte offset to start from, and the line number of the line starting there
+  start?: number;
+  startLineNumber?: number;
+  // Called for lines dropped because they exceeded maxLineBytes
+  onOversizedLine?: (lineNumber: number) => void;
+}
+
+/**
+ * Streams non-blank lines from a JSONL file without loading the whole file.
+ * `.gz` files are decompressed on the fly. Breaking out of the loop early closes the underlying stream.
+ */
+export async function* readJsonlLines(filePath: string, options: ReadJsonlOptions = {}): AsyncGenerator<JsonlLine> {
+  const maxLineBytes = options.maxLineBytes ?? MAX_LINE_BYTES;
+  const start = options.start ?? 0;
+  const compressed = isCompressedRollout(filePath);
+  // A gzip stream cannot be entered mid-way: decompress from the beginning and drop bytes before `start`
+  const file = createReadStream(filePath, { highWaterMark: CHUNK_SIZE, start: compressed ? 0 : start });
+  // pipeline() forwards read errors (e.g. a missing file) to the gunzip stream so iteration fails instead of hanging
+  const stream: Readable = compressed ? pipeline(file, createGunzip({ chunkSize: CHUNK_SIZE }), () => {}) : file;
+  let toSkip = compressed ? start : 0;
+  let pending: Buffer[] = [];
+  let pendingBytes = 0;
+  let oversized = false;
+  let lineNumber = options.startLineNumber ?? 1;
+  let chunkOffset = start;
+
+  const takeLine = (): string => {
+    const text = Buffer.concat(pending, pendingBytes).toString('utf-8').replace(/\r$/, '');
+    pending = [];
+    pendingBytes = 0;
+    return text;
+  };
+
+  try {
+    for await (const data of stream as AsyncIterable<Buffer>) {
+      let chunk = data;
+      if (toSkip > 0) {
+        const skipped = Math.min(toSkip, chunk.length);
+        chunk = chunk.subarray(skipped);
+        toSkip -= skipped;
+      }
+      let pos = 0;
+      let newlineAt = chunk.indexOf(NEWLINE, pos);
+      while (newlineAt !== -1) {
+        const piece = chunk.subarray(pos, newlineAt);
+        if (!oversized && pendingBytes + piece.length <= maxLineBytes) {
+          pending.push(piece);
+          pendingBytes += piece.length;
+          const text = takeLine();
+          if (text.trim()) yield { text, lineNumber, complete: true, endOffset: chunkOffset + newlineAt + 1 };
+        } else {
+          options.onOversizedLine?.(lineNumber);
+          pending = [];
+          pendingBytes = 0;
+        }
+        oversized = false;
+        lineNumber++;
+        pos = newlineAt + 1;
+        newlineAt = chunk.indexOf(NEWLINE, pos);
+      }
+      if (pos < chunk.length && !oversized) {
+        const rest = chunk.subarray(pos);
+        if (pendingBytes + rest.length > maxLineBytes) {
+          oversized = true;
+          pending = [];
+          pendingBytes = 0;
+        } else {
+          // Copy: the stream may reuse the chunk buffer
+          pending.push(Buffer.from(rest));
+          pendingBytes += rest.length;
+        }
+      }
+      chunkOffset += chunk.length;
+    }
+    if (oversized) {
+      options.onOversizedLine?.(lineNumber);
+    } else if (pendingBytes > 0) {
+      const text = takeLine();
+      if (text.trim()) yield { text, lineNumber, complete: false, endOffset: chunkOffset };
+    }
+  } finally {
+    stream.destroy();
+    file.destroy();
+  }
+}
@@ -60,6 +60,8 @@ function matchesKey(input: string, key: Key, binding: string): boolean {
       return key.escape;
     case 'tab':
       return key.tab;
+    case 'space':
+      return input === ' ';
     default:
       // For regular characters
       if (mainKey.length === 1) {
@@ -0,0 +1,144 @@
+import { format } from 'date-fns';
+import type { Conversation } from '../types.js';
+import { getAllConversations, getPaginatedConversations, type ListOptions } from './conversationReader.js';
+import { formatProjectPath } from './conversationUtils.js';
+import { parseSessionFilter, type SessionFilter } from './sessionFilter.js';
+import { isSortMode, SORT_MODES, type SortMode } from './sortModes.js';
+import { getStringDisplayLength } from './stringUtils.js';
+import { strictTruncateByWidth } from './strictTruncate.js';
+
+// `cdxresume list`: the session list printed without the TUI, for scripts. The filters are the
+// TUI's: `.` / --scope, and the filter prompt's query language (--after, --repo and so on are
+// shorthands for its terms).
+
+export type ListFormat = 'table' | 'json' | 'tsv';
+
+export interface ListCommandOptions {
+  format: ListFormat;
+  filter?: SessionFilter;
+  sort: SortMode;
+  // Most sessions to print; all when omitted
+  limit?: number;
+}
+
+// One printed session; the JSON output is an array of these
+export interface ListEntry {
+  sessionId: string;
+  sourcePath: string | null;
+  projectPath: string;
+  branch: string | null;
+  // ISO 8601
+  startTime: string;
+  endTime: string;
+  messageCount: number;
+  firstPrompt: string;
+}
+
+const LIST_FIELDS: (keyof ListEntry)[] = ['sessionId', 'sourcePath', 'projectPath', 'branch', 'startTime', 'endTime', 'messageCount', 'firstPrompt'];
+// Flags that take a value, and the filter key each one stands for
+const FILTER_FLAGS: Record<string, string> = { '--after': 'after', '--before': 'before', '--repo': 'repo', '--branch': 'branch' };
+// Width of the first prompt column when stdout is not a terminal
+const DEFAULT_TABLE_WIDTH = 120;
+
+/** Parses the arguments after `list` (`.`, --scope and --sessions-dir are handled by the CLI). */
+export function parseListArgs(args: string[]): { options: ListCommandOptions; problems: string[] } {
+  const options: ListCommandOptions = { format: 'table', sort: 'lastActivity' };
+  const problems: string[] = [];
+  const queryTerms: string[] = [];
+
+  for (let i = 0; i < args.length; i++) {
+    const [flag, inlineValue] = args[i].startsWith('--') && args[i].includes('=')
+      ? [args[i].slice(0, args[i].indexOf('=')), args[i].slice(args[i].indexOf('=') + 1)]
+      : [args[i], undefined];
+    const takeValue = (): string | undefined => inlineValue ?? args[++i];
+
+    if (flag === '--json' || flag === '--tsv') {
+      options.format = flag === '--json' ? 'json' : 'tsv';
+    } else if (flag in FILTER_FLAGS) {
+      const value = takeValue();
+      if (value) queryTerms.push(`${FILTER_FLAGS[flag]}:"${value}"`);
+      else problems.push(`${flag} needs a value`);
+    } else if (flag === '--filter') {
+      const value = takeValue();
+      if (value) queryTerms.push(value);
+      else problems.push('--filter needs a query');
+    } else if (flag === '--limit') {
+      const value = takeValue();
+      const limit = Number(value);
+      if (Number.isInteger(limit) && limit > 0) options.limit = limit;
+      else problems.push(`--limit expects a positive number${value ? `, got '${value}'` : ''}`);
+    } else if (flag === '--sort') {
+      const value = takeValue();
+      if (isSortMode(value)) options.sort = value;
+      else problems.push(`--sort expects one of ${SORT_MODES.join(', ')}${value ? `, got '${value}'` : ''}`);
+    } else {
+      problems.push(`Unknown option '${args[i]}'`);
+    }
+  }
+
+  if (queryTerms.length > 0) {
+    const parsed = parseSessionFilter(queryTerms.join(' '));
+    options.filter = parsed.filter;
+    problems.push(...parsed.problems);
+  }
+  return { options, problems };
+}
+
+export async function collectListEntries(options: ListCommandOptions, listOptions: Pick<ListOptions, 'directoryScope' | 'roots'>): Promise<ListEntry[]> {
+  const query: ListOptions = { ...listOptions, filter: options.filter, sort: options.sort };
+  const conversations = options.limit
+    ? (await getPaginatedConversations({ ...query, limit: options.limit, offset: 0 })).conversations
+    : await getAllConversations(query);
+  return conversations.map(toListEntry);
+}
+
+export function formatListEntries(entries: ListEntry[], listFormat: ListFormat, width?: number): string {
+  switch (listFormat) {
+    case 'json': return JSON.stringify(entries, null, 2);
+    case 'tsv': return formatTsv(entries);
+    case 'table': return formatTable(entries, width ?? DEFAULT_TABLE_WIDTH);
+  }
+}
+
+function toListEntry(conversation: Conversation): ListEntry {
+  return {
+    sessionId: conversation.sessionId,
+    sourcePath: conversation.sourcePath ?? null,
+    projectPath: conversation.projectPath,
+    branch: conversation.gitBranch && conversation.gitBranch !== '-' ? conversation.gitBranch : null,
+    startTime: conversation.startTime.toISOString(),
+    endTime: conversation.endTime.toISOString(),
+    messageCount: conversation.messageCount ?? conversation.messages.length,
+    firstPrompt: conversation.firstMessage
+  };
+}
+
+// Header row plus one row per session. Tabs, newlines and backslashes in values are escaped
+// as \t, \n, \r and \\ so every session stays on one line; missing values are empty.
+function formatTsv(entries: ListEntry[]): string {
+  const escape = (value: string | number | null) =>
+    String(value ?? '').replace(/[\\\t\n\r]/g, char => ({ '\\': '\\\\', '\t': '\\t', '\n': '\\n', '\r': '\\r' })[char] ?? char);
+  return [LIST_FIELDS.join('\t'), ...entries.map(entry => LIST_FIELDS.map(field => escape(entry[field])).join('\t'))].join('\n');
+}
+
+function formatTable(entries: ListEntry[], width: number): string {
+  if (entries.length === 0) return 'No sessions found';
+  const rows = entries.map(entry => [
+    entry.sessionId.slice(0, 8),
+    format(new Date(entry.endTime), 'yyyy-MM-dd HH:mm'),
+    String(entry.messageCount),
+    entry.branch ?? '-',
+    formatProjectPath(entry.projectPath),
+    entry.firstPrompt.replace(/\s+/g, ' ').trim()
+  ]);
+  const header = ['ID', 'LAST ACTIVITY', 'MSGS', 'BRANCH', 'PROJECT', 'FIRST PROMPT'];
+  const columnWidths = header.slice(0, -1).map((title, column) =>
+    Math.max(getStringDisplayLength(title), ...rows.map(row => getStringDisplayLength(row[column]))));
+  const pad = (value: string, column: number) => value + ' '.repeat(columnWidths[column] - getStringDisplayLength(value));
+  const promptWidth = Math.max(20, width - columnWidths.reduce((sum, columnWidth) => sum + columnWidth + 2, 0));
+
+  return [header, ...rows].map(row => [
+    ...row.slice(0, -1).map(pad),
+    strictTruncateByWidth(row[row.length - 1], promptWidth)
+  ].join('  ').trimEnd()).join('\n');
+}
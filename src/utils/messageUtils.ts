@@ -1,4 +1,4 @@
-import type { ContentPart } from '../types.js';
+import type { ContentPart, Message, ToolInvocation } from '../types.js';
 
 export function extractMessageText(content: string | ContentPart[] | undefined | null): string {
   if (!content) {
@@ -71,6 +71,8 @@ export function extractMessageText(content: string | ContentPart[] | undefined |
       } else if (item.type === 'thinking') {
         // Handle thinking messages
         parts.push('[Thinking...]');
+      } else if (item.type === 'error') {
+        parts.push(`[Error] ${item.text ?? ''}`.trimEnd());
       }
     }
     
@@ -79,3 +81,82 @@ export function extractMessageText(content: string | ContentPart[] | undefined |
   
   return '';
 }
+
+// Paths named in an apply_patch call, whether sent as a shell command or as a raw patch
+export function patchedFiles(input: unknown): string[] {
+  let patch: unknown = input;
+  if (input && typeof input === 'object') {
+    const command = (input as { command?: unknown }).command;
+    patch = Array.isArray(command) && command[0] === 'apply_patch' ? command[1] : undefined;
+  }
+  if (typeof patch !== 'string') return [];
+  return Array.from(patch.matchAll(/^\*\*\* (?:(?:Add|Update|Delete) File|Move to): (.+)$/gm), match => match[1].trim());
+}
+
+// The tool a call actually ran: shell commands that apply a patch count as apply_patch, and
+// custom tools go by their own name
+export function effectiveToolName(name: string | undefined, input: unknown): string {
+  const command = input && typeof input === 'object' ? (input as { command?: unknown }).command : undefined;
+  if (Array.isArray(command) && command[0] === 'apply_patch') return 'apply_patch';
+  return (name ?? 'tool').replace(/^custom:/, '');
+}
+
+type ToolUseResult = NonNullable<Message['toolUseResult']>;
+type CommandResult = Pick<ToolInvocation, 'exitCode' | 'durationMs' | 'stdout' | 'stderr'>;
+
+export function isFailedToolResult(result: ToolUseResult | undefined): boolean {
+  return result?.exitCode !== undefined && result.exitCode !== 0;
+}
+
+// One-line outcome of a command that exited non-zero, e.g. "[Command failed] exit 1 after 2.3s: no such file"
+export function formatCommandFailure(result: CommandResult): string {
+  const duration = result.durationMs !== undefined ? ` after ${formatDuration(result.durationMs)}` : '';
+  const detail = firstNonEmptyLine(result.stderr) || firstNonEmptyLine(result.stdout);
+  return `[Command failed] exit ${result.exitCode}${duration}${detail ? `: ${detail}` : ''}`;
+}
+
+// Outcome line of a paired tool call, shown under the call in the full view
+export function formatToolOutcome(tool: ToolInvocation): string {
+  if (tool.success === undefined) return '[Pending] no output recorded';
+  if (!tool.success) return formatCommandFailure(tool);
+  const details: string[] = [];
+  if (tool.exitCode !== undefined) details.push(`exit ${tool.exitCode}`);
+  if (tool.durationMs !== undefined) details.push(`after ${formatDuration(tool.durationMs)}`);
+  return `[Result] ${details.join(' ') || 'ok'}`;
+}
+
+// Short status for one-line listings: ✓, ✗ exit 1, or … while no output is recorded
+export function formatToolStatus(tool: ToolInvocation): string {
+  if (tool.success === undefined) return '…';
+  if (tool.success) return '✓';
+  return tool.exitCode !== undefined ? `✗ exit ${tool.exitCode}` : '✗';
+}
+
+// 850ms, 2.3s, 1m5s. Rounds before splitting, so 59 990ms is 1m0s rather than 60.0s
+export function formatDuration(ms: number): string {
+  if (ms < 1000) return `${ms}ms`;
+  const tenths = Math.round(ms / 100);
+  if (tenths < 600) return `${(tenths / 10).toFixed(1)}s`;
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}m${seconds % 60}s`;
+}
+
+// Compact token count: 950, 12.3k, 1.2M
+export function formatTokenCount(tokens: number): string {
+  if (tokens < 1000) return String(tokens);
+  if (tokens < 1_000_000) return `${(tokens / 1000).toFixed(1)}k`;
+  return `${(tokens / 1_000_000).toFixed(1)}M`;
+}
+
+function firstNonEmptyLine(text: string | undefined): string {
+  return text?.split('\n').find(line => line.trim())?.trim() ?? '';
+}
+
+// Position in `visible` of the message `id`, or of the first visible message after it when it is hidden
+export function findFocusIndex(all: Message[], visible: Message[], id?: string): number {
+  if (!id) return -1;
+  const target = all.findIndex(message => message.id === id);
+  if (target === -1) return -1;
+  const positions = new Map(all.map((message, index) => [message, index]));
+  return visible.findIndex(message => (positions.get(message) ?? -1) >= target);
+}
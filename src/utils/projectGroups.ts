@@ -0,0 +1,56 @@
+import type { Conversation } from '../types.js';
+
+// Project view of the session list: sessions grouped under the directory they were started in,
+// one collapsible row per project with the sessions listed below it when expanded.
+
+export interface ProjectGroup {
+  projectPath: string;
+  // Repository (owner/name) from the newest session that recorded a git remote, else '-'
+  projectName: string;
+  // In list order, so the first one is what the sort order puts on top
+  conversations: Conversation[];
+  lastActivity: Date;
+}
+
+export type ProjectTreeRow =
+  | { kind: 'project'; group: ProjectGroup; expanded: boolean }
+  | { kind: 'session'; group: ProjectGroup; conversation: Conversation };
+
+/** Groups in the order their first session appears, so the list's sort order carries over to projects. */
+export function groupByProject(conversations: Conversation[]): ProjectGroup[] {
+  const groups = new Map<string, ProjectGroup>();
+  for (const conversation of conversations) {
+    const group = groups.get(conversation.projectPath);
+    if (!group) {
+      groups.set(conversation.projectPath, {
+        projectPath: conversation.projectPath,
+        projectName: conversation.projectName,
+        conversations: [conversation],
+        lastActivity: conversation.endTime
+      });
+      continue;
+    }
+    group.conversations.push(conversation);
+    if (conversation.endTime.getTime() > group.lastActivity.getTime()) group.lastActivity = conversation.endTime;
+    if (group.projectName === '-' && conversation.projectName) group.projectName = conversation.projectName;
+  }
+  return [...groups.values()];
+}
+
+// One row per project, plus one per session of the projects whose path is in `expanded`
+export function flattenProjectTree(groups: ProjectGroup[], expanded: ReadonlySet<string>): ProjectTreeRow[] {
+  const rows: ProjectTreeRow[] = [];
+  for (const group of groups) {
+    const isExpanded = expanded.has(group.projectPath);
+    rows.push({ kind: 'project', group, expanded: isExpanded });
+    if (isExpanded) {
+      for (const conversation of group.conversations) rows.push({ kind: 'session', group, conversation });
+    }
+  }
+  return rows;
+}
+
+/** The session a tree row stands for: its own, or for a project row the first one listed under it. */
+export function projectTreeRowConversation(row: ProjectTreeRow): Conversation {
+  return row.kind === 'project' ? row.group.conversations[0] : row.conversation;
+}
@@ -0,0 +1,164 @@
+import type { Conversation, Message } from '../types.js';
+import { extractMessageText } from './messageUtils.js';
+
+// Resuming a Codex session writes a new rollout file that either reuses the session id or
+// replays the earlier transcript before the new turns. Sessions related that way are linked
+// into one thread, headed by the newest session.
+
+// A single shared exchange is too weak a signal ("hi" / "Hello!"); require a full turn
+const MIN_SHARED_DIGESTS = 2;
+
+export interface ThreadRow {
+  conversation: Conversation;
+  // 0 for thread heads and standalone sessions, 1 for the earlier sessions of an expanded thread
+  depth: number;
+  // Sessions in the thread this row belongs to
+  threadSize: number;
+  expanded: boolean;
+}
+
+export function threadKey(conversation: Conversation): string {
+  return conversation.sourcePath || conversation.sessionId;
+}
+
+// Whether `newer` continues `older`: same session id in another file, or a transcript that
+// starts with all of older's leading messages
+export function continuesSession(newer: Conversation, older: Conversation): boolean {
+  if (threadKey(newer) === threadKey(older)) return false;
+  if (newer.startTime.getTime() < older.startTime.getTime()) return false;
+  if (newer.sessionId && newer.sessionId === older.sessionId) return true;
+  if (newer.projectPath !== older.projectPath) return false;
+  const shared = older.transcriptDigests?.length ?? 0;
+  if (shared < MIN_SHARED_DIGESTS) return false;
+  // Digests are chained, so equal digests at the same position mean equal prefixes
+  return newer.transcriptDigests?.[shared - 1] === older.transcriptDigests?.[shared - 1];
+}
+
+export interface ThreadLinker {
+  // Returns the head of the thread the session joined, or null when it heads a thread itself
+  add(conversation: Conversation): Conversation | null;
+  // Sessions that joined the thread headed by `head`, newest first
+  earlierSessions(head: Conversation): Conversation[];
+}
+
+/**
+ * Links sessions into threads as they are added. A session must be added after the sessions
+ * that continue it (newest first does that), so each one is linked with one lookup by its
+ * session id and one by its last transcript digest, instead of a scan of every open thread.
+ * A session resumed more than once joins the thread of its earliest resume only.
+ */
+export function createThreadLinker(): ThreadLinker {
+  // Earliest-started session added so far under each key a continued session is looked up by
+  const bySessionId = new Map<string, Conversation>();
+  const byDigest = new Map<string, Conversation>();
+  // Thread head of every added session, and the sessions that joined each head, by threadKey
+  const heads = new Map<string, Conversation>();
+  const members = new Map<string, Conversation[]>();
+
+  const digestKey = (conversation: Conversation, digest: string) => `${conversation.projectPath}\n${digest}`;
+  const remember = (map: Map<string, Conversation>, key: string, conversation: Conversation) => {
+    const known = map.get(key);
+    if (!known || conversation.startTime.getTime() <= known.startTime.getTime()) map.set(key, conversation);
+  };
+
+  const findContinuation = (conversation: Conversation): Conversation | undefined => {
+    const digests = conversation.transcriptDigests ?? [];
+    const candidates = [
+      bySessionId.get(conversation.sessionId),
+      digests.length >= MIN_SHARED_DIGESTS ? byDigest.get(digestKey(conversation, digests[digests.length - 1])) : undefined
+    ].filter((candidate): candidate is Conversation => candidate !== undefined && continuesSession(candidate, conversation));
+    return candidates.sort((a, b) => a.startTime.getTime() - b.startTime.getTime())[0];
+  };
+
+  return {
+    add(conversation) {
+      const key = threadKey(conversation);
+      if (heads.has(key)) return null;
+      const continuation = findContinuation(conversation);
+      const head = continuation ? heads.get(threadKey(continuation))! : conversation;
+      heads.set(key, head);
+      if (continuation) members.get(threadKey(head))!.push(conversation);
+      else members.set(key, []);
+
+      if (conversation.sessionId) remember(bySessionId, conversation.sessionId, conversation);
+      // Digests are chained, so a session continuing this one carries the other's last digest
+      // at the same position; shorter prefixes are never looked up
+      conversation.transcriptDigests?.slice(MIN_SHARED_DIGESTS - 1).forEach(digest => remember(byDigest, digestKey(conversation, digest), conversation));
+      return continuation ? head : null;
+    },
+    earlierSessions(head) {
+      return [...(members.get(threadKey(head)) ?? [])].sort((a, b) => b.startTime.getTime() - a.startTime.getTime());
+    }
+  };
+}
+
+// Attaches the earlier sessions the linker found for `head`, if any
+export function withEarlierSessions(head: Conversation, linker: ThreadLinker): Conversation {
+  const earlier = linker.earlierSessions(head);
+  return earlier.length > 0 ? { ...head, resumedFrom: earlier } : head;
+}
+
+// Groups conversations into threads. Heads keep their position in the input and carry their
+// earlier sessions in `resumedFrom`; sessions that became part of a thread are left out.
+export function linkResumeChains(conversations: Conversation[]): Conversation[] {
+  const linker = createThreadLinker();
+  const joined = new Set<string>();
+  for (const conversation of [...conversations].sort((a, b) => b.startTime.getTime() - a.startTime.getTime())) {
+    if (linker.add(conversation)) joined.add(threadKey(conversation));
+  }
+  return conversations.filter(c => !joined.has(threadKey(c))).map(c => withEarlierSessions(c, linker));
+}
+
+// Threads with the sessions in `updated` (by source path) swapped in, in place and under their root
+export function updateThreads(threads: Conversation[], updated: ReadonlyMap<string, Conversation>): Conversation[] {
+  const swap = (conversation: Conversation): Conversation => {
+    const next = conversation.sourcePath ? updated.get(conversation.sourcePath) : undefined;
+    return next ? { ...next, sessionRoot: conversation.sessionRoot } : conversation;
+  };
+  return threads.map(head => (head.resumedFrom ? { ...swap(head), resumedFrom: head.resumedFrom.map(swap) } : swap(head)));
+}
+
+// One row per thread, plus one per earlier session of the threads whose key is in `expanded`
+export function flattenThreads(threads: Conversation[], expanded: ReadonlySet<string>): ThreadRow[] {
+  const rows: ThreadRow[] = [];
+  for (const conversation of threads) {
+    const earlier = conversation.resumedFrom ?? [];
+    const isExpanded = earlier.length > 0 && expanded.has(threadKey(conversation));
+    rows.push({ conversation, depth: 0, threadSize: earlier.length + 1, expanded: isExpanded });
+    if (isExpanded) {
+      for (const member of earlier) {
+        rows.push({ conversation: member, depth: 1, threadSize: earlier.length + 1, expanded: true });
+      }
+    }
+  }
+  return rows;
+}
+
+// Joins loaded transcripts (oldest first) into one conversation. Each resumed session starts
+// with a replay of the previous one, which is dropped so every message appears once.
+export function combineThreadTranscripts(sessions: Conversation[]): Conversation {
+  const newest = sessions[sessions.length - 1];
+  const messages: Message[] = [];
+  let previous: Message[] = [];
+  for (const session of sessions) {
+    const replayed = sharedPrefixLength(previous, session.messages);
+    messages.push(...session.messages.slice(replayed));
+    previous = session.messages;
+  }
+  return {
+    ...newest,
+    messages,
+    messageCount: messages.length,
+    firstMessage: sessions[0].firstMessage || newest.firstMessage,
+    startTime: sessions[0].startTime
+  };
+}
+
+function sharedPrefixLength(a: Message[], b: Message[]): number {
+  let i = 0;
+  while (i < a.length && i < b.length && a[i].type === b[i].type
+    && extractMessageText(a[i].message?.content) === extractMessageText(b[i].message?.content)) {
+    i++;
+  }
+  return i;
+}
@@ -0,0 +1,50 @@
+import { readFile, writeFile, mkdir, rename } from 'fs/promises';
+import { join, dirname } from 'path';
+import { homedir } from 'os';
+
+// How often cdxresume resumed each session, for the "most resumed" sort order. Kept under
+// $XDG_STATE_HOME rather than the cache, since it cannot be rebuilt from the rollout files.
+
+interface ResumeHistoryFile {
+  version: number;
+  // Resume count by session id
+  counts: Record<string, number>;
+}
+
+const HISTORY_VERSION = 1;
+
+export function getStateDir(): string {
+  const xdgStateHome = process.env.XDG_STATE_HOME || join(homedir(), '.local', 'state');
+  return join(xdgStateHome, 'cdxresume');
+}
+
+export function getResumeHistoryPath(): string {
+  return join(getStateDir(), 'resume-history.json');
+}
+
+export async function loadResumeCounts(): Promise<Map<string, number>> {
+  try {
+    const parsed = JSON.parse(await readFile(getResumeHistoryPath(), 'utf-8')) as Partial<ResumeHistoryFile>;
+    if (parsed.version !== HISTORY_VERSION || !parsed.counts || typeof parsed.counts !== 'object') return new Map();
+    return new Map(Object.entries(parsed.counts).filter((entry): entry is [string, number] => typeof entry[1] === 'number'));
+  } catch {
+    // Missing or corrupt: nothing has been resumed yet as far as the sort order is concerned
+    return new Map();
+  }
+}
+
+export async function recordResume(sessionId: string): Promise<void> {
+  const counts = await loadResumeCounts();
+  counts.set(sessionId, (counts.get(sessionId) ?? 0) + 1);
+  const historyPath = getResumeHistoryPath();
+  const data: ResumeHistoryFile = { version: HISTORY_VERSION, counts: Object.fromEntries(counts) };
+  try {
+    await mkdir(dirname(historyPath), { recursive: true });
+    // Write to a temp file first so a crash never leaves a truncated history behind
+    const tmpPath = `${historyPath}.${process.pid}.tmp`;
+    await writeFile(tmpPath, JSON.stringify(data), 'utf-8');
+    await rename(tmpPath, historyPath);
+  } catch {
+    // Only the sort order depends on it; failing to record must not block resuming
+  }
+}
@@ -0,0 +1,43 @@
+import { createReadStream, createWriteStream } from 'fs';
+import { rm, unlink } from 'fs/promises';
+import { basename } from 'path';
+import { pipeline } from 'stream/promises';
+import { createGunzip } from 'zlib';
+
+const ROLLOUT_EXTENSION = '.jsonl';
+const COMPRESSED_ROLLOUT_EXTENSION = '.jsonl.gz';
+
+// Rollout files as Codex writes them, or gzipped for archiving
+export function isRolloutFile(name: string): boolean {
+  return name.endsWith(ROLLOUT_EXTENSION) || name.endsWith(COMPRESSED_ROLLOUT_EXTENSION);
+}
+
+export function isCompressedRollout(filePath: string): boolean {
+  return filePath.endsWith(COMPRESSED_ROLLOUT_EXTENSION);
+}
+
+// File name without the rollout extension, e.g. for a session id fallback
+export function rolloutBaseName(filePath: string): string {
+  const name = basename(filePath);
+  if (name.endsWith(COMPRESSED_ROLLOUT_EXTENSION)) return name.slice(0, -COMPRESSED_ROLLOUT_EXTENSION.length);
+  if (name.endsWith(ROLLOUT_EXTENSION)) return name.slice(0, -ROLLOUT_EXTENSION.length);
+  return name;
+}
+
+/**
+ * Replaces a `.jsonl.gz` rollout with the plain `.jsonl` file next to it, so Codex can resume it.
+ * Refuses to overwrite an existing `.jsonl`; the compressed file is removed only after a complete write.
+ * Returns the path of the decompressed file.
+ */
+export async function decompressRollout(filePath: string): Promise<string> {
+  if (!isCompressedRollout(filePath)) return filePath;
+  const target = filePath.slice(0, -'.gz'.length);
+  try {
+    await pipeline(createReadStream(filePath), createGunzip(), createWriteStream(target, { flags: 'wx' }));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'EEXIST') await rm(target, { force: true });
+    throw error;
+  }
+  await unlink(filePath);
+  return target;
+}
@@ -0,0 +1,87 @@
+import type { SessionEvent, TokenUsage } from '../../types.js';
+
+// Typed view of the event_msg payloads Codex writes next to response items.
+// Unknown variants (and known ones missing required fields) yield null.
+
+type RawPayload = Record<string, unknown>;
+
+export function parseEventMsg(payload: unknown): SessionEvent | null {
+  if (!payload || typeof payload !== 'object' || Array.isArray(payload)) return null;
+  const p = payload as RawPayload;
+
+  switch (p.type) {
+    case 'token_count': {
+      // Newer Codex builds nest usage under `info`; older ones wrote the turn's counts flat
+      const info = p.info && typeof p.info === 'object' ? p.info as RawPayload : null;
+      const usage = info ? parseTokenUsage(info.last_token_usage) : parseTokenUsage(p);
+      if (!usage) return null;
+      const total = info ? parseTokenUsage(info.total_token_usage) : null;
+      return total ? { type: 'token_count', usage, total } : { type: 'token_count', usage };
+    }
+    case 'agent_message':
+      return typeof p.message === 'string' ? { type: 'agent_message', message: p.message } : null;
+    case 'exec_command_begin':
+      return {
+        type: 'exec_command_begin',
+        callId: stringOrUndefined(p.call_id),
+        command: Array.isArray(p.command) ? p.command.filter((c): c is string => typeof c === 'string') : [],
+        cwd: stringOrUndefined(p.cwd)
+      };
+    case 'exec_command_end':
+      if (typeof p.exit_code !== 'number') return null;
+      return {
+        type: 'exec_command_end',
+        callId: stringOrUndefined(p.call_id),
+        exitCode: p.exit_code,
+        durationMs: parseDuration(p.duration),
+        stdout: stringOrUndefined(p.stdout),
+        stderr: stringOrUndefined(p.stderr)
+      };
+    case 'error':
+      return typeof p.message === 'string' ? { type: 'error', message: p.message } : null;
+    default:
+      return null;
+  }
+}
+
+export function parseTokenUsage(value: unknown): TokenUsage | null {
+  if (!value || typeof value !== 'object') return null;
+  const v = value as RawPayload;
+  const count = (key: string) => (typeof v[key] === 'number' ? v[key] as number : 0);
+  if (typeof v.input_tokens !== 'number' && typeof v.total_tokens !== 'number') return null;
+  const inputTokens = count('input_tokens');
+  const outputTokens = count('output_tokens');
+  return {
+    inputTokens,
+    cachedInputTokens: count('cached_input_tokens'),
+    outputTokens,
+    reasoningOutputTokens: count('reasoning_output_tokens'),
+    totalTokens: typeof v.total_tokens === 'number' ? v.total_tokens : inputTokens + outputTokens
+  };
+}
+
+export function addTokenUsage(a: TokenUsage, b: TokenUsage): TokenUsage {
+  return {
+    inputTokens: a.inputTokens + b.inputTokens,
+    cachedInputTokens: a.cachedInputTokens + b.cachedInputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    reasoningOutputTokens: a.reasoningOutputTokens + b.reasoningOutputTokens,
+    totalTokens: a.totalTokens + b.totalTokens
+  };
+}
+
+// Rust Durations serialize as { secs, nanos }; plain numbers are taken as seconds
+function parseDuration(value: unknown): number | undefined {
+  if (typeof value === 'number') return Math.round(value * 1000);
+  if (value && typeof value === 'object') {
+    const d = value as RawPayload;
+    if (typeof d.secs === 'number') {
+      return Math.round(d.secs * 1000 + (typeof d.nanos === 'number' ? d.nanos / 1e6 : 0));
+    }
+  }
+  return undefined;
+}
+
+function stringOrUndefined(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
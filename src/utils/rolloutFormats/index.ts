@@ -0,0 +1,33 @@
+import { legacyFormat } from './legacy.js';
+import { parseRecord } from './shared.js';
+import { rolloutV1Format } from './rolloutV1.js';
+import type { RolloutFormat, RolloutFormatAdapter } from './types.js';
+
+export type { RolloutFormat, RolloutFormatAdapter, RolloutParser, ReadOptions } from './types.js';
+export { legacyFormat } from './legacy.js';
+export { rolloutV1Format } from './rolloutV1.js';
+
+// Checked in order; the first adapter that recognizes a file's first line parses it.
+// Add new Codex formats here, ahead of the formats they could be mistaken for.
+export const ROLLOUT_FORMATS: readonly RolloutFormatAdapter[] = [rolloutV1Format, legacyFormat];
+
+// Leading lines that do not parse (a truncated or garbled header) are passed over up to this many
+const MAX_SNIFFED_LINES = 5;
+
+export function detectRolloutFormat(firstLine: string): RolloutFormatAdapter | null {
+  return ROLLOUT_FORMATS.find(format => format.detect(firstLine)) ?? null;
+}
+
+/**
+ * Format of a file from its leading lines, read so far: the first line that parses decides.
+ * Undefined while every line so far is unparseable and more may follow.
+ */
+export function sniffRolloutFormat(leadingLines: string[]): RolloutFormatAdapter | null | undefined {
+  const line = leadingLines.find(text => parseRecord(text) !== null);
+  if (line !== undefined) return detectRolloutFormat(line);
+  return leadingLines.length < MAX_SNIFFED_LINES ? undefined : null;
+}
+
+export function getRolloutFormat(id: RolloutFormat): RolloutFormatAdapter | null {
+  return ROLLOUT_FORMATS.find(format => format.id === id) ?? null;
+}
@@ -0,0 +1,183 @@
+import type { ContentPart, Conversation, Message } from '../../types.js';
+import { rolloutBaseName } from '../rolloutFiles.js';
+import { createMessageCollector, createToolTracker, extractCwdFromContentText, messageId, parseRecord, parseToolOutput, projectNameFromRepoUrl, reasoningSummaryText, recordTimestamp } from './shared.js';
+import type { ReadOptions, RolloutFormatAdapter, RolloutParser } from './types.js';
+
+// Pre-0.32 Codex: a bare metadata line ({ id, timestamp, git }) followed by flat
+// message / function_call / function_call_output records.
+
+function createLegacyParser(filePath: string, options: ReadOptions = {}): RolloutParser {
+  let sessionId = rolloutBaseName(filePath);
+  let startTimestamp = new Date();
+  let repoUrl: string | undefined;
+  let gitBranch = '-';
+  let isFirstLine = true;
+
+  const collector = createMessageCollector(!options.summaryOnly);
+  const tools = createToolTracker(collector, options.summaryOnly);
+  let cwdFromIntro: string | null = null;
+  let currentId = '';
+  // Records without a timestamp of their own keep the last one seen
+  let lastTimestamp: string | null = null;
+  // Minimal shape used to parse log lines without using `any`
+  interface RawLine {
+    type?: string;
+    role?: 'user' | 'assistant';
+    content?: unknown;
+    record_type?: string;
+    arguments?: string;
+    name?: string;
+    call_id?: string;
+    output?: string;
+    summary?: unknown;
+    timestamp?: string;
+  }
+
+  return {
+    feed(line: string, lineNumber: number): boolean {
+      currentId = messageId(filePath, lineNumber);
+      // First line metadata
+      if (isFirstLine) {
+        isFirstLine = false;
+        try {
+          const meta = JSON.parse(line);
+          if (meta && meta.id) sessionId = meta.id as string;
+          if (meta && meta.timestamp) {
+            const ts = new Date(meta.timestamp as string);
+            startTimestamp = isNaN(ts.getTime()) ? new Date() : ts;
+          }
+          if (meta && meta.git && meta.git.repository_url) repoUrl = meta.git.repository_url as string;
+          if (meta && meta.git && typeof meta.git.branch === 'string') gitBranch = meta.git.branch || '-';
+        } catch { /* ignore malformed first line */ }
+      }
+
+      const data = parseRecord<RawLine>(line);
+      if (!data) return true;
+      lastTimestamp = recordTimestamp(data.timestamp) ?? lastTimestamp;
+      const ts = lastTimestamp ?? startTimestamp.toISOString();
+      if (data.record_type === 'state') return true;
+
+      // Reasoning: keep only the summary, as a thinking part
+      if (data.type === 'reasoning') {
+        const thinking = reasoningSummaryText(data);
+        if (!thinking) return true;
+        collector.add({
+          id: currentId,
+          sessionId,
+          timestamp: ts,
+          type: 'assistant',
+          message: { role: 'assistant', content: [{ type: 'thinking', thinking }] },
+          cwd: cwdFromIntro || ''
+        });
+        return true;
+      }
+
+      if (data.type === 'message' && (data.role === 'user' || data.role === 'assistant')) {
+        let content: string | ContentPart[] | undefined;
+        if (Array.isArray(data.content)) content = data.content as ContentPart[];
+        else if (typeof data.content === 'string') content = data.content;
+        if (data.role === 'user') {
+          const texts: string[] = [];
+          if (typeof content === 'string') texts.push(content);
+          else if (Array.isArray(content)) {
+            for (const it of content) {
+              if (it && 'text' in it && typeof (it as { text?: string }).text === 'string') {
+                texts.push((it as { text?: string }).text as string);
+              }
+            }
+          }
+          for (const t of texts) {
+            const found = extractCwdFromContentText(t);
+            if (found) { cwdFromIntro = found; break; }
+          }
+          // Hide initial environment_context messages from history
+          const isEnvContext = texts.some((t) => t.includes('<environment_context>'));
+          if (isEnvContext) {
+            return true;
+          }
+        }
+        collector.add({
+          id: currentId,
+          sessionId,
+          timestamp: ts,
+          type: data.role,
+          message: { role: data.role, content },
+          cwd: cwdFromIntro || ''
+        } as Message);
+      }
+
+      // Map Codex function calls to tool-use style entries
+      if (data.type === 'function_call') {
+        let parsedArgs: unknown = undefined;
+        try {
+          if (typeof data.arguments === 'string') parsedArgs = JSON.parse(data.arguments);
+        } catch { /* ignore bad arguments */ }
+        const name = typeof data.name === 'string' ? data.name : 'tool';
+        tools.addCall({
+          id: currentId,
+          sessionId,
+          timestamp: ts,
+          type: 'assistant',
+          message: { role: 'assistant', content: [{ type: 'tool_use', name, input: parsedArgs, tool_use_id: data.call_id }] as ContentPart[] },
+          cwd: cwdFromIntro || '',
+          tool: { callId: data.call_id, name, input: parsedArgs ?? data.arguments }
+        });
+        return true;
+      }
+
+      if (data.type === 'function_call_output') {
+        const outcome = parseToolOutput(data.output);
+        if (tools.complete(data.call_id, outcome)) return true;
+        // An output whose call is missing still shows up on its own
+        const { stdout, exitCode, durationMs } = outcome;
+        collector.add({
+          id: currentId,
+          sessionId,
+          timestamp: ts,
+          type: 'assistant',
+          message: { role: 'assistant', content: [{ type: 'tool_result' }] as ContentPart[] },
+          cwd: cwdFromIntro || '',
+          toolUseResult: stdout ? { stdout, exitCode, durationMs } : { content: 'tool call finished' }
+        } as Message);
+        return true;
+      }
+      return true;
+    },
+
+    build(endTime?: Date): Conversation | null {
+      if (collector.count === 0) return null;
+
+      const projectName = projectNameFromRepoUrl(repoUrl);
+      const startTime = startTimestamp;
+      const projectPath = cwdFromIntro || '';
+
+      return {
+        sessionId,
+        sourcePath: filePath,
+        projectPath,
+        projectName,
+        gitBranch,
+        messages: collector.messages,
+        messageCount: collector.count,
+        errorCount: collector.errorCount,
+        firstMessage: collector.firstUserText,
+        lastMessage: collector.lastUserText,
+        transcriptDigests: collector.transcriptDigests,
+        toolNames: collector.toolNames,
+        touchedFiles: collector.touchedFiles,
+        startTime,
+        endTime: endTime ?? startTime
+      };
+    }
+  };
+}
+
+export const legacyFormat: RolloutFormatAdapter = {
+  id: 'legacy',
+  // Legacy records are flat objects; rollout-v1 wraps every record in { timestamp, type, payload }
+  detect(firstLine: string): boolean {
+    const record = parseRecord<Record<string, unknown>>(firstLine);
+    return !!record && !Array.isArray(record) && !('payload' in record);
+  },
+  createParser: createLegacyParser
+};
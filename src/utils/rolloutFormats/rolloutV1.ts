@@ -0,0 +1,311 @@
+import type { ContentPart, Conversation, SessionEvent, TokenUsage } from '../../types.js';
+import { extractMessageText } from '../messageUtils.js';
+import { rolloutBaseName } from '../rolloutFiles.js';
+import { addTokenUsage, parseEventMsg } from './events.js';
+import { createMessageCollector, createToolTracker, messageId, parseRecord, parseToolOutput, projectNameFromRepoUrl, reasoningSummaryText, recordTimestamp, truncateToolOutput } from './shared.js';
+import type { ReadOptions, RolloutFormatAdapter, RolloutParser } from './types.js';
+
+// Codex 0.32+: a session_meta record first, then response_item / event_msg / turn_context
+// records, each wrapped as { timestamp, type, payload }.
+
+function createRolloutV1Parser(filePath: string, options: ReadOptions = {}): RolloutParser {
+  interface NewLineBase { timestamp?: string; type?: string; payload?: unknown }
+  // sandbox_policy is tagged by mode, e.g. { mode: 'workspace-write', network_access: false }
+  interface TurnContextPayload { cwd?: unknown; model?: unknown; approval_policy?: unknown; sandbox_policy?: string | { mode?: unknown } }
+  interface RecordedReply { text: string; source: 'event' | 'item' }
+  interface SessionMetaPayload { id?: string; timestamp?: string; cwd?: string; instructions?: string; git?: { branch?: string; repository_url?: string } }
+  // ResponseItem payloads are variant; we'll treat them as 'any' in parsing logic below.
+
+  let sessionId = '';
+  let startTimestamp = new Date();
+  let cwd = '';
+  let repoUrl: string | undefined;
+  let gitBranch: string | undefined;
+  let isFirstLine = true;
+
+  const collector = createMessageCollector(!options.summaryOnly);
+  let currentId = '';
+  // Records without a timestamp of their own keep the last one seen
+  let lastTimestamp: string | null = null;
+  let tokenUsage: TokenUsage | undefined;
+  const models: string[] = [];
+  let approvalPolicy: string | undefined;
+  let sandboxPolicy: string | undefined;
+  // Agent messages are recorded both as a response item and as an event, one right after the
+  // other; the second record of such a pair is dropped. Any other record in between ends the pair.
+  let previousReply: RecordedReply | null = null;
+  let currentReply: RecordedReply | null = null;
+  // exec_command_begin timestamps by call_id, for ends that carry no duration
+  const commandStarts = new Map<string, string>();
+  const tools = createToolTracker(collector, options.summaryOnly);
+
+  const isEchoedReply = (text: string, source: 'event' | 'item'): boolean => {
+    const echoed = previousReply !== null && previousReply.source !== source && previousReply.text === text;
+    // A third identical record starts a new pair
+    currentReply = echoed ? null : { text, source };
+    return echoed;
+  };
+
+  const addToolCall = (timestamp: string, name: string, input: unknown, callId?: string, rawInput?: unknown, success?: boolean) => {
+    tools.addCall({
+      id: currentId,
+      sessionId,
+      timestamp,
+      type: 'assistant',
+      message: { role: 'assistant', content: [{ type: 'tool_use', name, input, tool_use_id: callId }] as ContentPart[] },
+      cwd,
+      tool: { callId, name, input: input ?? rawInput, success }
+    });
+  };
+
+  const addToolOutput = (payload: Record<string, unknown>, timestamp: string) => {
+    const callId = typeof payload.call_id === 'string' ? payload.call_id : undefined;
+    const outcome = parseToolOutput(payload.output);
+    if (tools.complete(callId, outcome)) return;
+    // An output whose call is missing still shows up on its own
+    collector.add({
+      id: currentId,
+      sessionId,
+      timestamp,
+      type: 'assistant',
+      message: { role: 'assistant', content: [{ type: 'tool_result' }] as ContentPart[] },
+      cwd,
+      toolUseResult: { content: 'tool call finished', ...outcome }
+    });
+  };
+
+  const applyEvent = (event: SessionEvent, timestamp: string) => {
+    switch (event.type) {
+      case 'token_count': {
+        tokenUsage = event.total ?? (tokenUsage ? addTokenUsage(tokenUsage, event.usage) : event.usage);
+        const last = collector.messages[collector.messages.length - 1];
+        if (last?.type === 'assistant') last.tokenUsage = event.usage;
+        return;
+      }
+      case 'agent_message':
+        if (isEchoedReply(event.message, 'event')) return;
+        collector.add({
+          id: currentId,
+          sessionId,
+          timestamp,
+          type: 'assistant',
+          message: { role: 'assistant', content: [{ type: 'output_text', text: event.message }] },
+          cwd
+        });
+        return;
+      case 'exec_command_begin':
+        if (event.callId) commandStarts.set(event.callId, timestamp);
+        return;
+      case 'exec_command_end': {
+        if (!event.callId) return;
+        const started = commandStarts.get(event.callId);
+        commandStarts.delete(event.callId);
+        tools.complete(event.callId, {
+          exitCode: event.exitCode,
+          durationMs: event.durationMs ?? (started ? Date.parse(timestamp) - Date.parse(started) : undefined),
+          stdout: event.stdout ? truncateToolOutput(event.stdout) : undefined,
+          stderr: event.stderr ? truncateToolOutput(event.stderr) : undefined
+        });
+        return;
+      }
+      case 'error':
+        collector.add({
+          id: currentId,
+          sessionId,
+          timestamp,
+          type: 'assistant',
+          message: { role: 'assistant', content: [{ type: 'error', text: event.message }] },
+          cwd
+        });
+        return;
+    }
+  };
+
+  return {
+    feed(line: string, lineNumber: number): boolean {
+      currentId = messageId(filePath, lineNumber);
+      // Parse session_meta from the first line; anything else means this is not a rollout-v1 file
+      if (isFirstLine) {
+        isFirstLine = false;
+        try {
+          const first = JSON.parse(line) as NewLineBase;
+          if (first && first.type === 'session_meta' && first.payload && typeof first.payload === 'object') {
+            const p = first.payload as SessionMetaPayload;
+            sessionId = (typeof p.id === 'string' && p.id) ? p.id : rolloutBaseName(filePath);
+            if (typeof p.timestamp === 'string') {
+              const ts = new Date(p.timestamp);
+              startTimestamp = isNaN(ts.getTime()) ? new Date() : ts;
+            }
+            cwd = typeof p.cwd === 'string' ? p.cwd : '';
+            if (p.git) {
+              if (typeof p.git.repository_url === 'string') repoUrl = p.git.repository_url;
+              if (typeof p.git.branch === 'string') gitBranch = p.git.branch;
+            }
+            return true;
+          }
+        } catch { /* fall through */ }
+        return false;
+      }
+
+      const data = parseRecord<NewLineBase>(line);
+      if (!data) return true;
+      previousReply = currentReply;
+      currentReply = null;
+      lastTimestamp = recordTimestamp(data.timestamp) ?? lastTimestamp;
+      const ts = lastTimestamp ?? startTimestamp.toISOString();
+
+      if (data.type === 'response_item' && data.payload && typeof data.payload === 'object') {
+        const payload = data.payload as Record<string, unknown>;
+        const pType = typeof payload.type === 'string' ? (payload.type as string).toLowerCase() : '';
+
+        // 1) Chat messages (user/assistant)
+        if (pType === 'message' && (payload.role === 'user' || payload.role === 'assistant')) {
+          // Hide initial environment_context messages from history (parity with legacy)
+          const contentArr = Array.isArray(payload.content) ? (payload.content as unknown[]) : [];
+          const isEnv = contentArr.some((it) => typeof (it as { text?: unknown })?.text === 'string' && ((it as { text?: string }).text as string).includes('<environment_context>'));
+          if (isEnv) return true;
+
+          const parts: ContentPart[] = contentArr.map((p): ContentPart | null => {
+            const t = typeof (p as { type?: unknown })?.type === 'string' ? ((p as { type?: string }).type as string).toLowerCase() : '';
+            const text = typeof (p as { text?: unknown })?.text === 'string' ? (p as { text?: string }).text : undefined;
+            if (t === 'input_text') return { type: 'input_text', text };
+            if (t === 'output_text') return { type: 'output_text', text };
+            if (t === 'text') return { type: 'text', text };
+            return null;
+          }).filter(Boolean) as ContentPart[];
+
+          const text = extractMessageText(parts);
+          if (payload.role === 'assistant' && isEchoedReply(text, 'item')) return true;
+
+          collector.add({
+            id: currentId,
+            sessionId,
+            timestamp: ts,
+            type: payload.role,
+            message: { role: payload.role, content: parts },
+            cwd
+          });
+          return true;
+        }
+
+        // 2) Reasoning — keep only the summary, as a thinking part
+        if (pType === 'reasoning') {
+          const thinking = reasoningSummaryText(payload);
+          if (thinking) {
+            collector.add({
+              id: currentId,
+              sessionId,
+              timestamp: ts,
+              type: 'assistant',
+              message: { role: 'assistant', content: [{ type: 'thinking', thinking }] },
+              cwd
+            });
+          }
+          return true;
+        }
+
+        // 3) Function/tool calls → map to tool_use, paired with their outputs by call_id
+        const callId = typeof payload.call_id === 'string' ? payload.call_id : undefined;
+
+        if (pType === 'function_call') {
+          let input: unknown = undefined;
+          try {
+            if (typeof payload.arguments === 'string') input = JSON.parse(payload.arguments as string);
+          } catch { /* ignore */ }
+          const name = typeof payload.name === 'string' ? (payload.name as string) : 'tool';
+          addToolCall(ts, name, input, callId, payload.arguments);
+          return true;
+        }
+
+        if (pType === 'custom_tool_call') {
+          const name = typeof payload.name === 'string' ? `custom:${payload.name as string}` : 'custom_tool';
+          let input: unknown = undefined;
+          try {
+            if (typeof payload.input === 'string') input = JSON.parse(payload.input as string);
+          } catch { input = payload.input as unknown; }
+          addToolCall(ts, name, input, callId);
+          return true;
+        }
+
+        if (pType === 'function_call_output' || pType === 'custom_tool_call_output') {
+          addToolOutput(payload, ts);
+          return true;
+        }
+
+        if (pType === 'local_shell_call') {
+          // Map to [Tool: shell] with command vector if available
+          const action = (payload.action as Record<string, unknown>) || {};
+          const command = Array.isArray(action.command) ? (action.command as unknown[]) : undefined;
+          addToolCall(ts, 'shell', { command }, callId);
+          return true;
+        }
+
+        if (pType === 'web_search_call') {
+          // Searches have no output record; the call itself says whether it completed
+          const action = (payload.action as Record<string, unknown>) || {};
+          const query = typeof action.query === 'string' ? (action.query as string) : undefined;
+          addToolCall(ts, 'web_search', { query }, callId, undefined, payload.status === 'completed' ? true : undefined);
+          return true;
+        }
+
+        // Other response_item variants — ignore for now to keep parity/noise low
+        return true;
+      }
+
+      // Settings each turn ran with; the last turn's policies are the effective ones
+      if (data.type === 'turn_context' && data.payload && typeof data.payload === 'object') {
+        const context = data.payload as TurnContextPayload;
+        if (typeof context.model === 'string' && context.model && !models.includes(context.model)) models.push(context.model);
+        if (typeof context.approval_policy === 'string') approvalPolicy = context.approval_policy;
+        const sandbox = typeof context.sandbox_policy === 'string' ? context.sandbox_policy : context.sandbox_policy?.mode;
+        if (typeof sandbox === 'string') sandboxPolicy = sandbox;
+        if (!cwd && typeof context.cwd === 'string') cwd = context.cwd;
+        return true;
+      }
+
+      if (data.type === 'event_msg') {
+        const event = parseEventMsg(data.payload);
+        if (event) applyEvent(event, ts);
+        return true;
+      }
+      return true;
+    },
+
+    build(endTime?: Date): Conversation | null {
+      if (collector.count === 0) return null;
+
+      const startTime = startTimestamp;
+      const projectName = projectNameFromRepoUrl(repoUrl);
+
+      return {
+        sessionId,
+        sourcePath: filePath,
+        projectPath: cwd,
+        projectName,
+        gitBranch: gitBranch || '-',
+        messages: collector.messages,
+        messageCount: collector.count,
+        tokenUsage,
+        errorCount: collector.errorCount,
+        models: models.length > 0 ? [...models] : undefined,
+        approvalPolicy,
+        sandboxPolicy,
+        firstMessage: collector.firstUserText,
+        lastMessage: collector.lastUserText,
+        transcriptDigests: collector.transcriptDigests,
+        toolNames: collector.toolNames,
+        touchedFiles: collector.touchedFiles,
+        startTime,
+        endTime: endTime ?? startTime
+      };
+    }
+  };
+}
+
+export const rolloutV1Format: RolloutFormatAdapter = {
+  id: 'rollout-v1',
+  detect(firstLine: string): boolean {
+    return parseRecord<{ type?: unknown }>(firstLine)?.type === 'session_meta';
+  },
+  createParser: createRolloutV1Parser
+};
@@ -0,0 +1,248 @@
+import { createHash } from 'crypto';
+import type { ContentPart, Message, ToolInvocation } from '../../types.js';
+import { effectiveToolName, extractMessageText, patchedFiles } from '../messageUtils.js';
+import { rolloutBaseName } from '../rolloutFiles.js';
+
+// Parses one JSONL record; null for malformed lines and non-object values
+export function parseRecord<T>(line: string): T | null {
+  try {
+    const parsed: unknown = JSON.parse(line);
+    return parsed && typeof parsed === 'object' ? parsed as T : null;
+  } catch {
+    return null;
+  }
+}
+
+// Stable message identity: the rollout file name without its extension, and the record's line number.
+// The extension is dropped so ids survive decompressing a `.jsonl.gz`.
+export function messageId(filePath: string, lineNumber: number): string {
+  return `${rolloutBaseName(filePath)}:${lineNumber}`;
+}
+
+// A record's own timestamp, or null when it has none that parses
+export function recordTimestamp(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  return isNaN(new Date(value).getTime()) ? null : value;
+}
+
+export function extractCwdFromContentText(text: string): string | null {
+  const m = text.match(/<cwd>([^<]+)<\/cwd>/);
+  return m ? m[1] : null;
+}
+
+export function projectNameFromRepoUrl(url?: string): string {
+  if (!url) return '-';
+  const withoutGit = url.replace(/\.git$/, '');
+  const parts = withoutGit.split('/');
+  if (parts.length < 2) return '-';
+  const owner = parts[parts.length - 2];
+  const repo = parts[parts.length - 1];
+  return `${owner}/${repo}`;
+}
+
+// Summary text of a `reasoning` record, joined across summary parts; empty when it has none
+// (the full reasoning is usually encrypted)
+export function reasoningSummaryText(record: { summary?: unknown }): string {
+  if (!Array.isArray(record.summary)) return '';
+  return record.summary
+    .map(part => (part && typeof (part as { text?: unknown }).text === 'string' ? (part as { text: string }).text.trim() : ''))
+    .filter(Boolean)
+    .join('\n\n');
+}
+
+const MAX_TOOL_OUTPUT_CHARS = 64 * 1024;
+
+// Keep retained tool output bounded; huge outputs are never shown in full anyway
+export function truncateToolOutput(text: string): string {
+  return text.length > MAX_TOOL_OUTPUT_CHARS ? `${text.slice(0, MAX_TOOL_OUTPUT_CHARS)}\n[... output truncated]` : text;
+}
+
+export interface ToolOutput {
+  stdout?: string;
+  exitCode?: number;
+  durationMs?: number;
+}
+
+// function_call_output carries either plain text or {"output": ..., "metadata": {"exit_code", "duration_seconds"}}
+export function parseToolOutput(output: unknown): ToolOutput {
+  if (typeof output !== 'string') return {};
+  const parsed = parseRecord<{ output?: unknown; metadata?: { exit_code?: unknown; duration_seconds?: unknown } }>(output);
+  if (!parsed || typeof parsed.output !== 'string') return { stdout: truncateToolOutput(output) };
+  const result: ToolOutput = { stdout: truncateToolOutput(parsed.output) };
+  const metadata = parsed.metadata;
+  if (metadata && typeof metadata.exit_code === 'number') result.exitCode = metadata.exit_code;
+  if (metadata && typeof metadata.duration_seconds === 'number') result.durationMs = Math.round(metadata.duration_seconds * 1000);
+  return result;
+}
+
+export interface MessageCollector {
+  add(message: Message): void;
+  messages: Message[];
+  count: number;
+  // Error events and commands that exited non-zero
+  errorCount: number;
+  firstUserText: string;
+  lastUserText: string;
+  transcriptDigests: string[];
+  // Tools called and files changed by apply_patch, in order of first use (for list filters)
+  toolNames: string[];
+  touchedFiles: string[];
+}
+
+// Chat messages fingerprinted for resume detection; beyond this a shared prefix is conclusive anyway
+const MAX_TRANSCRIPT_DIGESTS = 64;
+// Keeps the index entry of a session that rewrote a whole tree bounded
+const MAX_TOUCHED_FILES = 200;
+const TEXT_PART_TYPES = new Set<ContentPart['type']>(['text', 'input_text', 'output_text']);
+
+export function createMessageCollector(keepMessages: boolean): MessageCollector {
+  let sawUserMessage = false;
+  const collector: MessageCollector = {
+    messages: [],
+    count: 0,
+    errorCount: 0,
+    firstUserText: '',
+    lastUserText: '',
+    transcriptDigests: [],
+    toolNames: [],
+    touchedFiles: [],
+    add(message: Message) {
+      collector.count++;
+      if (keepMessages) collector.messages.push(message);
+      if (isErrorMessage(message)) collector.errorCount++;
+      if (message.type === 'user') {
+        const text = extractMessageText(message.message?.content);
+        if (!sawUserMessage) collector.firstUserText = text;
+        sawUserMessage = true;
+        collector.lastUserText = text;
+      }
+      const digests = collector.transcriptDigests;
+      if (digests.length < MAX_TRANSCRIPT_DIGESTS && isChatMessage(message)) {
+        const text = extractMessageText(message.message?.content);
+        digests.push(createHash('sha1').update(`${digests[digests.length - 1] ?? ''}\n${message.type}:${text}`).digest('hex').slice(0, 16));
+      }
+      const content = message.message?.content;
+      if (!Array.isArray(content)) return;
+      for (const part of content) {
+        if (part?.type !== 'tool_use') continue;
+        addUnique(collector.toolNames, effectiveToolName(part.name, part.input));
+        for (const file of patchedFiles(part.input)) {
+          if (collector.touchedFiles.length < MAX_TOUCHED_FILES) addUnique(collector.touchedFiles, file);
+        }
+      }
+    }
+  };
+  return collector;
+}
+
+function addUnique(list: string[], value: string): void {
+  if (!list.includes(value)) list.push(value);
+}
+
+// Plain user/assistant text, as opposed to tool calls, reasoning and errors
+function isChatMessage(message: Message): boolean {
+  const content = message.message?.content;
+  if (typeof content === 'string') return content.length > 0;
+  return Array.isArray(content) && content.length > 0 && content.every(part => TEXT_PART_TYPES.has(part?.type));
+}
+
+function isErrorMessage(message: Message): boolean {
+  if (message.tool?.success === false) return true;
+  const exitCode = message.toolUseResult?.exitCode;
+  if (exitCode !== undefined && exitCode !== 0) return true;
+  const content = message.message?.content;
+  return Array.isArray(content) && content.some(part => part?.type === 'error');
+}
+
+// What is known about a finished call: from its *_output record or an exec_command_end event
+export interface ToolOutcome {
+  stdout?: string;
+  stderr?: string;
+  exitCode?: number;
+  durationMs?: number;
+}
+
+export interface ToolTracker {
+  // Adds a tool call message (with `tool` set) to the collector
+  addCall(message: Message): void;
+  // Completes the call with this id; false when no such call has been seen yet, in which
+  // case the outcome is kept and applied if the call shows up later
+  complete(callId: string | undefined, outcome: ToolOutcome): boolean;
+}
+
+// A call's exec_command_end and *_output records arrive within a few records of each other, so
+// completed calls (and outcomes whose call has not shown up) are remembered only this long
+const MAX_RECENT_CALLS = 32;
+
+interface TrackedCall {
+  tool: ToolInvocation;
+  // The message shown for the call; not kept in summary mode
+  message: Message | null;
+}
+
+/**
+ * Pairs tool calls with their outcomes by call_id. The first value recorded for a field wins,
+ * so an exec_command_end and the *_output record can arrive in either order. In summary mode
+ * only the exit status is tracked, since the messages are not kept either.
+ */
+export function createToolTracker(collector: MessageCollector, summaryOnly = false): ToolTracker {
+  // Calls without an outcome yet, and the most recently completed ones for a second outcome
+  const calls = new Map<string, TrackedCall>();
+  const completed = new Map<string, TrackedCall>();
+  const early = new Map<string, ToolOutcome>();
+  const kept = (outcome: ToolOutcome): ToolOutcome => summaryOnly ? { exitCode: outcome.exitCode } : outcome;
+  const remember = <T>(recent: Map<string, T>, callId: string, value: T) => {
+    recent.delete(callId);
+    recent.set(callId, value);
+    if (recent.size > MAX_RECENT_CALLS) recent.delete(recent.keys().next().value as string);
+  };
+
+  return {
+    addCall(message: Message) {
+      const callId = message.tool?.callId;
+      if (message.tool && callId) {
+        const outcome = early.get(callId);
+        if (outcome) {
+          early.delete(callId);
+          message.tool = applyToolOutcome(message.tool, outcome);
+          remember(completed, callId, { tool: message.tool, message: summaryOnly ? null : message });
+        } else {
+          calls.set(callId, {
+            tool: summaryOnly ? { callId, name: message.tool.name, success: message.tool.success } : message.tool,
+            message: summaryOnly ? null : message
+          });
+        }
+      }
+      collector.add(message);
+    },
+
+    complete(callId: string | undefined, outcome: ToolOutcome): boolean {
+      if (!callId) return false;
+      const call = calls.get(callId) ?? completed.get(callId);
+      if (!call) {
+        remember(early, callId, { ...early.get(callId), ...kept(outcome) });
+        return false;
+      }
+      const wasFailed = call.tool.success === false;
+      call.tool = applyToolOutcome(call.tool, kept(outcome));
+      if (call.message) call.message.tool = call.tool;
+      if (!wasFailed && call.tool.success === false) collector.errorCount++;
+      calls.delete(callId);
+      remember(completed, callId, call);
+      return true;
+    }
+  };
+}
+
+function applyToolOutcome(tool: ToolInvocation, outcome: ToolOutcome): ToolInvocation {
+  const exitCode = tool.exitCode ?? outcome.exitCode;
+  return {
+    ...tool,
+    stdout: tool.stdout ?? outcome.stdout,
+    stderr: tool.stderr ?? outcome.stderr,
+    exitCode,
+    durationMs: tool.durationMs ?? outcome.durationMs,
+    // Tools without an exit status succeed once they produced output
+    success: exitCode === undefined ? true : exitCode === 0
+  };
+}
@@ -0,0 +1,24 @@
+import type { Conversation } from '../../types.js';
+
+export type RolloutFormat = 'legacy' | 'rollout-v1';
+
+export interface ReadOptions {
+  // Summary pass: count messages and keep first/last user text, but do not retain messages
+  summaryOnly?: boolean;
+}
+
+// Incremental, line-fed parser for one rollout file; lets a caller resume parsing as lines are appended
+export interface RolloutParser {
+  // Returns false once the input turns out not to be in this parser's format.
+  // `lineNumber` (1-based) gives every message a stable id.
+  feed(line: string, lineNumber: number): boolean;
+  // Null while no messages have been seen
+  build(endTime?: Date): Conversation | null;
+}
+
+export interface RolloutFormatAdapter {
+  id: RolloutFormat;
+  // True when a file starting with this line is written in this format
+  detect(firstLine: string): boolean;
+  createParser(filePath: string, options?: ReadOptions): RolloutParser;
+}
@@ -0,0 +1,155 @@
+import { watch, type FSWatcher } from 'fs';
+import { stat } from 'fs/promises';
+import type { Conversation } from '../types.js';
+import { readJsonlLines, type JsonlLine } from './jsonlStream.js';
+import { isCompressedRollout } from './rolloutFiles.js';
+import { sniffRolloutFormat, type ReadOptions, type RolloutFormat, type RolloutParser } from './rolloutFormats/index.js';
+import { parseRecord } from './rolloutFormats/shared.js';
+
+export interface RolloutTail {
+  close(): void;
+}
+
+export interface RolloutFollower {
+  // Reads the lines appended since the previous call; false when there were none
+  readAppended(): Promise<boolean>;
+  // Format recognized so far; null until known or when the file is not a rollout
+  format(): RolloutFormat | null;
+  // The session as read so far; null until it has messages or when the file is not a rollout
+  current(): Conversation | null;
+}
+
+/**
+ * Reads one rollout file incrementally: parses it once, then only the lines appended since the
+ * previous read. A line still being written is left for the next read; a file that shrinks is
+ * re-read from the start. Compressed files are read from the start every time.
+ */
+export function followRollout(filePath: string, options: ReadOptions = {}): RolloutFollower {
+  let parser: RolloutParser | null = null;
+  let format: RolloutFormat | null = null;
+  let rejected = false;
+  let offset = 0;
+  let nextLineNumber = 1;
+  // Stamp of the file at the previous read
+  let size = 0;
+  let mtime: Date | undefined;
+  const compressed = isCompressedRollout(filePath);
+
+  const reset = () => {
+    parser = null;
+    format = null;
+    rejected = false;
+    offset = 0;
+    nextLineNumber = 1;
+  };
+
+  const readAppended = async (): Promise<boolean> => {
+    try {
+      const s = await stat(filePath);
+      if (s.size === size && s.mtimeMs === mtime?.getTime()) return false;
+      // Compressed files are not appended to, and a file that shrank was rewritten
+      if (compressed || s.size < size) reset();
+      size = s.size;
+      mtime = s.mtime;
+    } catch {
+      return false;
+    }
+    if (rejected) return false;
+
+    let changed = false;
+    // Lines read before the format is known; they are read again next time if it is still unknown
+    const leading: JsonlLine[] = [];
+    try {
+      for await (const line of readJsonlLines(filePath, { start: offset, startLineNumber: nextLineNumber })) {
+        // A trailing line that parses is complete, only its newline is missing
+        if (!line.complete && parseRecord(line.text) === null) break;
+        let lines = [line];
+        if (!parser) {
+          leading.push(line);
+          const adapter = sniffRolloutFormat(leading.map(({ text }) => text));
+          if (adapter === undefined) continue;
+          // Not a rollout file; nothing later in it will parse either
+          if (!adapter) {
+            rejected = true;
+            return changed;
+          }
+          format = adapter.id;
+          parser = adapter.createParser(filePath, options);
+          lines = leading;
+        }
+        for (const { text, lineNumber } of lines) {
+          if (!parser.feed(text, lineNumber)) {
+            rejected = true;
+            return changed;
+          }
+        }
+        offset = line.endOffset;
+        nextLineNumber = line.lineNumber + 1;
+        changed = true;
+      }
+    } catch {
+      // Keep what was read; the next call starts again from the last complete line
+    }
+    return changed;
+  };
+
+  return {
+    readAppended,
+    format: () => format,
+    current: () => (rejected ? null : parser?.build(mtime) ?? null)
+  };
+}
+
+/**
+ * Follows one rollout file (see followRollout) while it changes. `onUpdate` receives a fresh
+ * Conversation (new messages array) on every change.
+ */
+export function tailRollout(filePath: string, onUpdate: (conversation: Conversation) => void): RolloutTail {
+  const follower = followRollout(filePath);
+  let closed = false;
+  let reading = false;
+  let readAgain = false;
+  let watcher: FSWatcher | null = null;
+
+  const readAppended = async () => {
+    if (!await follower.readAppended() || closed) return;
+    const conversation = follower.current();
+    if (conversation) onUpdate({ ...conversation, messages: [...conversation.messages] });
+  };
+
+  // Appends arrive in bursts; never run two reads at once, but do not miss the last write
+  const schedule = () => {
+    if (closed) return;
+    if (reading) {
+      readAgain = true;
+      return;
+    }
+    reading = true;
+    void readAppended().catch(() => { /* keep the last good state */ }).finally(() => {
+      reading = false;
+      if (readAgain) {
+        readAgain = false;
+        schedule();
+      }
+    });
+  };
+
+  try {
+    watcher = watch(filePath, { persistent: false }, schedule);
+    watcher.on('error', () => {
+      watcher?.close();
+      watcher = null;
+    });
+  } catch {
+    watcher = null;
+  }
+  schedule();
+
+  return {
+    close() {
+      closed = true;
+      watcher?.close();
+      watcher = null;
+    }
+  };
+}
@@ -0,0 +1,143 @@
+import type { Conversation } from '../types.js';
+
+// Structured filter for the session list, e.g.
+//   repo:acme/api branch:main after:2025-09-01 tool:apply_patch file:src/db.ts has:error flaky test
+// Every term must match. Terms with an unknown key are treated as free text.
+
+export interface SessionFilter {
+  // Substrings of the repository (owner/name from the git remote) or the project path
+  repos: string[];
+  // Exact branch names
+  branches: string[];
+  // Last activity on or after `after`, and before `before` (local midnight of the given days)
+  after?: Date;
+  before?: Date;
+  // Tool names as recorded, with shell calls that apply a patch counted as apply_patch
+  tools: string[];
+  // Substrings of the paths changed by apply_patch
+  files: string[];
+  // Substrings of the model names
+  models: string[];
+  hasError: boolean;
+  // Words and "quoted phrases" found in the first or last prompt, the project path or the branch
+  text: string[];
+}
+
+export interface ParsedSessionFilter {
+  filter: SessionFilter;
+  // Terms that were left out, e.g. an after: that is not a date
+  problems: string[];
+}
+
+const FILTER_KEYS = ['repo', 'branch', 'after', 'before', 'tool', 'file', 'model', 'has'] as const;
+// key:value, key:"quoted value", a bare word or a "quoted phrase"; a key may be left without a value
+const TERM_PATTERN = /(?:([a-z]+):)?(?:"([^"]*)"?|(\S*))/gi;
+const DAY_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const HAS_VALUES = ['error'];
+
+export function emptySessionFilter(): SessionFilter {
+  return { repos: [], branches: [], tools: [], files: [], models: [], hasError: false, text: [] };
+}
+
+export function parseSessionFilter(query: string): ParsedSessionFilter {
+  const filter = emptySessionFilter();
+  const problems: string[] = [];
+
+  for (const match of query.matchAll(TERM_PATTERN)) {
+    if (!match[0]) continue;
+    const key = match[1]?.toLowerCase();
+    const value = (match[2] ?? match[3] ?? '').trim();
+    if (key && !isFilterKey(key)) {
+      filter.text.push(match[0].replace(/"/g, ''));
+      continue;
+    }
+    if (!value) {
+      if (key) problems.push(`${key}: needs a value`);
+      continue;
+    }
+    switch (key) {
+      case undefined: filter.text.push(value); break;
+      case 'repo': filter.repos.push(value); break;
+      case 'branch': filter.branches.push(value); break;
+      case 'tool': filter.tools.push(value); break;
+      case 'file': filter.files.push(value); break;
+      case 'model': filter.models.push(value); break;
+      case 'after':
+      case 'before': {
+        const day = parseDay(value);
+        if (day) filter[key] = day;
+        else problems.push(`${key}: expects a date like 2025-09-01, got "${value}"`);
+        break;
+      }
+      case 'has':
+        if (HAS_VALUES.includes(value.toLowerCase())) filter.hasError = true;
+        else problems.push(`has: supports ${HAS_VALUES.join(', ')}, got "${value}"`);
+        break;
+    }
+  }
+  return { filter, problems };
+}
+
+export function isEmptySessionFilter(filter: SessionFilter): boolean {
+  return formatSessionFilter(filter) === '';
+}
+
+export function matchesSessionFilter(conversation: Conversation, filter: SessionFilter): boolean {
+  const lower = (value: string | null | undefined) => (value ?? '').toLowerCase();
+  const contains = (haystack: string | null | undefined, needle: string) => lower(haystack).includes(needle.toLowerCase());
+
+  if (!filter.repos.every(repo => contains(conversation.projectName, repo) || contains(conversation.projectPath, repo))) return false;
+  if (!filter.branches.every(branch => conversation.gitBranch === branch)) return false;
+  if (filter.after && conversation.endTime.getTime() < filter.after.getTime()) return false;
+  if (filter.before && conversation.endTime.getTime() >= filter.before.getTime()) return false;
+  const tools = (conversation.toolNames ?? []).map(lower);
+  if (!filter.tools.every(tool => tools.includes(tool.toLowerCase()))) return false;
+  if (!filter.files.every(file => conversation.touchedFiles?.some(path => contains(path, file)))) return false;
+  if (!filter.models.every(model => conversation.models?.some(name => contains(name, model)))) return false;
+  if (filter.hasError && !conversation.errorCount) return false;
+
+  const text = [conversation.firstMessage, conversation.lastMessage, conversation.projectPath, conversation.gitBranch].map(lower).join('\n');
+  return filter.text.every(word => text.includes(word.toLowerCase()));
+}
+
+/** The filter as a query in canonical order, for display; empty for a filter that matches everything. */
+export function formatSessionFilter(filter: SessionFilter): string {
+  const terms = [
+    ...filter.repos.map(value => term('repo', value)),
+    ...filter.branches.map(value => term('branch', value)),
+    ...(filter.after ? [term('after', formatDay(filter.after))] : []),
+    ...(filter.before ? [term('before', formatDay(filter.before))] : []),
+    ...filter.tools.map(value => term('tool', value)),
+    ...filter.files.map(value => term('file', value)),
+    ...filter.models.map(value => term('model', value)),
+    ...(filter.hasError ? ['has:error'] : []),
+    ...filter.text.map(value => quote(value))
+  ];
+  return terms.join(' ');
+}
+
+function isFilterKey(key: string): key is typeof FILTER_KEYS[number] {
+  return (FILTER_KEYS as readonly string[]).includes(key);
+}
+
+function parseDay(value: string): Date | null {
+  const match = DAY_PATTERN.exec(value);
+  if (!match) return null;
+  const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  const date = new Date(year, month - 1, day);
+  // Rejects 2025-02-30 and the like, which Date would roll over into the next month
+  return date.getMonth() === month - 1 && date.getDate() === day ? date : null;
+}
+
+function formatDay(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+function term(key: string, value: string): string {
+  return `${key}:${quote(value)}`;
+}
+
+function quote(value: string): string {
+  return /\s/.test(value) ? `"${value}"` : value;
+}
@@ -0,0 +1,143 @@
+import { readFile, writeFile, mkdir, rename, rm } from 'fs/promises';
+import { join, dirname } from 'path';
+import { homedir } from 'os';
+import type { Conversation } from '../types.js';
+import type { RolloutFormat } from './rolloutFormats/index.js';
+
+// Bump whenever the shape of cached entries changes; older files are discarded.
+const INDEX_VERSION = 9;
+
+// List-level metadata only: messages are never persisted.
+type CachedConversation = Omit<Conversation, 'messages' | 'startTime' | 'endTime'> & {
+  startTime: string;
+  endTime: string;
+};
+
+interface SessionIndexEntry {
+  size: number;
+  mtimeMs: number;
+  format: RolloutFormat | null;
+  // null records a file that yielded no conversation, so it is not re-parsed either
+  conversation: CachedConversation | null;
+}
+
+interface SessionIndexFile {
+  version: number;
+  entries: Record<string, SessionIndexEntry>;
+}
+
+export interface SessionIndex {
+  entries: Map<string, SessionIndexEntry>;
+  dirty: boolean;
+}
+
+export interface FileStamp {
+  size: number;
+  mtimeMs: number;
+}
+
+export interface IndexedConversation {
+  format: RolloutFormat | null;
+  conversation: Conversation | null;
+}
+
+export function getCacheDir(): string {
+  const xdgCacheHome = process.env.XDG_CACHE_HOME || join(homedir(), '.cache');
+  return join(xdgCacheHome, 'cdxresume');
+}
+
+export function getSessionIndexPath(): string {
+  return join(getCacheDir(), 'session-index.json');
+}
+
+export function createSessionIndex(): SessionIndex {
+  return { entries: new Map(), dirty: false };
+}
+
+export async function loadSessionIndex(): Promise<SessionIndex> {
+  try {
+    const raw = await readFile(getSessionIndexPath(), 'utf-8');
+    const parsed = JSON.parse(raw) as Partial<SessionIndexFile>;
+    if (parsed.version !== INDEX_VERSION || !parsed.entries || typeof parsed.entries !== 'object') {
+      return createSessionIndex();
+    }
+    return { entries: new Map(Object.entries(parsed.entries)), dirty: false };
+  } catch {
+    // Missing or corrupt index: start over, it will be rebuilt from the rollout files
+    return createSessionIndex();
+  }
+}
+
+export async function saveSessionIndex(index: SessionIndex): Promise<void> {
+  if (!index.dirty) return;
+  const indexPath = getSessionIndexPath();
+  const data: SessionIndexFile = { version: INDEX_VERSION, entries: Object.fromEntries(index.entries) };
+  try {
+    await mkdir(dirname(indexPath), { recursive: true });
+    // Write to a temp file first so a crash never leaves a truncated index behind
+    const tmpPath = `${indexPath}.${process.pid}.tmp`;
+    await writeFile(tmpPath, JSON.stringify(data), 'utf-8');
+    await rename(tmpPath, indexPath);
+    index.dirty = false;
+  } catch {
+    // The cache is an optimization only; failing to persist it must not break browsing
+  }
+}
+
+export async function clearSessionIndex(): Promise<void> {
+  await rm(getSessionIndexPath(), { force: true });
+}
+
+export function lookupSessionIndex(index: SessionIndex, filePath: string, stamp: FileStamp): IndexedConversation | undefined {
+  const entry = index.entries.get(filePath);
+  if (!entry || entry.size !== stamp.size || entry.mtimeMs !== stamp.mtimeMs) return undefined;
+  return {
+    format: entry.format,
+    conversation: entry.conversation ? reviveConversation(entry.conversation) : null
+  };
+}
+
+export function updateSessionIndex(
+  index: SessionIndex,
+  filePath: string,
+  stamp: FileStamp,
+  format: RolloutFormat | null,
+  conversation: Conversation | null
+): void {
+  index.entries.set(filePath, {
+    size: stamp.size,
+    mtimeMs: stamp.mtimeMs,
+    format,
+    conversation: conversation ? serializeConversation(conversation) : null
+  });
+  index.dirty = true;
+}
+
+export function pruneSessionIndex(index: SessionIndex, seenPaths: Set<string>): void {
+  for (const filePath of index.entries.keys()) {
+    if (!seenPaths.has(filePath)) {
+      index.entries.delete(filePath);
+      index.dirty = true;
+    }
+  }
+}
+
+function serializeConversation(conversation: Conversation): CachedConversation {
+  // Messages are read again when a session is opened; the index keeps only list metadata
+  const cached: CachedConversation & { messages?: Conversation['messages'] } = {
+    ...conversation,
+    startTime: conversation.startTime.toISOString(),
+    endTime: conversation.endTime.toISOString()
+  };
+  delete cached.messages;
+  return cached;
+}
+
+function reviveConversation(cached: CachedConversation): Conversation {
+  return {
+    ...cached,
+    messages: [],
+    startTime: new Date(cached.startTime),
+    endTime: new Date(cached.endTime)
+  };
+}
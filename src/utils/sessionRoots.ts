@@ -0,0 +1,32 @@
+import { join, resolve } from 'path';
+import { homedir } from 'os';
+
+// Codex keeps its state under $CODEX_HOME, falling back to ~/.codex
+export function getCodexHome(): string {
+  const fromEnv = process.env.CODEX_HOME;
+  return fromEnv ? expandHome(fromEnv) : join(homedir(), '.codex');
+}
+
+export function getDefaultSessionsRoot(): string {
+  return join(getCodexHome(), 'sessions');
+}
+
+/**
+ * The Codex sessions directory first, then roots from config and from `--sessions-dir`.
+ * Paths are made absolute (`~` is expanded) and duplicates are dropped.
+ */
+export function resolveSessionRoots(configRoots: string[] = [], cliRoots: string[] = []): string[] {
+  const roots: string[] = [];
+  for (const root of [getDefaultSessionsRoot(), ...configRoots, ...cliRoots]) {
+    if (!root) continue;
+    const absolute = resolve(expandHome(root));
+    if (!roots.includes(absolute)) roots.push(absolute);
+  }
+  return roots;
+}
+
+function expandHome(path: string): string {
+  if (path === '~') return homedir();
+  if (path.startsWith('~/')) return join(homedir(), path.slice(2));
+  return path;
+}
@@ -0,0 +1,127 @@
+import type { Conversation, Message } from '../types.js';
+import { extractMessageText, patchedFiles } from './messageUtils.js';
+import { readConversationFile, walkRolloutFiles } from './conversationReader.js';
+import { readJsonlLines } from './jsonlStream.js';
+import { matchesSessionFilter, type SessionFilter } from './sessionFilter.js';
+import { matchesDirectoryScope, type DirectoryScope } from './directoryScope.js';
+
+// Full-text search over every session: message text, reasoning summaries, tool commands and
+// the files touched by apply_patch. Matching is a case-insensitive substring match.
+
+export const MAX_SEARCH_RESULTS = 200;
+
+export interface SearchHit {
+  // List entry of the matching session (messages are not kept)
+  conversation: Conversation;
+  // First matching message
+  messageId?: string;
+  snippet: string;
+  // Messages in the session that match
+  matchCount: number;
+}
+
+export interface SearchOptions {
+  roots: string[];
+  directoryScope?: DirectoryScope;
+  // Only sessions the list filter lets through are searched
+  filter?: SessionFilter;
+  limit?: number;
+  // Checked between files; a newer search makes the running one stop early
+  isCancelled?: () => boolean;
+}
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+/** Sessions containing `query`, most recently active first. */
+export async function searchSessions(query: string, options: SearchOptions): Promise<SearchHit[]> {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return [];
+  const limit = options.limit ?? MAX_SEARCH_RESULTS;
+  // JSON escapes quotes and backslashes, so raw lines can only be prefiltered for other queries
+  const canPrefilter = !/["\\]/.test(needle);
+  const hits: SearchHit[] = [];
+
+  for await (const { root, filePath } of walkRolloutFiles(options.roots)) {
+    if (options.isCancelled?.()) break;
+    if (canPrefilter && !await fileContains(filePath, needle)) continue;
+    const conversation = await readConversationFile(filePath, root);
+    if (!conversation) continue;
+    if (options.directoryScope && !matchesDirectoryScope(conversation.projectPath, options.directoryScope)) continue;
+    if (options.filter && !matchesSessionFilter(conversation, options.filter)) continue;
+    const hit = matchConversation(conversation, needle);
+    if (hit) hits.push(hit);
+    if (hits.length >= limit) break;
+  }
+  return hits.sort((a, b) => b.conversation.endTime.getTime() - a.conversation.endTime.getTime());
+}
+
+export function matchConversation(conversation: Conversation, query: string): SearchHit | null {
+  const needle = query.trim().toLowerCase();
+  let first: { message: Message; text: string } | null = null;
+  let matchCount = 0;
+  for (const message of conversation.messages) {
+    const text = messageSearchText(message);
+    if (!text.toLowerCase().includes(needle)) continue;
+    matchCount++;
+    first ??= { message, text };
+  }
+  if (!first) return null;
+  return {
+    conversation: { ...conversation, messages: [] },
+    messageId: first.message.id,
+    snippet: snippetAround(first.text, needle, 120),
+    matchCount
+  };
+}
+
+// Everything a search looks at in one message
+export function messageSearchText(message: Message): string {
+  const content = message.message?.content;
+  const parts = [extractMessageText(content)];
+  if (Array.isArray(content)) {
+    for (const part of content) {
+      if (part?.type === 'thinking' && part.thinking) parts.push(part.thinking);
+      if (part?.type === 'tool_use') parts.push(...patchedFiles(part.input));
+    }
+  }
+  return parts.join('\n');
+}
+
+/**
+ * A single-line excerpt of `text`, at most `width` characters, with the first match of
+ * `query` near its start so it survives further truncation.
+ */
+export function snippetAround(text: string, query: string, width: number): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  const at = flat.toLowerCase().indexOf(query.trim().toLowerCase());
+  if (at === -1 || flat.length <= width) return flat.slice(0, width);
+  const start = Math.max(0, Math.min(at - Math.floor(width / 4), flat.length - width));
+  const excerpt = flat.slice(start, start + width);
+  return `${start > 0 ? '…' : ''}${excerpt}${start + width < flat.length ? '…' : ''}`;
+}
+
+/** Splits `text` into runs that do and do not match `query` (case-insensitive). */
+export function highlightSegments(text: string, query?: string): HighlightSegment[] {
+  const needle = query?.trim().toLowerCase();
+  if (!needle) return [{ text, match: false }];
+  const lower = text.toLowerCase();
+  const segments: HighlightSegment[] = [];
+  let pos = 0;
+  for (let at = lower.indexOf(needle); at !== -1; at = lower.indexOf(needle, pos)) {
+    if (at > pos) segments.push({ text: text.slice(pos, at), match: false });
+    segments.push({ text: text.slice(at, at + needle.length), match: true });
+    pos = at + needle.length;
+  }
+  if (pos < text.length) segments.push({ text: text.slice(pos), match: false });
+  return segments;
+}
+
+async function fileContains(filePath: string, needle: string): Promise<boolean> {
+  for await (const { text } of readJsonlLines(filePath)) {
+    if (text.toLowerCase().includes(needle)) return true;
+  }
+  return false;
+}
@@ -0,0 +1,89 @@
+import { watch, type FSWatcher } from 'fs';
+import { join } from 'path';
+import { isRolloutFile } from './rolloutFiles.js';
+
+const DEFAULT_DEBOUNCE_MS = 500;
+const DEFAULT_RETRY_MS = 2000;
+
+export interface SessionWatcher {
+  close(): void;
+}
+
+export interface WatchSessionsOptions {
+  debounceMs?: number;
+  // How often to try again while the root does not exist (or cannot be watched)
+  retryMs?: number;
+}
+
+/**
+ * Watches a sessions root recursively and reports created or modified rollout files.
+ * Bursts of events (Codex appends line by line) are coalesced into one callback.
+ * While the root does not exist or cannot be watched, watching is retried every `retryMs`;
+ * once it starts late, an empty list is reported, since files may have appeared meanwhile.
+ */
+export function watchSessions(
+  root: string,
+  onChange: (changedPaths: string[]) => void,
+  options: WatchSessionsOptions = {}
+): SessionWatcher {
+  const debounceMs = options.debounceMs ?? DEFAULT_DEBOUNCE_MS;
+  const retryMs = options.retryMs ?? DEFAULT_RETRY_MS;
+  const pending = new Set<string>();
+  let timer: NodeJS.Timeout | null = null;
+  let retryTimer: NodeJS.Timeout | null = null;
+  let watcher: FSWatcher | null = null;
+
+  const flush = () => {
+    timer = null;
+    if (pending.size === 0) return;
+    const changed = Array.from(pending);
+    pending.clear();
+    onChange(changed);
+  };
+
+  const start = (): boolean => {
+    try {
+      watcher = watch(root, { recursive: true, persistent: false }, (_event, filename) => {
+        if (!filename) return;
+        const name = filename.toString();
+        if (!isRolloutFile(name)) return;
+        pending.add(join(root, name));
+        if (!timer) timer = setTimeout(flush, debounceMs);
+      });
+      // Errors (e.g. the root being removed) end live updates until the root can be watched again
+      watcher.on('error', () => {
+        watcher?.close();
+        watcher = null;
+        scheduleRetry();
+      });
+      return true;
+    } catch {
+      watcher = null;
+      return false;
+    }
+  };
+
+  const scheduleRetry = () => {
+    retryTimer = setTimeout(() => {
+      retryTimer = null;
+      if (start()) onChange([]);
+      else scheduleRetry();
+    }, retryMs);
+    // Like the watcher itself, waiting for the root must not keep the process alive
+    retryTimer.unref();
+  };
+
+  if (!start()) scheduleRetry();
+
+  return {
+    close() {
+      if (timer) clearTimeout(timer);
+      if (retryTimer) clearTimeout(retryTimer);
+      timer = null;
+      retryTimer = null;
+      pending.clear();
+      watcher?.close();
+      watcher = null;
+    }
+  };
+}
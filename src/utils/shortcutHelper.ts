@@ -1,34 +1,35 @@
 import { Config } from '../types/config.js';
 
-export function getShortcutText(config: Config, width?: number): string {
-  const shortcuts: string[] = [];
+// Format keybindings for display
+export function formatKeys(keys: string[]): string {
+  // Handle empty key bindings
+  if (!keys || keys.length === 0) {
+    return 'undefined';
+  }
   
-  // Format keybindings for display
-  const formatKeys = (keys: string[]): string => {
-    // Handle empty key bindings
-    if (!keys || keys.length === 0) {
-      return 'undefined';
+  return keys.map(key => {
+    // Convert special key names to display format
+    if (key.includes('+')) {
+      return key.split('+').map(part => {
+        if (part === 'ctrl') return 'Ctrl';
+        if (part === 'shift') return 'Shift';
+        if (part === 'cmd' || part === 'command' || part === 'meta') return 'Cmd';
+        return part.charAt(0).toUpperCase() + part.slice(1);
+      }).join('+');
     }
-    
-    return keys.map(key => {
-      // Convert special key names to display format
-      if (key.includes('+')) {
-        return key.split('+').map(part => {
-          if (part === 'ctrl') return 'Ctrl';
-          if (part === 'shift') return 'Shift';
-          if (part === 'cmd' || part === 'command' || part === 'meta') return 'Cmd';
-          return part.charAt(0).toUpperCase() + part.slice(1);
-        }).join('+');
-      }
-      // Special formatting for single keys
-      if (key === 'up') return '↑';
-      if (key === 'down') return '↓';
-      if (key === 'enter' || key === 'return') return 'Enter';
-      if (key === 'pageup') return 'PgUp';
-      if (key === 'pagedown') return 'PgDn';
-      return key;
-    }).join('/');
-  };
+    // Special formatting for single keys
+    if (key === 'up') return '↑';
+    if (key === 'down') return '↓';
+    if (key === 'enter' || key === 'return') return 'Enter';
+    if (key === 'pageup') return 'PgUp';
+    if (key === 'pagedown') return 'PgDn';
+    if (key === 'space') return 'Space';
+    return key;
+  }).join('/');
+}
+
+export function getShortcutText(config: Config, width?: number): string {
+  const shortcuts: string[] = [];
   
   // Determine which shortcuts to show based on available width
   const isNarrow = width && width < 120;
@@ -43,6 +44,15 @@ export function getShortcutText(config: Config, width?: number): string {
     shortcuts.push(`${formatKeys(config.keybindings.copySessionId)}:Copy`);
     shortcuts.push(`${formatKeys(config.keybindings.quit)}:Quit`);
     shortcuts.push(`${formatKeys(config.keybindings.toggleFullView)}:Full`);
+    shortcuts.push(`${formatKeys(config.keybindings.toggleLiveTail)}:Follow`);
+    shortcuts.push(`${formatKeys(config.keybindings.toggleThinking)}:Reasoning`);
+    shortcuts.push(`${formatKeys(config.keybindings.toggleThread)}:Thread`);
+    shortcuts.push(`${formatKeys(config.keybindings.search)}:Search`);
+    shortcuts.push(`${formatKeys(config.keybindings.filter)}:Filter`);
+    shortcuts.push(`${formatKeys(config.keybindings.fuzzyFilter)}:Fuzzy`);
+    shortcuts.push(`${formatKeys(config.keybindings.cycleSort)}:Sort`);
+    shortcuts.push(`${formatKeys(config.keybindings.toggleProjectView)}:Projects`);
+    shortcuts.push(`${formatKeys(config.keybindings.exportConversation)}:Export`);
   } else {
     // Full version for wider terminals - shortened where possible
     shortcuts.push(`Nav: ${formatKeys(config.keybindings.selectPrevious)}/${formatKeys(config.keybindings.selectNext)}`);
@@ -55,6 +65,15 @@ export function getShortcutText(config: Config, width?: number): string {
     shortcuts.push(`Copy: ${formatKeys(config.keybindings.copySessionId)}`);
     shortcuts.push(`Quit: ${formatKeys(config.keybindings.quit)}`);
     shortcuts.push(`Full: ${formatKeys(config.keybindings.toggleFullView)} (experimental)`);
+    shortcuts.push(`Follow: ${formatKeys(config.keybindings.toggleLiveTail)}`);
+    shortcuts.push(`Reasoning: ${formatKeys(config.keybindings.toggleThinking)}`);
+    shortcuts.push(`Thread: ${formatKeys(config.keybindings.toggleThread)}`);
+    shortcuts.push(`Search: ${formatKeys(config.keybindings.search)}`);
+    shortcuts.push(`Filter: ${formatKeys(config.keybindings.filter)}`);
+    shortcuts.push(`Fuzzy: ${formatKeys(config.keybindings.fuzzyFilter)}`);
+    shortcuts.push(`Sort: ${formatKeys(config.keybindings.cycleSort)}`);
+    shortcuts.push(`Projects: ${formatKeys(config.keybindings.toggleProjectView)}`);
+    shortcuts.push(`Export: ${formatKeys(config.keybindings.exportConversation)}`);
   }
   
   const shortcutText = shortcuts.join(' • ');
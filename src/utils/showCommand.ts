@@ -0,0 +1,102 @@
+import { spawn } from 'child_process';
+import { existsSync, statSync } from 'fs';
+import { resolve } from 'path';
+import { format } from 'date-fns';
+import type { Conversation } from '../types.js';
+import { getAllConversations, loadConversationMessages, readConversationFile } from './conversationReader.js';
+import { formatProjectPath } from './conversationUtils.js';
+import { formatTokenCount } from './messageUtils.js';
+import { classifyTranscriptLines, filterTranscriptMessages, formatTranscriptMessage, type TranscriptColor } from './transcriptFormat.js';
+
+// `cdxresume show <session>`: one transcript printed the way the full view shows it, for reading
+// in a pager or piping elsewhere.
+
+export type SessionLookup = { conversation: Conversation } | { error: string };
+
+interface TextStyle {
+  color?: TranscriptColor;
+  bold?: boolean;
+  dim?: boolean;
+}
+
+const ANSI_CODES: Record<TranscriptColor, number> = { red: 31, green: 32, yellow: 33, magenta: 35, cyan: 36, gray: 90 };
+// Ambiguous id prefixes list this many of the sessions they match
+const MAX_LISTED_MATCHES = 5;
+const SEPARATOR = '━'.repeat(72);
+
+/** Finds a session by rollout file path, full session id or the start of one (case-insensitive). */
+export async function findSession(target: string, roots: string[]): Promise<SessionLookup> {
+  const path = resolve(target);
+  if (existsSync(path) && statSync(path).isFile()) {
+    const conversation = await readConversationFile(path);
+    return conversation ? { conversation } : { error: `${target} is not a Codex session with messages` };
+  }
+
+  const needle = target.toLowerCase();
+  const sessions = await getAllConversations({ roots });
+  const exact = sessions.filter(c => c.sessionId.toLowerCase() === needle);
+  const matches = exact.length > 0 ? exact : sessions.filter(c => c.sessionId.toLowerCase().startsWith(needle));
+  if (matches.length === 0) return { error: `No session matches '${target}'` };
+
+  const ids = [...new Set(matches.map(c => c.sessionId))];
+  if (ids.length > 1) {
+    const listed = ids.slice(0, MAX_LISTED_MATCHES).join(', ');
+    return { error: `'${target}' matches ${ids.length} sessions: ${listed}${ids.length > MAX_LISTED_MATCHES ? ', ...' : ''}` };
+  }
+  // A session resumed into several rollout files: the most recently active one is listed first
+  return { conversation: await loadConversationMessages(matches[0]) };
+}
+
+export function renderTranscript(conversation: Conversation, options: { hideOptions: string[]; color: boolean }): string {
+  const paint = (text: string, style: TextStyle) => {
+    const codes = [style.bold && 1, style.dim && 2, style.color && ANSI_CODES[style.color]].filter(Boolean);
+    return options.color && codes.length > 0 && text ? `\x1b[${codes.join(';')}m${text}\x1b[0m` : text;
+  };
+
+  const branch = conversation.gitBranch && conversation.gitBranch !== '-' ? ` | ${conversation.gitBranch}` : '';
+  const period = `${format(conversation.startTime, 'yyyy-MM-dd HH:mm')} - ${format(conversation.endTime, 'yyyy-MM-dd HH:mm')}`;
+  const lines: string[] = [
+    paint(`Session ${conversation.sessionId}`, { color: 'cyan', bold: true }),
+    paint(`${formatProjectPath(conversation.projectPath)}${branch} | ${period}`, { dim: true }),
+    ...(conversation.sourcePath ? [paint(conversation.sourcePath, { dim: true })] : []),
+    SEPARATOR,
+    ''
+  ];
+
+  for (const msg of filterTranscriptMessages(conversation.messages, options.hideOptions)) {
+    const timestamp = new Date(msg.timestamp);
+    if (isNaN(timestamp.getTime())) continue;
+    const isUser = msg.type === 'user';
+    const usage = msg.tokenUsage
+      ? paint(` · ${formatTokenCount(msg.tokenUsage.inputTokens)} in / ${formatTokenCount(msg.tokenUsage.outputTokens)} out`, { dim: true })
+      : '';
+    lines.push(`${paint(`[${isUser ? 'User' : 'Assistant'}]`, { color: isUser ? 'cyan' : 'green', bold: true })}${paint(` (${format(timestamp, 'HH:mm:ss')})`, { dim: true })}${usage}`);
+
+    for (const line of classifyTranscriptLines(formatTranscriptMessage(msg))) {
+      if (line.kind === 'label') lines.push(`  ${paint(line.label, { color: line.labelColor })}${line.text}`);
+      else if (line.kind === 'patch') lines.push(`  ${paint(line.text, { color: line.color })}`);
+      else lines.push(line.text ? `  ${line.text}` : '');
+    }
+    lines.push('');
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Pipes `text` into $PAGER (default less). LESS defaults to FRX like git does, so colors come
+ * through and short transcripts do not need a keypress. Resolves with the pager's exit code.
+ */
+export function pageOutput(text: string): Promise<number> {
+  return new Promise((resolvePromise, reject) => {
+    const pager = spawn(process.env.PAGER || 'less', {
+      shell: true,
+      stdio: ['pipe', 'inherit', 'inherit'],
+      env: { LESS: 'FRX', ...process.env }
+    });
+    pager.on('error', reject);
+    pager.on('close', code => resolvePromise(code ?? 0));
+    // Quitting the pager before the end closes its stdin; that is not an error
+    pager.stdin.on('error', () => {});
+    pager.stdin.end(text);
+  });
+}
@@ -0,0 +1,62 @@
+import type { Conversation } from '../types.js';
+import { formatProjectPath } from './conversationUtils.js';
+
+// Orders for the session list, cycled at runtime and remembered in the config file.
+
+export type SortMode = 'lastActivity' | 'startTime' | 'project' | 'messageCount' | 'duration' | 'mostResumed';
+
+export const SORT_MODES: readonly SortMode[] = ['lastActivity', 'startTime', 'project', 'messageCount', 'duration', 'mostResumed'];
+
+export const SORT_MODE_LABELS: Record<SortMode, string> = {
+  lastActivity: 'last activity',
+  startTime: 'start time',
+  project: 'project',
+  messageCount: 'message count',
+  duration: 'duration',
+  mostResumed: 'most resumed'
+};
+
+export function isSortMode(value: unknown): value is SortMode {
+  return typeof value === 'string' && (SORT_MODES as readonly string[]).includes(value);
+}
+
+export function nextSortMode(mode: SortMode): SortMode {
+  return SORT_MODES[(SORT_MODES.indexOf(mode) + 1) % SORT_MODES.length];
+}
+
+/**
+ * Whether the list can be read lazily in this order, stopping once a page is filled. Last activity
+ * follows the modification times of the rollout files, start time the YYYY/MM/DD partitions
+ * (start days). Other orders need every session before the first page can be shown.
+ */
+export function isLazyOrder(mode: SortMode): boolean {
+  return mode === 'lastActivity' || mode === 'startTime';
+}
+
+/**
+ * Comparator for `mode`; ties fall back to the most recent activity first.
+ * `resumeCounts` (by session id, see resumeHistory) is only read by `mostResumed`.
+ */
+export function compareConversations(mode: SortMode, resumeCounts: ReadonlyMap<string, number> = new Map()): (a: Conversation, b: Conversation) => number {
+  const byLastActivity = (a: Conversation, b: Conversation) => b.endTime.getTime() - a.endTime.getTime();
+  const primary = (a: Conversation, b: Conversation): number => {
+    switch (mode) {
+      case 'lastActivity': return 0;
+      case 'startTime': return b.startTime.getTime() - a.startTime.getTime();
+      case 'project': return projectSortKey(a).localeCompare(projectSortKey(b));
+      case 'messageCount': return (b.messageCount ?? b.messages.length) - (a.messageCount ?? a.messages.length);
+      case 'duration': return durationMs(b) - durationMs(a);
+      case 'mostResumed': return (resumeCounts.get(b.sessionId) ?? 0) - (resumeCounts.get(a.sessionId) ?? 0);
+    }
+  };
+  return (a, b) => primary(a, b) || byLastActivity(a, b);
+}
+
+// The project path as the list shows it, so sessions of one directory end up next to each other
+function projectSortKey(conversation: Conversation): string {
+  return formatProjectPath(conversation.projectPath).toLowerCase();
+}
+
+function durationMs(conversation: Conversation): number {
+  return conversation.endTime.getTime() - conversation.startTime.getTime();
+}
@@ -6,4 +6,9 @@ export function truncateString(str: string, maxLength: number): string {
 
 export function getStringDisplayLength(str: string): number {
   return getStringWidth(str);
-}
\ No newline at end of file
+}
+
+// Typed text without control characters (escape sequences, tabs, newlines from pastes, DEL)
+export function stripControlChars(str: string): string {
+  return Array.from(str).filter(char => char.charCodeAt(0) >= 0x20 && char.charCodeAt(0) !== 0x7f).join('');
+}
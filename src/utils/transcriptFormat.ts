@@ -0,0 +1,292 @@
+import type { ContentPart, Message, ToolInvocation } from '../types.js';
+import { extractMessageText, formatCommandFailure, formatToolOutcome, isFailedToolResult } from './messageUtils.js';
+
+// Text of the full transcript view, shared by ConversationPreviewFull and `cdxresume show`:
+// which messages are shown for a set of --hide options, what each one reads, and how its lines
+// are colored.
+
+// Type definitions for tool inputs
+interface TodoWriteInput {
+  todos?: Array<{
+    id: string;
+    content: string;
+    status: string;
+    priority: string;
+  }>;
+}
+
+interface EditInput {
+  filePath?: string;
+  file_path?: string;
+  oldString?: string;
+  old_string?: string;
+  newString?: string;
+  new_string?: string;
+}
+
+interface ReadInput {
+  filePath?: string;
+  file_path?: string;
+  offset?: number;
+  limit?: number;
+}
+
+interface BashInput {
+  command?: string;
+  cmd?: string;
+}
+
+interface GrepInput {
+  pattern?: string;
+  glob?: string;
+  path?: string;
+}
+
+interface GlobInput {
+  pattern?: string;
+}
+
+interface MultiEditInput {
+  filePath?: string;
+  file_path?: string;
+  edits?: Array<{
+    oldString?: string;
+    old_string?: string;
+    newString?: string;
+    new_string?: string;
+  }>;
+}
+
+export type TranscriptColor = 'cyan' | 'magenta' | 'green' | 'red' | 'yellow' | 'gray';
+
+// One line of a message body: a `[Label] rest` line, a line of an apply_patch block, or text
+export type TranscriptLine =
+  | { kind: 'label'; label: string; labelColor: TranscriptColor; text: string }
+  | { kind: 'patch'; text: string; color?: TranscriptColor }
+  | { kind: 'text'; text: string };
+
+// Labels that report an outcome rather than name a tool
+const LABEL_COLORS: Record<string, TranscriptColor> = {
+  '[Result]': 'green',
+  '[Pending]': 'gray',
+  '[Command failed]': 'red',
+  '[Error]': 'red'
+};
+
+// Failed calls show the tail of their output; raw output is otherwise left out to avoid layout breaks
+const FAILED_OUTPUT_LINES = 5;
+
+function formatToolOutcomeLines(tool: ToolInvocation): string {
+  const outcome = formatToolOutcome(tool);
+  if (tool.success !== false) return outcome;
+  const output = (tool.stderr || tool.stdout || '').split('\n').filter(line => line.trim());
+  return [outcome, ...output.slice(-FAILED_OUTPUT_LINES).map(line => `  ${line}`)].join('\n');
+}
+
+/** Messages the full view lists for these --hide options. */
+export function filterTranscriptMessages(messages: Message[], hideOptions: string[]): Message[] {
+  return messages.filter(msg => {
+    if (!msg || (!msg.message && !msg.toolUseResult)) {
+      return false;
+    }
+    // Hide tool result-only messages, except commands that failed
+    if (msg.toolUseResult) return isFailedToolResult(msg.toolUseResult) && !hideOptions.includes('tool');
+    if (msg.message && Array.isArray(msg.message.content)) {
+      const parts = msg.message.content as ContentPart[];
+      const hasToolResult = parts.some((it) => it && it.type === 'tool_result');
+      if (hasToolResult) return false;
+    }
+
+    // Get content to check message type
+    let content = '';
+    if (msg.message && msg.message.content) {
+      content = extractMessageText(msg.message.content);
+    } else if (msg.toolUseResult) {
+      // Tool result messages are considered tool messages
+      return !hideOptions.includes('tool');
+    }
+
+    // Check if this is a tool message
+    if (hideOptions.includes('tool') && content.startsWith('[Tool:')) {
+      return false;
+    }
+
+    // Check if this is a thinking message
+    if (hideOptions.includes('thinking') && content === '[Thinking...]') {
+      return false;
+    }
+
+    // Check if we should hide user messages
+    if (hideOptions.includes('user') && msg.type === 'user') {
+      return false;
+    }
+
+    // Check if we should hide assistant messages
+    if (hideOptions.includes('assistant') && msg.type === 'assistant') {
+      return false;
+    }
+
+    return true;
+  });
+}
+
+/** Body of a message as the full view shows it: text, thinking, a summary of the tool call and its outcome. */
+export function formatTranscriptMessage(msg: Message): string {
+  let content = '';
+
+  // Handle different message formats
+  if (msg.toolUseResult && isFailedToolResult(msg.toolUseResult)) {
+    content = formatCommandFailure(msg.toolUseResult);
+  } else if (msg.message && msg.message.content) {
+    // Check if content contains tool_use
+    const messageContent = msg.message.content as ContentPart[];
+    if (Array.isArray(messageContent)) {
+      // Collect all content parts
+      const contentParts: string[] = [];
+
+      // Check for thinking content
+      const thinkingItem = messageContent.find((item) => item.type === 'thinking') as Extract<ContentPart, { type: 'thinking' }> | undefined;
+      if (thinkingItem && typeof thinkingItem.thinking === 'string') {
+        contentParts.push(`[Thinking...]\n${thinkingItem.thinking.trim()}`);
+      }
+
+      // Check for regular text content
+      const textItems = messageContent.filter((item) => item.type === 'text');
+      textItems.forEach((item) => {
+        if ('text' in item && item.text) {
+          contentParts.push(item.text);
+        }
+      });
+
+      // Check for tool use
+      const toolUse = messageContent.find((item) => item.type === 'tool_use') as Extract<ContentPart, { type: 'tool_use' }> | undefined;
+      if (toolUse) {
+        // Format tool use based on tool name
+        if (toolUse.name === 'TodoWrite') {
+          const input = toolUse.input as TodoWriteInput;
+          if (input?.todos) {
+            const todos = input.todos;
+            const todoSummary = todos.map((todo) =>
+              `  ${todo.status === 'completed' ? '✓' : todo.status === 'in_progress' ? '→' : '○'} ${todo.content}`
+            ).join('\n');
+            contentParts.push(`[Tool: TodoWrite]\n${todoSummary}`);
+          } else {
+            contentParts.push(`[Tool: TodoWrite]`);
+          }
+        } else if (toolUse.name === 'Edit') {
+          const input = toolUse.input as EditInput;
+          const filePath = input?.filePath || input?.file_path || 'file';
+          const oldStr = input?.oldString || input?.old_string || '';
+          const newStr = input?.newString || input?.new_string || '';
+          contentParts.push(`[Tool: Edit] ${filePath}\nOld:\n${oldStr}\nNew:\n${newStr}`);
+        } else if (toolUse.name === 'Read') {
+          const input = toolUse.input as ReadInput;
+          const filePath = input?.filePath || input?.file_path || 'file';
+          const lineInfo = input?.offset ? ` (lines ${input.offset}-${input.offset + (input.limit || 50)})` : '';
+          contentParts.push(`[Tool: Read] ${filePath}${lineInfo}`);
+        } else if (toolUse.name === 'Bash') {
+          const input = toolUse.input as BashInput;
+          contentParts.push(`[Tool: Bash] ${input?.command || input?.cmd || ''}`);
+        } else if (toolUse.name === 'Grep') {
+          const input = toolUse.input as GrepInput;
+          contentParts.push(`[Tool: Grep] pattern: "${input?.pattern || ''}" in ${input?.glob || input?.path || '.'}`);
+        } else if (toolUse.name === 'Glob') {
+          const input = toolUse.input as GlobInput;
+          contentParts.push(`[Tool: Glob] pattern: "${input?.pattern || ''}"`);
+        } else if (toolUse.name === 'MultiEdit') {
+          const input = toolUse.input as MultiEditInput;
+          const filePath = input?.filePath || input?.file_path || 'file';
+          const edits = input?.edits || [];
+          const editSummary = edits.map((edit, i: number) =>
+            `Edit ${i + 1}:\nOld:\n${edit.oldString || edit.old_string || ''}\nNew:\n${edit.newString || edit.new_string || ''}`
+          ).join('\n\n');
+          contentParts.push(`[Tool: MultiEdit] ${filePath}\n${editSummary}`);
+        } else if (toolUse.name === 'shell' && toolUse.input && (toolUse.input as { command?: string | string[] }).command !== undefined) {
+          const cmd = (toolUse.input as { command?: string | string[] }).command;
+          if (Array.isArray(cmd) && cmd[0] === 'apply_patch' && typeof cmd[1] === 'string') {
+            const patch = cmd[1] as string;
+            contentParts.push(`[Tool: apply_patch]`);
+            contentParts.push(patch);
+          } else if (Array.isArray(cmd)) {
+            contentParts.push(`[Tool: shell] ${cmd.join(' ')}`);
+          } else if (typeof cmd === 'string') {
+            contentParts.push(`[Tool: shell] ${cmd}`);
+          } else {
+            contentParts.push(`[Tool: shell]`);
+          }
+        } else {
+          contentParts.push(`[Tool: ${toolUse.name}] ${JSON.stringify(toolUse.input || {}).substring(0, 100)}...`);
+        }
+        if (msg.tool) {
+          contentParts.push(formatToolOutcomeLines(msg.tool));
+        }
+      }
+
+      // Join all content parts
+      content = contentParts.join('\n\n');
+      if (!content) {
+        content = extractMessageText(messageContent);
+      }
+    } else {
+      content = extractMessageText(messageContent);
+    }
+  } else if (msg.toolUseResult) {
+    // Handle tool result messages
+    const result = msg.toolUseResult;
+    if (result.oldTodos && result.newTodos) {
+      // TodoWrite result
+      const changes = result.newTodos.filter((newTodo) => {
+        const oldTodo = result.oldTodos?.find((old) => old.id === newTodo.id);
+        return !oldTodo || oldTodo.status !== newTodo.status || oldTodo.content !== newTodo.content;
+      });
+      content = `[TodoWrite Result] ${changes.length} todos updated`;
+    } else if (result.file || result.filePath) {
+      // Read result
+      const filePath = result.file?.filePath || result.filePath;
+      content = `[Read Result] ${filePath} (${result.file?.numLines || result.numLines || 0} lines)`;
+    } else if (result.oldString && result.newString) {
+      // Edit result
+      content = `[Edit Result] ${result.filePath || 'file'} modified`;
+    } else if (result.stdout || result.stderr) {
+      // Do not render raw Tool Output in full view to avoid layout breaks
+      content = `[Tool Result]`;
+    } else if (result.filenames && Array.isArray(result.filenames)) {
+      const fileList = result.filenames.slice(0, 5).join('\n  ');
+      const moreCount = result.filenames.length > 5 ? `\n  ... and ${result.filenames.length - 5} more` : '';
+      content = `[Search Results: ${result.filenames.length} files]\n  ${fileList}${moreCount}`;
+    } else {
+      content = `[Tool Result] ${JSON.stringify(result).substring(0, 100)}...`;
+    }
+  }
+  return content;
+}
+
+/** Splits a message body into lines: labels are colored outside patch blocks, diff lines inside them. */
+export function classifyTranscriptLines(content: string): TranscriptLine[] {
+  let inPatch = false;
+  return content.split('\n').map((line): TranscriptLine => {
+    // Enter/exit patch blocks explicitly
+    if (line.startsWith('*** Begin Patch')) {
+      inPatch = true;
+    }
+    const isEndPatch = line.startsWith('*** End Patch');
+    let classified: TranscriptLine = { kind: 'text', text: line };
+
+    // Label coloring only outside patch blocks
+    const labelMatch = !inPatch && line.startsWith('[') ? line.match(/^(\[.*?\])(.*)/) : null;
+    if (labelMatch) {
+      classified = { kind: 'label', label: labelMatch[1], labelColor: LABEL_COLORS[labelMatch[1]] ?? 'yellow', text: labelMatch[2] };
+    } else if (inPatch || isEndPatch) {
+      // Colorize only inside patch blocks (or for Begin/End header lines)
+      let color: TranscriptColor | undefined = undefined;
+      if (line.startsWith('*** ')) color = 'cyan';
+      else if (line.startsWith('@@')) color = 'magenta';
+      else if (line.startsWith('+')) color = 'green';
+      else if (line.startsWith('-')) color = 'red';
+      classified = { kind: 'patch', text: line, color };
+    }
+
+    if (isEndPatch) inPatch = false;
+    return classified;
+  });
+}